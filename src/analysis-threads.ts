@@ -0,0 +1,52 @@
+/**
+ * Conversation threads for follow-up questions on /analyze messages.
+ *
+ * Each bot message with an analysis (or a follow-up answer) is stored with the
+ * match context and the dialog so far, so a reply to it continues the conversation.
+ */
+import { openStore } from "./storage.js";
+
+export interface ThreadMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface AnalysisThread {
+  matchId: number;
+  personaId: string;
+  focusSteamId?: number;     // set for single-player reviews (/analyze <match> @player)
+  context: string;           // match context the analysis was built from
+  messages: ThreadMessage[]; // starts with the analysis itself, then questions and answers
+}
+
+// Threads expire: nobody asks about a match from last week, and contexts are large
+const THREAD_TTL_MS = 12 * 60 * 60 * 1000; // 12 hours
+export const MAX_FOLLOW_UPS = 5;
+export const MAX_QUESTION_LENGTH = 500;
+
+const threadStore = openStore<AnalysisThread>("analysis-threads");
+
+function getThreadKey(chatId: number, messageId: number): string {
+  return `${chatId}:${messageId}`;
+}
+
+/**
+ * Remembers the thread behind a bot message
+ */
+export function saveThread(chatId: number, messageId: number, thread: AnalysisThread): void {
+  threadStore.set(getThreadKey(chatId, messageId), thread, THREAD_TTL_MS);
+}
+
+/**
+ * Thread behind a bot message, if it is an analysis that hasn't expired
+ */
+export function getThread(chatId: number, messageId: number): AnalysisThread | undefined {
+  return threadStore.get(getThreadKey(chatId, messageId));
+}
+
+/**
+ * Number of questions already asked in a thread
+ */
+export function countFollowUps(thread: AnalysisThread): number {
+  return thread.messages.filter((m) => m.role === "user").length;
+}
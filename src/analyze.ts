@@ -1,29 +1,52 @@
-import OpenAI from "openai";
-import { getAppFetch, getOpenAIFetch } from "./proxy.js";
-import { PLAYER_IDS, getBotAttitude } from "./config.js";
-import { fetchRecentMatches, fetchPlayerProfile } from "./opendota.js";
+/**
+ * Match analysis engine: fetches match details, builds the LLM context and asks
+ * the model to review the match in the voice of a persona (see personas.ts).
+ */
+import { getChatPlayerIds } from "./chats.js";
+import { getPlayerIds, getBotAttitude, getPlayerDisplayName, getPlayerPreferences, type Player } from "./config.js";
+import {
+  fetchMatchDetails,
+  fetchPlayerProfile,
+  fetchRecentMatches,
+  isMatchParsed,
+  type MatchDetails,
+  type MatchPlayer,
+} from "./opendota.js";
 import { getHeroName } from "./heroes.js";
 import { getItemNames } from "./items.js";
 import { getRankName } from "./ranks.js";
 import { maybeAppendOutcomeCanonStrophe } from "./canon.js";
 import { escapeHtml } from "./telegram-html.js";
-
-const OPENDOTA_API_BASE = "https://api.opendota.com/api";
+import { openStore } from "./storage.js";
+import { complete, type LlmFeature, type LlmMessage } from "./llm.js";
+import { checkAiQuota, type AiRequester } from "./quota.js";
+import { buildPlayerFocusPrompt, getPersona, getToxicityHint, type AnalysisPersona, type StackRole } from "./personas.js";
+import {
+  KEY_ITEMS,
+  formatBenchmark,
+  formatDuration,
+  formatGameMode,
+  formatSigned,
+  formatTime,
+  getOurSide,
+} from "./match-details.js";
+import { buildMatchReport } from "./match-report.js";
+import { buildPlayerFocusContext, findFocusPlayer } from "./player-analysis.js";
+import type { AnalysisThread, ThreadMessage } from "./analysis-threads.js";
 
 // ============================================================================
-// CONFIGURATION1
+// CONFIGURATION
 // ============================================================================
 
-const OPENAI_MODEL = process.env.OPENAI_MODEL || "gpt-5.2";
-
-// Cache for analysis results (match_id -> analysis + metadata)
+// Cache for analysis results ("persona:match_id" -> analysis + metadata)
 interface AnalysisCacheEntry {
   analysis: string;
   timestamp: number;
   isParsed: boolean; // Track if analysis was done with parsed data
+  thread?: AnalysisThread; // context + LLM reply, to continue with follow-up questions
 }
-const analysisCache = new Map<number, AnalysisCacheEntry>();
 const CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const analysisCache = openStore<AnalysisCacheEntry>("analysis");
 
 const LANE_NAMES: Record<number, string> = {
   1: "Safelane",
@@ -32,167 +55,34 @@ const LANE_NAMES: Record<number, string> = {
   4: "Jungle",
 };
 
-const KEY_ITEMS = [
-  "blink", "black_king_bar", "manta", "butterfly", "satanic", "skadi",
-  "hand_of_midas", "battle_fury", "radiance", "aghanims_scepter",
-  "refresher", "sheepstick", "assault", "shivas_guard", "heart",
-  "travel_boots", "bloodthorn", "nullifier", "sphere", "aeon_disk",
-  "desolator", "mjollnir", "greater_crit", "monkey_king_bar",
-];
-
-// ============================================================================
-// Types
-// ============================================================================
-
-interface PurchaseLog {
-  time: number;
-  key: string;
-}
-
-interface Objective {
-  time: number;
-  type: string;
-  key?: string;
-}
-
-interface TeamfightPlayer {
-  deaths: number;
-  damage: number;
-  gold_delta: number;
-}
-
-interface Teamfight {
-  start: number;
-  end: number;
-  deaths: number;
-  players: TeamfightPlayer[];
-}
-
-interface MatchPlayer {
-  account_id?: number;
-  player_slot: number;
-  hero_id: number;
-  hero_variant: number;
-  kills: number;
-  deaths: number;
-  assists: number;
-  last_hits: number;
-  denies: number;
-  gold_per_min: number;
-  xp_per_min: number;
-  level: number;
-  net_worth: number;
-  hero_damage: number;
-  tower_damage: number;
-  hero_healing: number;
-  item_0: number;
-  item_1: number;
-  item_2: number;
-  item_3: number;
-  item_4: number;
-  item_5: number;
-  item_neutral: number;
-  personaname?: string;
-  isRadiant: boolean;
-  win: number;
-  kda: number;
-  rank_tier?: number | null;
-  lane?: number | null;
-  lane_role?: number | null;
-  is_roaming?: boolean | null;
-  lane_efficiency_pct?: number | null;
-  obs_placed?: number | null;
-  sen_placed?: number | null;
-  camps_stacked?: number | null;
-  stuns?: number | null;
-  teamfight_participation?: number | null;
-  actions_per_min?: number | null;
-  gold_t?: number[];
-  xp_t?: number[];
-  lh_t?: number[];
-  dn_t?: number[];
-  purchase_log?: PurchaseLog[];
-  benchmarks?: {
-    gold_per_min?: { raw: number; pct: number };
-    xp_per_min?: { raw: number; pct: number };
-    kills_per_min?: { raw: number; pct: number };
-    last_hits_per_min?: { raw: number; pct: number };
-    hero_damage_per_min?: { raw: number; pct: number };
-    hero_healing_per_min?: { raw: number; pct: number };
-    tower_damage?: { raw: number; pct: number };
-  };
-}
-
-interface MatchDetails {
-  match_id: number;
-  duration: number;
-  radiant_win: boolean;
-  start_time: number;
-  game_mode: number;
-  first_blood_time?: number;
-  radiant_score: number;
-  dire_score: number;
-  radiant_gold_adv?: number[];
-  radiant_xp_adv?: number[];
-  objectives?: Objective[];
-  teamfights?: Teamfight[];
-  players: MatchPlayer[];
-}
-
 // ============================================================================
 // Helpers
 // ============================================================================
 
-function formatDuration(seconds: number): string {
-  const mins = Math.floor(seconds / 60);
-  const secs = seconds % 60;
-  return `${mins}:${secs.toString().padStart(2, "0")}`;
-}
-
-function formatTime(seconds: number): string {
-  const sign = seconds < 0 ? "-" : "";
-  const abs = Math.abs(seconds);
-  const mins = Math.floor(abs / 60);
-  const secs = abs % 60;
-  return `${sign}${mins}:${secs.toString().padStart(2, "0")}`;
-}
-
-function formatBenchmark(pct: number): string {
-  const percent = Math.round(pct * 100);
-  if (percent >= 80) return `${percent}% 🔥`;
-  if (percent >= 60) return `${percent}% ✅`;
-  if (percent >= 40) return `${percent}%`;
-  if (percent >= 20) return `${percent}% ⚠️`;
-  return `${percent}% 💀`;
-}
-
-async function fetchMatchDetails(matchId: number): Promise<MatchDetails> {
-  const url = `${OPENDOTA_API_BASE}/matches/${matchId}`;
-  const fetchFn = await getAppFetch();
-  const response = await fetchFn(url);
-  if (!response.ok) {
-    throw new Error(`OpenDota API error: ${response.status}`);
-  }
-  return response.json();
+/**
+ * Players whose matches are "ours": the chat's players, or the whole roster outside a chat
+ */
+function getOurPlayerIds(chatId?: string | number): Set<number> {
+  return new Set(chatId !== undefined ? getChatPlayerIds(chatId) : getPlayerIds());
 }
 
-async function findLastPartyMatch(): Promise<{
+async function findLastPartyMatch(ourPlayerIds: Set<number>): Promise<{
   matchId: number;
   playerId: number;
   playerName: string;
 } | null> {
   let latestMatch: { matchId: number; startTime: number; playerId: number } | null = null;
   
-  for (const playerId of PLAYER_IDS) {
+  for (const playerId of ourPlayerIds) {
     try {
-      const matches = await fetchRecentMatches(playerId as number);
+      const matches = await fetchRecentMatches(playerId);
       if (matches.length > 0) {
         const recent = matches[0];
         if (!latestMatch || recent.start_time > latestMatch.startTime) {
           latestMatch = {
             matchId: recent.match_id,
             startTime: recent.start_time,
-            playerId: playerId as number,
+            playerId,
           };
         }
       }
@@ -203,7 +93,7 @@ async function findLastPartyMatch(): Promise<{
   
   if (!latestMatch) return null;
   
-  const profile = await fetchPlayerProfile(latestMatch.playerId as (typeof PLAYER_IDS)[number]);
+  const profile = await fetchPlayerProfile(latestMatch.playerId);
   const playerName = profile.profile?.personaname || String(latestMatch.playerId);
   
   return {
@@ -214,15 +104,15 @@ async function findLastPartyMatch(): Promise<{
 }
 
 // ============================================================================
-// Context Builder
+// Context Builders
 // ============================================================================
 
-async function buildAnalysisContext(match: MatchDetails): Promise<string> {
-  const playerIdsSet = new Set<number>(PLAYER_IDS as readonly number[]);
-  const ourPlayers = match.players.filter(p => p.account_id && playerIdsSet.has(p.account_id));
-  const isParsed = match.players.some(p => p.gold_t && p.gold_t.length > 0);
-  
-  // Get hero names
+interface MatchNames {
+  heroNames: Map<number, string>;    // hero_id -> name
+  playerItems: Map<number, string>;  // player_slot -> comma-separated items
+}
+
+async function loadMatchNames(match: MatchDetails): Promise<MatchNames> {
   const heroNames = new Map<number, string>();
   for (const p of match.players) {
     if (!heroNames.has(p.hero_id)) {
@@ -230,7 +120,6 @@ async function buildAnalysisContext(match: MatchDetails): Promise<string> {
     }
   }
   
-  // Get item names
   const playerItems = new Map<number, string>();
   for (const p of match.players) {
     const itemIds = [p.item_0, p.item_1, p.item_2, p.item_3, p.item_4, p.item_5].filter(i => i > 0);
@@ -238,11 +127,67 @@ async function buildAnalysisContext(match: MatchDetails): Promise<string> {
     playerItems.set(p.player_slot, itemNames.filter(n => n).join(", "));
   }
   
+  return { heroNames, playerItems };
+}
+
+/**
+ * Player block shared by all contexts: KDA, economy, items, timings, benchmarks
+ */
+function formatPlayer(p: MatchPlayer, marker: string, names: MatchNames): string {
+  const hero = names.heroNames.get(p.hero_id) || "Unknown";
+  const name = p.personaname || "Anonymous";
+  const items = names.playerItems.get(p.player_slot) || "None";
+  const rank = getRankName(p.rank_tier);
+  
+  let info = `${marker}${name} (${hero})${rank ? ` [${rank}]` : ""}
+    • KDA: ${p.kills}/${p.deaths}/${p.assists} (${p.kda.toFixed(2)})
+    • GPM: ${p.gold_per_min} | XPM: ${p.xp_per_min} | NW: ${p.net_worth.toLocaleString()}
+    • Hero Damage: ${p.hero_damage.toLocaleString()} | Tower: ${p.tower_damage.toLocaleString()}
+    • Items: ${items}`;
+  
+  // Key item timings (if parsed)
+  if (p.purchase_log && p.purchase_log.length > 0) {
+    const keyPurchases = p.purchase_log.filter(pl => KEY_ITEMS.includes(pl.key));
+    if (keyPurchases.length > 0) {
+      const timings = keyPurchases.slice(0, 4).map(pl => `${pl.key}@${formatTime(pl.time)}`).join(", ");
+      info += `\n    • Timings: ${timings}`;
+    }
+  }
+  
+  // Benchmarks
+  if (p.benchmarks) {
+    const b = p.benchmarks;
+    info += `\n    • Benchmarks: GPM ${b.gold_per_min ? formatBenchmark(b.gold_per_min.pct) : "N/A"}, DMG ${b.hero_damage_per_min ? formatBenchmark(b.hero_damage_per_min.pct) : "N/A"}`;
+  }
+  
+  // 10 min CS (if parsed)
+  if (p.lh_t && p.lh_t.length >= 10) {
+    info += `\n    • 10 min CS: ${p.lh_t[10] || 0}/${p.dn_t?.[10] || 0}`;
+  }
+  
+  return info;
+}
+
+function formatOurPlayerMarker(p: MatchPlayer, hint?: string): string {
+  const attitude = p.account_id ? getBotAttitude(p.account_id) : undefined;
+  const toxicity = p.account_id ? getToxicityHint(getPlayerPreferences(p.account_id).maxToxicity) : undefined;
+  return `⭐ [OUR PLAYER${attitude ? ` — твоё отношение к нему: "${attitude}"` : ""}` +
+    `${toxicity ? ` — предел жёсткости: ${toxicity}` : ""}${hint ? ` - ${hint}` : ""}] `;
+}
+
+/**
+ * Neutral context: Radiant vs Dire with our players marked
+ */
+async function buildTeamsContext(match: MatchDetails, playerIdsSet: Set<number>): Promise<string> {
+  const ourPlayers = match.players.filter(p => p.account_id && playerIdsSet.has(p.account_id));
+  const isParsed = isMatchParsed(match);
+  const names = await loadMatchNames(match);
+  
   // Match overview
   let context = `
 MATCH: ${match.match_id} | Duration: ${formatDuration(match.duration)} | ${match.radiant_win ? "Radiant Win" : "Dire Win"}
 Score: Radiant ${match.radiant_score} - ${match.dire_score} Dire
-Mode: ${match.game_mode === 23 ? "Turbo" : match.game_mode === 22 ? "All Pick" : `Mode ${match.game_mode}`}
+Mode: ${formatGameMode(match.game_mode)}
 First Blood: ${match.first_blood_time ? formatTime(match.first_blood_time) : "N/A"}
 Data: ${isParsed ? "PARSED (full data)" : "BASIC"}
 `;
@@ -256,9 +201,9 @@ Data: ${isParsed ? "PARSED (full data)" : "BASIC"}
     
     context += `
 ECONOMY:
-• 10 min: ${goldAdv[min10] > 0 ? "+" : ""}${goldAdv[min10]} Radiant
-• 20 min: ${goldAdv[min20] > 0 ? "+" : ""}${goldAdv[min20]} Radiant
-• End: ${goldAdv[endMin] > 0 ? "+" : ""}${goldAdv[endMin]} Radiant
+• 10 min: ${formatSigned(goldAdv[min10])} Radiant
+• 20 min: ${formatSigned(goldAdv[min20])} Radiant
+• End: ${formatSigned(goldAdv[endMin])} Radiant
 `;
   }
 
@@ -280,160 +225,266 @@ ECONOMY:
     }
   }
 
-  // Players
-  const formatPlayer = (p: MatchPlayer, isOurs: boolean) => {
-    const hero = heroNames.get(p.hero_id) || "Unknown";
-    const name = p.personaname || "Anonymous";
-    const items = playerItems.get(p.player_slot) || "None";
-    const rank = getRankName(p.rank_tier);
-    const attitude = isOurs && p.account_id ? getBotAttitude(p.account_id) : undefined;
-    const marker = isOurs ? `⭐ [OUR PLAYER${attitude ? ` — твоё отношение к нему: "${attitude}"` : ""}] ` : "";
-    
-    let info = `${marker}${name} (${hero})${rank ? ` [${rank}]` : ""}
-    • KDA: ${p.kills}/${p.deaths}/${p.assists} (${p.kda.toFixed(2)})
-    • GPM: ${p.gold_per_min} | XPM: ${p.xp_per_min} | NW: ${p.net_worth.toLocaleString()}
-    • Hero Damage: ${p.hero_damage.toLocaleString()} | Tower: ${p.tower_damage.toLocaleString()}
-    • Items: ${items}`;
-    
-    // Key item timings (if parsed)
-    if (p.purchase_log && p.purchase_log.length > 0) {
-      const keyPurchases = p.purchase_log.filter(pl => KEY_ITEMS.includes(pl.key));
-      if (keyPurchases.length > 0) {
-        const timings = keyPurchases.slice(0, 4).map(pl => `${pl.key}@${formatTime(pl.time)}`).join(", ");
-        info += `\n    • Timings: ${timings}`;
-      }
-    }
-    
-    // Benchmarks
-    if (p.benchmarks) {
-      const b = p.benchmarks;
-      info += `\n    • Benchmarks: GPM ${b.gold_per_min ? formatBenchmark(b.gold_per_min.pct) : "N/A"}, DMG ${b.hero_damage_per_min ? formatBenchmark(b.hero_damage_per_min.pct) : "N/A"}`;
-    }
-    
-    // 10 min CS (if parsed)
-    if (p.lh_t && p.lh_t.length >= 10) {
-      info += `\n    • 10 min CS: ${p.lh_t[10] || 0}/${p.dn_t?.[10] || 0}`;
-    }
-    
-    return info;
-  };
+  const formatSide = (players: MatchPlayer[]) =>
+    players
+      .map(p => formatPlayer(p, playerIdsSet.has(p.account_id as number) ? formatOurPlayerMarker(p) : "", names))
+      .join("\n\n");
   
   const radiant = match.players.filter(p => p.isRadiant);
   const dire = match.players.filter(p => !p.isRadiant);
   
   context += `
 \nRADIANT ${match.radiant_win ? "(WIN)" : "(LOSE)"}:
-${radiant.map(p => formatPlayer(p, playerIdsSet.has(p.account_id as number))).join("\n\n")}
+${formatSide(radiant)}
 
 DIRE ${!match.radiant_win ? "(WIN)" : "(LOSE)"}:
-${dire.map(p => formatPlayer(p, playerIdsSet.has(p.account_id as number))).join("\n\n")}
+${formatSide(dire)}
+
+OUR PLAYERS: ${ourPlayers.map(p => `${p.personaname || "Anon"} (${names.heroNames.get(p.hero_id)})`).join(", ") || "None identified"}
+`;
+
+  return context;
+}
+
+/**
+ * Context from our team's perspective: our stack, random allies and enemies.
+ * Persona role hints are appended to each player's marker.
+ */
+async function buildStackContext(
+  match: MatchDetails,
+  persona: AnalysisPersona,
+  playerIdsSet: Set<number>,
+): Promise<string> {
+  const isParsed = isMatchParsed(match);
+  const { weAreRadiant, weWon } = getOurSide(match, playerIdsSet);
+  
+  // Categorize all players
+  const ourPlayers = match.players.filter(p => p.account_id && playerIdsSet.has(p.account_id));
+  const ourTeamPlayers = match.players.filter(p => p.isRadiant === weAreRadiant);
+  const enemyPlayers = match.players.filter(p => p.isRadiant !== weAreRadiant);
+  const randomAllies = ourTeamPlayers.filter(p => !p.account_id || !playerIdsSet.has(p.account_id));
+  
+  const names = await loadMatchNames(match);
+  
+  // Match overview
+  let context = `
+MATCH: ${match.match_id} | Duration: ${formatDuration(match.duration)}
+RESULT: ${weWon ? "🏆 WE WON" : "💀 WE LOST"}
+Score: ${weAreRadiant ? "Our team" : "Enemy"} ${match.radiant_score} - ${match.dire_score} ${weAreRadiant ? "Enemy" : "Our team"}
+Mode: ${formatGameMode(match.game_mode)}
+Data: ${isParsed ? "PARSED (full data)" : "BASIC"}
+`;
+
+  // Economy timeline (if parsed), converted to "our team" perspective
+  if (match.radiant_gold_adv && match.radiant_gold_adv.length > 0) {
+    const goldAdv = match.radiant_gold_adv;
+    const min10 = Math.min(10, goldAdv.length - 1);
+    const min20 = Math.min(20, goldAdv.length - 1);
+    const endMin = goldAdv.length - 1;
+    const mult = weAreRadiant ? 1 : -1;
+    
+    context += `
+ECONOMY (our team perspective):
+• 10 min: ${formatSigned(goldAdv[min10] * mult)} gold
+• 20 min: ${formatSigned(goldAdv[min20] * mult)} gold
+• End: ${formatSigned(goldAdv[endMin] * mult)} gold
+`;
+  }
 
-OUR PLAYERS: ${ourPlayers.map(p => `${p.personaname || "Anon"} (${heroNames.get(p.hero_id)})`).join(", ") || "None identified"}
+  const hints = persona.roleHints ?? {};
+  const formatRole = (p: MatchPlayer, role: StackRole) => {
+    const hint = hints[role];
+    const marker =
+      role === "our" ? formatOurPlayerMarker(p, hint)
+      : role === "random_ally" ? `🤷 [RANDOM ALLY${hint ? ` - ${hint}` : ""}] `
+      : `⚔️ [ENEMY${hint ? ` - ${hint}` : ""}] `;
+    return formatPlayer(p, marker, names);
+  };
+  
+  // Worst random ally and strongest enemy, highlighted separately
+  let worstRandomStats = "";
+  if (randomAllies.length > 0) {
+    const worst = [...randomAllies].sort((a, b) => a.kda - b.kda)[0];
+    const worstHero = names.heroNames.get(worst.hero_id) || "Unknown";
+    worstRandomStats = `
+WORST RANDOM ALLY: ${worst.personaname || "Anonymous"} (${worstHero})
+• KDA: ${worst.kills}/${worst.deaths}/${worst.assists} = ${worst.kda.toFixed(2)}
+• Deaths: ${worst.deaths}
+`;
+  }
+  
+  const strongestEnemy = [...enemyPlayers].sort((a, b) => b.hero_damage - a.hero_damage)[0];
+  const strongestHero = names.heroNames.get(strongestEnemy.hero_id) || "Unknown";
+  const strongestEnemyStats = `
+STRONGEST ENEMY: ${strongestEnemy.personaname || "Anonymous"} (${strongestHero})
+• KDA: ${strongestEnemy.kills}/${strongestEnemy.deaths}/${strongestEnemy.assists}
+• Hero Damage: ${strongestEnemy.hero_damage.toLocaleString()} (${strongestEnemy.benchmarks?.hero_damage_per_min ? formatBenchmark(strongestEnemy.benchmarks.hero_damage_per_min.pct) : "N/A"})
+• Net Worth: ${strongestEnemy.net_worth.toLocaleString()}
+`;
+
+  const divider = "═══════════════════════════════════════════════════════════════════";
+  context += `
+${worstRandomStats}
+${strongestEnemyStats}
+
+${divider}
+OUR STACK:
+${divider}
+${ourPlayers.map(p => formatRole(p, "our")).join("\n\n")}
+
+${divider}
+RANDOM ALLIES:
+${divider}
+${randomAllies.length > 0 ? randomAllies.map(p => formatRole(p, "random_ally")).join("\n\n") : "No random allies - full stack!"}
+
+${divider}
+ENEMIES:
+${divider}
+${enemyPlayers.map(p => formatRole(p, "enemy")).join("\n\n")}
 `;
 
   return context;
 }
 
+function buildContext(match: MatchDetails, persona: AnalysisPersona, ourPlayerIds: Set<number>): Promise<string> {
+  return persona.context === "stack"
+    ? buildStackContext(match, persona, ourPlayerIds)
+    : buildTeamsContext(match, ourPlayerIds);
+}
+
 // ============================================================================
 // LLM Analysis
 // ============================================================================
 
-const SYSTEM_PROMPT = `Ты — токсичный но полезный тренер по Dota 2.
-Фокус на игроках [OUR PLAYER] — их разбираем детально.
-
-СТРУКТУРА (коротко и по делу):
-
-KDA TABLE — ЭТО САМЫЙ ПЕРВЫЙ БЛОК:
-KDA TABLE:
-RADIANT:
-• Name (Hero) K/D/A
-DIRE:
-• Name (Hero) K/D/A
-
-🎯 ВЕРДИКТ (2-3 предложения)
-Почему выиграли/продули + главный перелом матча
-
-👤 РАЗБОР НАШИХ
-Для каждого [OUR PLAYER]:
-• Что хорошо / что плохо (с цифрами из benchmarks)
-• 2-3 конкретных косяка
-• Один совет на следующую игру
-
-💀 ИТОГ
-MVP и LVP матча + токсичный комментарий
-
-ПРАВИЛА:
-• БЕЗ Markdown — только plain text + эмодзи 🔥 ✅ ⚠️ 💀
-• Benchmarks: 80%+ = 🔥, <30% = 💀
-• Русский со сленгом (го, затащить, сфидить)
-• Конкретика: "BKB на 25 мин это поздно" вместо "улучши билд"
-• У тебя есть внутреннее отношение к каждому нашему игроку (указано в данных как подсказка тона). НЕ озвучивай это отношение напрямую — никогда не пиши "мой любимчик", "я к нему тепло отношусь" и т.п. Вместо этого пусть отношение проявляется КОСВЕННО: через выбор слов, интонацию, количество внимания, степень жёсткости критики. Читатель должен угадывать твоё отношение, а не читать его в лоб.
-• Пиши компактно, без длинных вступлений
-• МАКСИМУМ 220 слов — без воды`;
-
-async function analyzeWithLLM(context: string): Promise<string> {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    throw new Error("OPENAI_API_KEY not configured");
-  }
-  const baseURL = process.env.OPENAI_BASE_URL;
-  const fetch = await getOpenAIFetch();
-  const openai = new OpenAI({ apiKey, baseURL, fetch });
-  const isGpt5 = OPENAI_MODEL.startsWith("gpt-5");
-  
-  console.log(`[ANALYZE] Using model: ${OPENAI_MODEL}`);
-  
-  const response = await openai.chat.completions.create({
-    model: OPENAI_MODEL,
-    messages: [
-      { role: "system", content: SYSTEM_PROMPT },
-      { role: "user", content: context },
-    ],
-    ...(isGpt5 ? { max_completion_tokens: 1500 } : { max_tokens: 1500 }),
-    ...(isGpt5 ? {} : { temperature: 0.7 }),
+// Appended to the persona prompt when answering a reply to an analysis
+const FOLLOW_UP_RULES = `
+
+СЕЙЧАС ТЫ ОТВЕЧАЕШЬ НА УТОЧНЯЮЩИЙ ВОПРОС к своему разбору этого матча:
+• Отвечай только на вопрос, опираясь на данные матча выше
+• Не повторяй структуру разбора и KDA TABLE
+• 2-6 предложений, тот же стиль и тон
+• Если в данных нет ответа — честно скажи, чего не хватает (например, матч не распаршен)`;
+
+/**
+ * Calls the LLM gateway with the persona's generation settings
+ */
+function completeWithPersona(
+  feature: LlmFeature,
+  messages: LlmMessage[],
+  persona: AnalysisPersona,
+  requester?: AiRequester,
+): Promise<string> {
+  console.log(`[ANALYZE] Calling LLM (persona: ${persona.id})`);
+  return complete({
+    feature,
+    messages,
+    maxTokens: persona.maxTokens,
+    temperature: persona.temperature,
+    userId: requester?.userId,
+    chatId: requester?.chatId,
   });
-  
-  return response.choices[0]?.message?.content || "Не удалось получить анализ";
+}
+
+/**
+ * Persona prompt, or its single-player review variant for focused analyses
+ */
+function getSystemPrompt(persona: AnalysisPersona, focusSteamId?: number): string {
+  return focusSteamId ? buildPlayerFocusPrompt(persona) : persona.systemPrompt;
+}
+
+function analyzeWithLLM(
+  context: string,
+  persona: AnalysisPersona,
+  focusSteamId?: number,
+  requester?: AiRequester,
+): Promise<string> {
+  return completeWithPersona("analyze", [
+    { role: "system", content: getSystemPrompt(persona, focusSteamId) },
+    { role: "user", content: context },
+  ], persona, requester);
 }
 
 // ============================================================================
 // Cache
 // ============================================================================
 
+/**
+ * Our players in the match, e.g. "93921511+167818283". Part of the cache key of a whole-match
+ * analysis, since chats track different players and the context marks only theirs.
+ */
+function getOurPlayersTag(match: MatchDetails, ourPlayerIds: Set<number>): string {
+  return match.players
+    .map((p) => p.account_id)
+    .filter((id): id is number => id !== undefined && ourPlayerIds.has(id))
+    .sort((a, b) => a - b)
+    .join("+");
+}
+
+/**
+ * Toxicity limits (/settings) of our players the analysis is about, e.g. "93921511=soft".
+ * Part of the cache key, so lowering the limit doesn't return the harsher cached text.
+ * Empty when nobody has a limit, which keeps the plain key.
+ */
+function getToxicityTag(match: MatchDetails, ourPlayerIds: Set<number>, focusSteamId?: number): string {
+  const steamIds = focusSteamId
+    ? [focusSteamId]
+    : match.players.map((p) => p.account_id).filter((id): id is number => id !== undefined && ourPlayerIds.has(id));
+  return [...new Set(steamIds)]
+    .sort((a, b) => a - b)
+    .map((id) => [id, getPlayerPreferences(id).maxToxicity] as const)
+    .filter(([, level]) => level !== "hard")
+    .map(([id, level]) => `${id}=${level}`)
+    .join(",");
+}
+
+function getCacheKey(matchId: number, persona: AnalysisPersona, focusSteamId?: number, tag: string = ""): string {
+  const key = focusSteamId ? `${persona.id}:${matchId}:${focusSteamId}` : `${persona.id}:${matchId}`;
+  return tag ? `${key}:${tag}` : key;
+}
+
 /**
  * Gets cached analysis if valid.
  * Returns null if:
  * - No cache exists
- * - Cache is expired
+ * - Cache is expired (handled by the store TTL)
  * - Cache was created with unparsed data but match is now parsed
  */
-function getCachedAnalysis(matchId: number, currentlyParsed: boolean): string | null {
-  const cached = analysisCache.get(matchId);
+function getCachedAnalysis(
+  matchId: number,
+  persona: AnalysisPersona,
+  currentlyParsed: boolean,
+  focusSteamId: number | undefined,
+  tag: string,
+): AnalysisCacheEntry | null {
+  const key = getCacheKey(matchId, persona, focusSteamId, tag);
+  const cached = analysisCache.get(key);
   if (!cached) return null;
   
-  // Check TTL
-  if (Date.now() - cached.timestamp > CACHE_TTL_MS) {
-    analysisCache.delete(matchId);
-    return null;
-  }
-  
   // Invalidate cache if match was unparsed before but is now parsed
   // This allows users to get full analysis after parsing
   if (!cached.isParsed && currentlyParsed) {
     console.log(`[ANALYZE] Cache invalidated: match ${matchId} is now parsed`);
-    analysisCache.delete(matchId);
+    analysisCache.delete(key);
     return null;
   }
   
-  return cached.analysis;
+  return cached;
 }
 
-function cacheAnalysis(matchId: number, analysis: string, isParsed: boolean): void {
-  analysisCache.set(matchId, {
+function cacheAnalysis(
+  matchId: number,
+  persona: AnalysisPersona,
+  analysis: string,
+  isParsed: boolean,
+  thread: AnalysisThread,
+  tag: string,
+): void {
+  analysisCache.set(getCacheKey(matchId, persona, thread.focusSteamId, tag), {
     analysis,
     timestamp: Date.now(),
     isParsed,
-  });
+    thread,
+  }, CACHE_TTL_MS);
 }
 
 // ============================================================================
@@ -441,80 +492,227 @@ function cacheAnalysis(matchId: number, analysis: string, isParsed: boolean): vo
 // ============================================================================
 
 /**
- * Core analyze function - analyzes a specific match by ID
+ * Message header: persona title, match link and result.
+ * Stack personas show the result from our side, neutral ones as Radiant/Dire.
+ */
+function formatHeader(match: MatchDetails, persona: AnalysisPersona, weWon: boolean, isParsed: boolean): string {
+  const matchUrl = `https://www.opendota.com/matches/${match.match_id}`;
+  const lines = [`${persona.emoji} <b>${persona.title}</b> <a href="${matchUrl}">#${match.match_id}</a>`];
+  if (persona.context === "stack") {
+    lines.push(weWon ? "🏆 <b>ПОБЕДА</b>" : "💀 <b>ПОРАЖЕНИЕ</b>");
+    lines.push(`⏱ Длительность: ${formatDuration(match.duration)}`);
+  } else {
+    lines.push(`⏱ Длительность: ${formatDuration(match.duration)}`);
+    lines.push(`🎮 Результат: ${match.radiant_win ? "Radiant" : "Dire"} победил (${match.radiant_score}:${match.dire_score})`);
+  }
+  lines.push(isParsed ? "📊 Полный" : "📊 Базовый");
+  return lines.join("\n") + "\n\n";
+}
+
+/**
+ * Header of a single-player review: result from the player's side and their hero
+ */
+async function formatFocusHeader(
+  match: MatchDetails,
+  persona: AnalysisPersona,
+  focus: Player,
+  player: MatchPlayer,
+  isParsed: boolean,
+): Promise<string> {
+  const matchUrl = `https://www.opendota.com/matches/${match.match_id}`;
+  const won = player.isRadiant === match.radiant_win;
+  return [
+    `${persona.emoji} <b>Разбор игрока ${escapeHtml(getPlayerDisplayName(focus))}</b> <a href="${matchUrl}">#${match.match_id}</a>`,
+    `${won ? "🏆 <b>ПОБЕДА</b>" : "💀 <b>ПОРАЖЕНИЕ</b>"} • ${escapeHtml(await getHeroName(player.hero_id))} ${player.kills}/${player.deaths}/${player.assists}`,
+    `⏱ Длительность: ${formatDuration(match.duration)}`,
+    isParsed ? "📊 Полный" : "📊 Базовый",
+  ].join("\n") + "\n\n";
+}
+
+export interface AnalysisResult {
+  message: string;          // HTML for Telegram
+  thread?: AnalysisThread;  // set for LLM analyses, which can be continued with replies
+  matchId?: number;         // set when a match was analyzed
+  isParsed?: boolean;       // false = basic data, a full version is possible after an OpenDota parse
+}
+
+export interface AnalyzeOptions {
+  personaId?: string;
+  raw?: boolean;  // skip the LLM and return the rule-based report
+  focus?: Player; // review this player's game instead of the whole match
+  refresh?: boolean; // ignore the cached analysis and ask the LLM again
+  requester?: AiRequester; // who asked: AI quota and usage accounting
+  chatId?: string | number; // chat asked from: its players are "ours"; unset = the whole roster
+}
+
+/**
+ * Core analyze function - analyzes a specific match by ID in the voice of a persona.
+ * Falls back to the rule-based report if the LLM is unavailable.
  */
-export async function analyzeMatch(matchId: number): Promise<string> {
-  console.log(`[ANALYZE] Analyzing match ${matchId}...`);
+export async function analyzeMatch(matchId: number, options: AnalyzeOptions = {}): Promise<AnalysisResult> {
+  const persona = getPersona(options.personaId);
+  console.log(`[ANALYZE] Analyzing match ${matchId} (${options.raw ? "raw" : `persona: ${persona.id}`})...`);
   
   // Fetch detailed match data first to check parsed status
   const matchDetails = await fetchMatchDetails(matchId);
   console.log(`[ANALYZE] Match duration: ${formatDuration(matchDetails.duration)}`);
   
   // Check if match is parsed
-  const isParsed = matchDetails.players.some(p => p.gold_t && p.gold_t.length > 0);
+  const isParsed = isMatchParsed(matchDetails);
   console.log(`[ANALYZE] Match parsed: ${isParsed}`);
   
-  // Check cache (with parsed status to handle re-parsing)
-  const cachedResult = getCachedAnalysis(matchId, isParsed);
-  const playerIdsSet = new Set<number>(PLAYER_IDS as readonly number[]);
-  const ourPlayers = matchDetails.players.filter(p => p.account_id && playerIdsSet.has(p.account_id));
-  const weAreRadiant = ourPlayers.length > 0 ? ourPlayers[0].isRadiant : true;
-  const weWon = weAreRadiant ? matchDetails.radiant_win : !matchDetails.radiant_win;
+  const ourPlayerIds = getOurPlayerIds(options.chatId);
+  const focus = options.focus;
+  const focusPlayer = focus ? findFocusPlayer(matchDetails, focus.steamId) : undefined;
+  if (focus && !focusPlayer) {
+    return { message: `❌ ${escapeHtml(getPlayerDisplayName(focus))} не играл в матче #${matchId}` };
+  }
+  
+  // A focused review is told from the player's side, even if the rest of the party was against them
+  const weWon = focusPlayer ? focusPlayer.isRadiant === matchDetails.radiant_win : getOurSide(matchDetails, ourPlayerIds).weWon;
+  if (options.raw) {
+    const report = await buildMatchReport(matchDetails, ourPlayerIds);
+    return { message: maybeAppendOutcomeCanonStrophe(report, weWon), matchId, isParsed };
+  }
+  
+  // Check cache (with parsed status to handle re-parsing, our players and their current toxicity limits)
+  const cacheTag = [
+    focus ? "" : getOurPlayersTag(matchDetails, ourPlayerIds),
+    getToxicityTag(matchDetails, ourPlayerIds, focus?.steamId),
+  ].filter(Boolean).join(":");
+  const cachedResult = options.refresh
+    ? null
+    : getCachedAnalysis(matchId, persona, isParsed, focus?.steamId, cacheTag);
   if (cachedResult) {
     console.log(`[ANALYZE] Returning cached analysis for match ${matchId}`);
-    return maybeAppendOutcomeCanonStrophe(cachedResult + "\n\n<i>📦 Из кэша</i>", weWon);
+    return {
+      message: maybeAppendOutcomeCanonStrophe(cachedResult.analysis + "\n\n<i>📦 Из кэша</i>", weWon),
+      thread: cachedResult.thread,
+      matchId,
+      isParsed,
+    };
+  }
+  
+  // Only a fresh LLM call counts against the quota
+  const quotaMessage = options.requester ? checkAiQuota(options.requester) : null;
+  if (quotaMessage) {
+    return { message: quotaMessage };
   }
   
   // Build context for LLM
-  const context = await buildAnalysisContext(matchDetails);
+  const context = focusPlayer
+    ? await buildPlayerFocusContext(matchDetails, focusPlayer)
+    : await buildContext(matchDetails, persona, ourPlayerIds);
   console.log("[ANALYZE] Context built, calling LLM...");
   
-  // Analyze with LLM
-  const analysis = await analyzeWithLLM(context);
+  let analysis: string;
+  try {
+    analysis = await analyzeWithLLM(context, persona, focus?.steamId, options.requester);
+  } catch (error) {
+    // Not cached, so the AI analysis is retried on the next request
+    console.warn("[ANALYZE] LLM unavailable, falling back to rule-based report:", error);
+    const report = await buildMatchReport(matchDetails, ourPlayerIds);
+    return {
+      message: maybeAppendOutcomeCanonStrophe(`${report}\n\n<i>⚠️ AI-разбор недоступен, показан авто-разбор</i>`, weWon),
+      matchId,
+      isParsed,
+    };
+  }
   
   // Format response (escape AI output to prevent Telegram HTML parse errors on < > &)
-  const matchUrl = `https://www.opendota.com/matches/${matchId}`;
-  const header = `🔬 <b>Анализ матча</b> <a href="${matchUrl}">#${matchId}</a>
-⏱ Длительность: ${formatDuration(matchDetails.duration)}
-🎮 Результат: ${matchDetails.radiant_win ? "Radiant" : "Dire"} победил (${matchDetails.radiant_score}:${matchDetails.dire_score})
-${isParsed ? "📊 Полный" : "📊 Базовый"}
-
-`;
-
+  const header = focus && focusPlayer
+    ? await formatFocusHeader(matchDetails, persona, focus, focusPlayer, isParsed)
+    : formatHeader(matchDetails, persona, weWon, isParsed);
   const fullAnalysis = header + escapeHtml(analysis);
   
+  const thread: AnalysisThread = {
+    matchId,
+    personaId: persona.id,
+    focusSteamId: focus?.steamId,
+    context,
+    messages: [{ role: "assistant", content: analysis }],
+  };
+  
   // Cache the result with parsed status
-  cacheAnalysis(matchId, fullAnalysis, isParsed);
+  cacheAnalysis(matchId, persona, fullAnalysis, isParsed, thread, cacheTag);
   console.log(`[ANALYZE] Analysis cached for match ${matchId} (parsed: ${isParsed})`);
   
-  return maybeAppendOutcomeCanonStrophe(fullAnalysis, weWon);
+  return { message: maybeAppendOutcomeCanonStrophe(fullAnalysis, weWon), thread, matchId, isParsed };
 }
 
 /**
- * Analyzes the last match of any party member
+ * Analyzes the last match of any party member (of the chat, if set), or of the focus player if set
  */
-export async function analyzeLastMatch(): Promise<string> {
+export async function analyzeLastMatch(options: AnalyzeOptions = {}): Promise<AnalysisResult> {
+  if (options.focus) {
+    const name = getPlayerDisplayName(options.focus);
+    console.log(`[ANALYZE] Finding last match of ${name}...`);
+    const [lastMatch] = await fetchRecentMatches(options.focus.steamId);
+    if (!lastMatch) {
+      return { message: `❌ Не удалось найти последний матч ${escapeHtml(name)}` };
+    }
+    return analyzeMatch(lastMatch.match_id, options);
+  }
+  
   console.log("[ANALYZE] Finding last party match...");
   
-  const lastMatch = await findLastPartyMatch();
+  const lastMatch = await findLastPartyMatch(getOurPlayerIds(options.chatId));
   if (!lastMatch) {
-    return "❌ Не удалось найти последний матч";
+    return { message: "❌ Не удалось найти последний матч" };
   }
   
   console.log(`[ANALYZE] Found match ${lastMatch.matchId} for player ${lastMatch.playerName}`);
   
-  return analyzeMatch(lastMatch.matchId);
+  return analyzeMatch(lastMatch.matchId, options);
+}
+
+/**
+ * Answers a follow-up question on an analysis, with the match context and the dialog so far.
+ * Returns the answer (HTML) and the thread extended with the question and the answer.
+ */
+export async function answerFollowUp(
+  thread: AnalysisThread,
+  question: string,
+  requester?: AiRequester,
+): Promise<{ message: string; thread: AnalysisThread }> {
+  const persona = getPersona(thread.personaId);
+  console.log(`[ANALYZE] Follow-up on match ${thread.matchId} (persona: ${persona.id})`);
+  
+  // Out of quota: the thread stays as it was, so the question can be asked again tomorrow
+  const quotaMessage = requester ? checkAiQuota(requester) : null;
+  if (quotaMessage) {
+    return { message: quotaMessage, thread };
+  }
+  
+  const answer = await completeWithPersona("follow-up", [
+    { role: "system", content: getSystemPrompt(persona, thread.focusSteamId) + FOLLOW_UP_RULES },
+    { role: "user", content: thread.context },
+    ...thread.messages,
+    { role: "user", content: question },
+  ], persona, requester);
+  
+  const messages: ThreadMessage[] = [
+    ...thread.messages,
+    { role: "user", content: question },
+    { role: "assistant", content: answer },
+  ];
+  
+  return {
+    message: `${persona.emoji} ${escapeHtml(answer)}`,
+    thread: { ...thread, messages },
+  };
 }
 
 /**
- * For testing - prints raw context
+ * For testing - prints raw context as a persona would see it
  */
-export async function getAnalysisContext(): Promise<string> {
-  const lastMatch = await findLastPartyMatch();
+export async function getAnalysisContext(personaId?: string): Promise<string> {
+  const ourPlayerIds = getOurPlayerIds();
+  const lastMatch = await findLastPartyMatch(ourPlayerIds);
   if (!lastMatch) {
     return "No match found";
   }
   
   const matchDetails = await fetchMatchDetails(lastMatch.matchId);
-  return buildAnalysisContext(matchDetails);
+  return buildContext(matchDetails, getPersona(personaId), ourPlayerIds);
 }
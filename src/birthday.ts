@@ -1,41 +1,30 @@
-import OpenAI from "openai";
 import { Bot } from "grammy";
-import { PLAYERS, type Player, config } from "./config.js";
-import { getOpenAIFetch } from "./proxy.js";
-import { fetchWinLoss, fetchTopHeroes, fetchPlayerTotals } from "./opendota.js";
+import { getPlayers, type Player } from "./config.js";
+import { getChatPlayerIds, getChatTimeSettings } from "./chats.js";
+import { complete } from "./llm.js";
+import type { RecentMatch } from "./opendota.js";
+import { getPlayerMatches } from "./match-history.js";
 import { getHeroName } from "./heroes.js";
 import { escapeHtml } from "./telegram-html.js";
-
-const OPENAI_MODEL = process.env.OPENAI_MODEL || "gpt-5.2";
+import { calculateAge, isBirthdayToday } from "./time.js";
 
 /**
- * Returns players whose birthday is today (comparing MM-DD)
+ * Timezone used to match a player's birthday: their own, else the chat's
  */
-function getTodayBirthdayPlayers(): Player[] {
-  const now = new Date();
-  const todayMMDD =
-    String(now.getMonth() + 1).padStart(2, "0") + "-" +
-    String(now.getDate()).padStart(2, "0");
-
-  return PLAYERS.filter((p) => {
-    if (!p.birthday) return false;
-    const mmdd = p.birthday.slice(5);
-    return mmdd === todayMMDD;
-  });
+function getPlayerTimeZone(player: Player, chatId: string): string {
+  return player.timeZone ?? getChatTimeSettings(chatId).timeZone;
 }
 
 /**
- * Calculates age from birthday string "YYYY-MM-DD"
+ * Returns players tracked in the chat whose birthday is today in their local timezone
  */
-function calculateAge(birthday: string): number {
-  const birth = new Date(birthday);
-  const today = new Date();
-  let age = today.getFullYear() - birth.getFullYear();
-  const monthDiff = today.getMonth() - birth.getMonth();
-  if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birth.getDate())) {
-    age--;
-  }
-  return age;
+function getTodayBirthdayPlayers(chatId: string): Player[] {
+  const chatPlayerIds = new Set(getChatPlayerIds(chatId));
+
+  return getPlayers().filter((p) => {
+    if (!p.birthday || !chatPlayerIds.has(p.steamId)) return false;
+    return isBirthdayToday(p.birthday, getPlayerTimeZone(p, chatId));
+  });
 }
 
 interface BirthdayStats {
@@ -49,45 +38,52 @@ interface BirthdayStats {
 }
 
 /**
- * Fetches Dota 2 stats for the past 365 days
+ * Calculates Dota 2 stats for the past 365 days from the local match history
  */
 async function fetchYearStats(steamId: number): Promise<BirthdayStats | null> {
   try {
-    const [wl, heroes, totals] = await Promise.all([
-      fetchWinLoss(steamId, 365),
-      fetchTopHeroes(steamId, 365),
-      fetchPlayerTotals(steamId, 365),
-    ]);
+    const yearAgo = Math.floor(Date.now() / 1000) - 365 * 24 * 60 * 60;
+    const matches = await getPlayerMatches(steamId, yearAgo);
 
-    const totalGames = wl.win + wl.lose;
+    const totalGames = matches.length;
     if (totalGames === 0) return null;
 
-    const winRate = Math.round((wl.win / totalGames) * 100);
+    const isWin = (m: RecentMatch) => (m.player_slot < 128) === m.radiant_win;
+    const wins = matches.filter(isWin).length;
+    const winRate = Math.round((wins / totalGames) * 100);
+
+    const heroCounts = new Map<number, { games: number; wins: number }>();
+    for (const m of matches) {
+      const hero = heroCounts.get(m.hero_id) ?? { games: 0, wins: 0 };
+      hero.games++;
+      if (isWin(m)) hero.wins++;
+      heroCounts.set(m.hero_id, hero);
+    }
 
     const topHeroes = await Promise.all(
-      heroes
-        .filter((h) => h.games > 0)
+      [...heroCounts.entries()]
+        .sort((a, b) => b[1].games - a[1].games)
         .slice(0, 3)
-        .map(async (h) => ({
-          name: await getHeroName(h.hero_id),
+        .map(async ([heroId, h]) => ({
+          name: await getHeroName(heroId),
           games: h.games,
-          winRate: Math.round((h.win / h.games) * 100),
+          winRate: Math.round((h.wins / h.games) * 100),
         }))
     );
 
-    const getAvg = (field: string): number => {
-      const t = totals.find((t) => t.field === field);
-      return t && t.n > 0 ? Math.round(t.sum / t.n) : 0;
+    const getAvg = (getValue: (m: RecentMatch) => number | undefined): number => {
+      const values = matches.map(getValue).filter((v): v is number => v !== undefined);
+      return values.length > 0 ? Math.round(values.reduce((sum, v) => sum + v, 0) / values.length) : 0;
     };
 
     return {
       totalGames,
       winRate,
       topHeroes,
-      avgKills: getAvg("kills"),
-      avgDeaths: getAvg("deaths"),
-      avgAssists: getAvg("assists"),
-      avgGpm: getAvg("gold_per_min"),
+      avgKills: getAvg((m) => m.kills),
+      avgDeaths: getAvg((m) => m.deaths),
+      avgAssists: getAvg((m) => m.assists),
+      avgGpm: getAvg((m) => m.gold_per_min),
     };
   } catch (error) {
     console.error(`[BIRTHDAY] Failed to fetch year stats for ${steamId}:`, error);
@@ -124,22 +120,13 @@ const BIRTHDAY_SYSTEM_PROMPT = `Ты — бот дота-компании. Те
 • Не начинай с "Дорогой" или "Уважаемый"`;
 
 /**
- * Generates birthday greeting via OpenAI
+ * Generates birthday greeting via the LLM gateway
  */
 async function generateGreeting(
   player: Player,
   age: number,
   stats: BirthdayStats | null,
 ): Promise<string> {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    throw new Error("OPENAI_API_KEY not configured");
-  }
-  const baseURL = process.env.OPENAI_BASE_URL;
-  const fetch = await getOpenAIFetch();
-  const openai = new OpenAI({ apiKey, baseURL, fetch });
-  const isGpt5 = OPENAI_MODEL.startsWith("gpt-5");
-
   const statsContext = stats ? buildStatsContext(stats) : "Статистика недоступна.";
   const attitudeHint = player.botAttitude
     ? `Твоё отношение к этому игроку: "${player.botAttitude}"`
@@ -153,19 +140,23 @@ ${statsContext}
 
 Напиши поздравление с днём рождения.`;
 
-  console.log(`[BIRTHDAY] Generating greeting for ${player.dotaName} with model ${OPENAI_MODEL}`);
-
-  const response = await openai.chat.completions.create({
-    model: OPENAI_MODEL,
-    messages: [
-      { role: "system", content: BIRTHDAY_SYSTEM_PROMPT },
-      { role: "user", content: userPrompt },
-    ],
-    ...(isGpt5 ? { max_completion_tokens: 500 } : { max_tokens: 500 }),
-    ...(isGpt5 ? {} : { temperature: 0.8 }),
-  });
+  console.log(`[BIRTHDAY] Generating greeting for ${player.dotaName}`);
 
-  return response.choices[0]?.message?.content || "С днём рождения! 🎂";
+  try {
+    return await complete({
+      feature: "birthday",
+      messages: [
+        { role: "system", content: BIRTHDAY_SYSTEM_PROMPT },
+        { role: "user", content: userPrompt },
+      ],
+      maxTokens: 500,
+      temperature: 0.8,
+    });
+  } catch (error) {
+    // A plain greeting beats none on the day itself
+    console.warn(`[BIRTHDAY] LLM failed for ${player.dotaName}, sending a plain greeting:`, error);
+    return "С днём рождения! 🎂";
+  }
 }
 
 /**
@@ -180,13 +171,13 @@ function formatMention(player: Player): string {
 }
 
 /**
- * Main entry point: checks for today's birthdays and sends greetings
+ * Main entry point: checks for today's birthdays in a chat and sends greetings
  */
-export async function checkAndSendBirthdayGreetings(bot: Bot): Promise<void> {
-  const birthdayPlayers = getTodayBirthdayPlayers();
+export async function checkAndSendBirthdayGreetings(bot: Bot, chatId: string): Promise<void> {
+  const birthdayPlayers = getTodayBirthdayPlayers(chatId);
 
   if (birthdayPlayers.length === 0) {
-    console.log("[BIRTHDAY] No birthdays today");
+    console.log(`[BIRTHDAY] No birthdays today in ${chatId}`);
     return;
   }
 
@@ -196,14 +187,14 @@ export async function checkAndSendBirthdayGreetings(bot: Bot): Promise<void> {
 
   for (const player of birthdayPlayers) {
     try {
-      const age = calculateAge(player.birthday!);
+      const age = calculateAge(player.birthday!, getPlayerTimeZone(player, chatId));
       const stats = await fetchYearStats(player.steamId);
       const greeting = await generateGreeting(player, age, stats);
       const mention = formatMention(player);
 
       const message = `🎂 ${mention}\n\n${escapeHtml(greeting)}`;
 
-      await bot.api.sendMessage(config.telegramChatId, message, {
+      await bot.api.sendMessage(chatId, message, {
         parse_mode: "HTML",
         link_preview_options: { is_disabled: true },
       });
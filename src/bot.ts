@@ -1,8 +1,76 @@
-import { Bot, type CommandContext, type Context } from "grammy";
-import { config } from "./config.js";
+import { Bot, GrammyError, type Api, type CommandContext, type Context, type InlineKeyboard } from "grammy";
+import type { Message } from "grammy/types";
+import {
+  config,
+  getPlayers,
+  addPlayer,
+  removePlayer,
+  updatePlayer,
+  resolvePlayer,
+  findPlayerBySteamId,
+  findPlayerByTelegramId,
+  findPlayerByTelegramUsername,
+  getPlayerDisplayName,
+  getPlayerPreferences,
+  type Player,
+  type PlayerPreferences,
+  type ToxicityLevel,
+} from "./config.js";
+import { fetchPlayerProfile } from "./opendota.js";
+import { parseSteamAccountRef } from "./steam.js";
+import { escapeHtml, splitHtmlMessage } from "./telegram-html.js";
+import {
+  getChat,
+  registerChat,
+  deactivateChat,
+  updateChat,
+  addChatPlayer,
+  removeChatPlayer,
+  removePlayerFromAllChats,
+  isPlayerTracked,
+  getChatPlayerIds,
+  getChatTimeSettings,
+  type ChatFeature,
+  type ChatSettings,
+} from "./chats.js";
 import type { StatsPeriod } from "./stats.js";
-import { analyzeLastMatch, analyzeMatch } from "./analyze.js";
-import { analyzeLastMatchCopium, analyzeMatchCopium } from "./analyze-copium.js";
+import {
+  getPeriodRange,
+  isValidTimeZone,
+  parsePeriod,
+  type DateRange,
+  type TimeSettings,
+} from "./time.js";
+import { getPlayerDashboard } from "./dashboard.js";
+import { comparePlayers } from "./compare.js";
+import { getChatSynergyMessage } from "./synergy.js";
+import {
+  analyzeLastMatch,
+  analyzeMatch,
+  answerFollowUp,
+  type AnalysisResult,
+  type AnalyzeOptions,
+} from "./analyze.js";
+import {
+  MAX_FOLLOW_UPS,
+  MAX_QUESTION_LENGTH,
+  countFollowUps,
+  getThread,
+  saveThread,
+} from "./analysis-threads.js";
+import { forgetEarlierChunks, getEarlierChunks, saveEarlierChunks } from "./message-chunks.js";
+import { DEFAULT_PERSONA_ID, PERSONAS, findPersona, getPersona } from "./personas.js";
+import {
+  buildAnalysisKeyboard,
+  buildStatsKeyboard,
+  decodeCallback,
+  parseReanalyze,
+  parseStats,
+} from "./keyboards.js";
+import type { StatsPage, StatsView } from "./formatter.js";
+import { waitForParse } from "./parse-watcher.js";
+import { formatQuotaStatus, getQuotaStatus, type AiRequester } from "./quota.js";
+import { formatRoastMessage, getRoastOfTheDay, getTargetedRoast } from "./roast.js";
 
 /**
  * Creates and returns a configured Telegram bot instance
@@ -30,45 +98,111 @@ export async function createBot(): Promise<Bot> {
   return new Bot(config.telegramBotToken);
 }
 
+interface ChunkedMessageOptions {
+  reply_markup?: InlineKeyboard;
+  reply_parameters?: { message_id: number };
+}
+
 /**
- * Sends a message to the configured Telegram chat
+ * Sends an HTML message, split into several if it exceeds the Telegram limit.
+ * The first part carries reply_parameters, the last one the keyboard.
+ * Returns the last sent message: buttons and follow-up replies attach to it.
  */
-export async function sendMessage(bot: Bot, message: string): Promise<void> {
-  if (!config.telegramChatId) {
-    throw new Error("TELEGRAM_CHAT_ID is not set in environment variables");
+async function sendChunked(
+  api: Api,
+  chatId: number | string,
+  html: string,
+  options: ChunkedMessageOptions = {},
+): Promise<Message.TextMessage> {
+  const chunks = splitHtmlMessage(html);
+  const sentIds: number[] = [];
+  let sent: Message.TextMessage | undefined;
+  for (const [index, chunk] of chunks.entries()) {
+    sent = await api.sendMessage(chatId, chunk, {
+      parse_mode: "HTML",
+      link_preview_options: { is_disabled: true },
+      reply_parameters: index === 0 ? options.reply_parameters : undefined,
+      reply_markup: index === chunks.length - 1 ? options.reply_markup : undefined,
+    });
+    sentIds.push(sent.message_id);
   }
-  await bot.api.sendMessage(config.telegramChatId, message, {
-    parse_mode: "HTML",
-    link_preview_options: { is_disabled: true },
-  });
+  if (sentIds.length > 1) {
+    saveEarlierChunks(chatId, sent!.message_id, sentIds.slice(0, -1));
+  }
+  return sent!;
+}
+
+/**
+ * Replaces a message's text in place. If the new text needs several messages,
+ * the old one is deleted and the parts are sent instead.
+ * Parts the old message was split into are deleted either way.
+ * Returns the ID of the message that now holds the keyboard.
+ */
+async function replaceChunked(
+  api: Api,
+  chatId: number,
+  messageId: number,
+  html: string,
+  replyMarkup?: InlineKeyboard,
+): Promise<number> {
+  const earlierIds = getEarlierChunks(chatId, messageId);
+  let updatedId = messageId;
+  if (splitHtmlMessage(html).length === 1) {
+    await api.editMessageText(chatId, messageId, html, {
+      parse_mode: "HTML",
+      link_preview_options: { is_disabled: true },
+      reply_markup: replyMarkup,
+    });
+  } else {
+    await api.deleteMessage(chatId, messageId);
+    const sent = await sendChunked(api, chatId, html, { reply_markup: replyMarkup });
+    updatedId = sent.message_id;
+  }
+
+  for (const id of earlierIds) {
+    await api.deleteMessage(chatId, id).catch((error) => {
+      console.warn(`[WARN] Failed to delete part ${id} of message ${messageId}:`, error);
+    });
+  }
+  forgetEarlierChunks(chatId, messageId);
+  return updatedId;
 }
 
 /**
- * Handles a stats command for a specific period
+ * Sends a message to a Telegram chat (split into parts if it's too long)
+ */
+export async function sendMessage(bot: Bot, chatId: string, message: string): Promise<void> {
+  await sendChunked(bot.api, chatId, message);
+}
+
+const STATS_COMMAND_USAGE =
+  "Usage: /stats [period]\n" +
+  "• today, yesterday, week, month, year\n" +
+  "• last week, last month, last 14d\n" +
+  "• 2026-09-14\n" +
+  "• 2026-09-01..2026-09-15";
+
+type FetchStatsHandler = (range: DateRange, chatId: string, view: StatsView) => Promise<StatsPage>;
+
+const DEFAULT_STATS_VIEW: StatsView = { compact: false, page: 0 };
+
+/**
+ * Telegram rejects edits that don't change the message (e.g. pressing the current period again)
+ */
+function isMessageNotModified(error: unknown): boolean {
+  return error instanceof GrammyError && error.description.includes("message is not modified");
+}
+
+/**
+ * Handles a stats command. An optional argument overrides the command's default period.
  */
 async function handleStatsCommand(
   ctx: CommandContext<Context>,
-  period: StatsPeriod,
-  fetchStatsHandler: (period: StatsPeriod) => Promise<string>,
+  commandName: string,
+  defaultPeriod: StatsPeriod,
+  fetchStatsHandler: FetchStatsHandler,
   onCommandReceived?: () => void,
 ): Promise<void> {
-  const periodLabel =
-    period === "today"
-      ? "daily"
-      : period === "yesterday"
-        ? "yesterday's"
-        : period === "week"
-          ? "weekly"
-          : "monthly";
-  const commandName =
-    period === "today"
-      ? "stats"
-      : period === "yesterday"
-        ? "yesterday"
-        : period === "week"
-          ? "weekly"
-          : "monthly";
-
   console.log(
     `[${new Date().toISOString()}] /${commandName} command received from user ${ctx.from?.id}`,
   );
@@ -78,18 +212,29 @@ async function handleStatsCommand(
     onCommandReceived();
   }
 
+  const timeSettings = getChatTimeSettings(ctx.chat.id);
+  // Normalized the way parsePeriod reads it, since the buttons replay it
+  const periodArg = ctx.match.trim().toLowerCase().replace(/\s+/g, " ");
+  const range = periodArg
+    ? parsePeriod(periodArg, timeSettings)
+    : getPeriodRange(defaultPeriod, timeSettings);
+
+  if (!range) {
+    await ctx.reply(STATS_COMMAND_USAGE);
+    return;
+  }
+
   try {
     // Send "loading" message
-    const loadingMsg = await ctx.reply(`⏳ Fetching ${periodLabel} stats...`);
+    const loadingMsg = await ctx.reply(`⏳ Fetching stats for ${range.title}...`);
 
     // Fetch stats
-    const message = await fetchStatsHandler(period);
+    const stats = await fetchStatsHandler(range, String(ctx.chat.id), DEFAULT_STATS_VIEW);
 
     // Delete loading message and send stats
     await ctx.api.deleteMessage(ctx.chat.id, loadingMsg.message_id);
-    await ctx.reply(message, {
-      parse_mode: "HTML",
-      link_preview_options: { is_disabled: true },
+    await sendChunked(ctx.api, ctx.chat.id, stats.message, {
+      reply_markup: buildStatsKeyboard(periodArg || defaultPeriod, DEFAULT_STATS_VIEW, stats.pages),
     });
 
     console.log(
@@ -102,208 +247,1314 @@ async function handleStatsCommand(
 }
 
 /**
- * Handles the /analyze command - AI analysis of match
- * Usage: /analyze [match_id] - if no match_id provided, analyzes last match
+ * Handles the period/view/page buttons under stats messages by editing the message in place
  */
-async function handleAnalyzeCommand(
+function handleStatsButtons(bot: Bot, fetchStatsHandler: FetchStatsHandler, onCommandReceived?: () => void): void {
+  bot.callbackQuery(/^stats:/, async (ctx) => {
+    const parsed = parseStats(decodeCallback(ctx.callbackQuery.data, 3).args);
+    const range = parsed && ctx.chat ? parsePeriod(parsed.period, getChatTimeSettings(ctx.chat.id)) : undefined;
+    const message = ctx.callbackQuery.message;
+    if (!parsed || !range || !ctx.chat || !message) {
+      await ctx.answerCallbackQuery();
+      return;
+    }
+
+    console.log(
+      `[${new Date().toISOString()}] Stats button ${ctx.callbackQuery.data} pressed by user ${ctx.from.id}`,
+    );
+
+    if (onCommandReceived) {
+      onCommandReceived();
+    }
+
+    try {
+      await ctx.answerCallbackQuery(`⏳ ${range.title}...`);
+      const stats = await fetchStatsHandler(range, String(ctx.chat.id), parsed.view);
+      const view = { ...parsed.view, page: stats.page };
+      await replaceChunked(
+        ctx.api,
+        ctx.chat.id,
+        message.message_id,
+        stats.message,
+        buildStatsKeyboard(parsed.period, view, stats.pages),
+      );
+
+      console.log(`[${new Date().toISOString()}] Stats button completed`);
+    } catch (error) {
+      if (isMessageNotModified(error)) return;
+      console.error("[ERROR] Failed to handle stats button:", error);
+    }
+  });
+}
+
+const ME_COMMAND_USAGE =
+  "Использование: /me [игрок] [период]\n" +
+  "• /me — твоя статистика за неделю\n" +
+  "• /me month, /me last week, /me 2026-09-14\n" +
+  "• /me @username или /me &lt;ник&gt; — чужая карточка";
+
+/**
+ * Splits /me arguments into an optional player reference and an optional period.
+ * Longest player prefix wins, so nicknames with spaces work.
+ */
+function parseMeArgs(
+  args: string[],
+  timeSettings: TimeSettings,
+): { player?: Player; range: DateRange } | undefined {
+  for (let split = args.length; split >= 0; split--) {
+    const player = split > 0 ? resolvePlayer(args.slice(0, split).join(" ")) : undefined;
+    if (split > 0 && !player) continue;
+
+    const periodArg = args.slice(split).join(" ");
+    const range = periodArg
+      ? parsePeriod(periodArg, timeSettings)
+      : getPeriodRange("week", timeSettings);
+    if (range) return { player, range };
+  }
+  return undefined;
+}
+
+/**
+ * Handles the /me command - personal dashboard for the caller or another player
+ */
+async function handleMeCommand(
+  ctx: CommandContext<Context>,
+  onCommandReceived?: () => void,
+): Promise<void> {
+  console.log(
+    `[${new Date().toISOString()}] /me command received from user ${ctx.from?.id}`,
+  );
+
+  if (onCommandReceived) {
+    onCommandReceived();
+  }
+
+  const timeSettings = getChatTimeSettings(ctx.chat.id);
+  const parsed = parseMeArgs(ctx.match.trim().split(/\s+/).filter(Boolean), timeSettings);
+  if (!parsed) {
+    await ctx.reply(ME_COMMAND_USAGE, { parse_mode: "HTML" });
+    return;
+  }
+
+  const player =
+    parsed.player ??
+    (ctx.from ? findPlayerByTelegramId(ctx.from.id) : undefined) ??
+    (ctx.from?.username ? findPlayerByTelegramUsername(ctx.from.username) : undefined);
+  if (!player) {
+    await ctx.reply(
+      "❌ Не нашёл тебя в ростере. Попроси админа привязать аккаунт: /player link",
+    );
+    return;
+  }
+
+  try {
+    const loadingMsg = await ctx.reply(
+      `⏳ Собираю статистику ${getPlayerDisplayName(player)} за ${parsed.range.title}...`,
+    );
+
+    const message = await getPlayerDashboard(player.steamId, parsed.range, String(ctx.chat.id));
+
+    await ctx.api.deleteMessage(ctx.chat.id, loadingMsg.message_id);
+    await ctx.reply(message, {
+      parse_mode: "HTML",
+      link_preview_options: { is_disabled: true },
+    });
+
+    console.log(`[${new Date().toISOString()}] /me command completed`);
+  } catch (error) {
+    console.error("[ERROR] Failed to handle /me command:", error);
+    await ctx.reply("❌ Не удалось собрать статистику. Попробуй позже.");
+  }
+}
+
+/**
+ * Handles the /roast command - roast of the day for the chat, or a targeted roast
+ * Usage: /roast | /roast <игрок>
+ */
+async function handleRoastCommand(
   ctx: CommandContext<Context>,
   onCommandReceived?: () => void,
 ): Promise<void> {
   console.log(
-    `[${new Date().toISOString()}] /analyze command received from user ${ctx.from?.id}`,
+    `[${new Date().toISOString()}] /roast command received from user ${ctx.from?.id}`,
   );
 
   if (onCommandReceived) {
     onCommandReceived();
   }
 
+  const query = ctx.match.trim();
+  const target = query ? resolvePlayer(query) : undefined;
+  if (query && !target) {
+    await ctx.reply(`❌ Игрок не найден в ростере: ${query}\n\nИспользование: /roast или /roast @username`);
+    return;
+  }
+  if (target && !getPlayerPreferences(target.steamId).roasts) {
+    await ctx.reply(`🙅 ${getPlayerDisplayName(target)} попросил его не жарить.`);
+    return;
+  }
+  const chatPlayerIds = getChatPlayerIds(ctx.chat.id);
+  if (!target && chatPlayerIds.length === 0) {
+    await ctx.reply("👥 В этом чате пока некого жарить — добавь игроков: /chat players add <игрок>");
+    return;
+  }
+  if (!target && !chatPlayerIds.some((id) => getPlayerPreferences(id).roasts)) {
+    await ctx.reply("🙅 Все игроки этого чата отказались от прожарок в /settings.");
+    return;
+  }
+
   try {
-    // Parse match_id from command arguments (supports URL or raw ID)
-    const args = ctx.message?.text?.split(/\s+/).slice(1) || [];
-    const matchIdArg = args[0];
-    
-    let analysis: string;
-    let loadingText: string;
-    
-    if (matchIdArg) {
-      // Parse match ID from OpenDota URL or raw number
-      // Supports: https://www.opendota.com/matches/8670945485, 8670945485
-      let matchId: number | null = null;
-      
-      const urlMatch = matchIdArg.match(/opendota\.com\/matches\/(\d+)/i);
-      if (urlMatch) {
-        matchId = parseInt(urlMatch[1], 10);
-      } else {
-        const parsed = parseInt(matchIdArg, 10);
-        if (!isNaN(parsed) && parsed > 0) {
-          matchId = parsed;
-        }
-      }
-      
-      if (!matchId) {
-        await ctx.reply(
-          "❌ Не удалось распознать матч.\n\n" +
-          "Примеры:\n" +
-          "• /analyze https://www.opendota.com/matches/8670945485\n" +
-          "• /analyze 8670945485"
-        );
-        return;
-      }
-      
-      loadingText = `🔬 Анализирую матч #${matchId}...`;
-      const loadingMsg = await ctx.reply(loadingText);
-      
-      analysis = await analyzeMatch(matchId);
-      
-      await ctx.api.deleteMessage(ctx.chat.id, loadingMsg.message_id);
-    } else {
-      // Analyze last match
-      loadingText = "🔬 Анализирую последний матч...";
-      const loadingMsg = await ctx.reply(loadingText);
-      
-      analysis = await analyzeLastMatch();
-      
-      await ctx.api.deleteMessage(ctx.chat.id, loadingMsg.message_id);
+    const loadingMsg = await ctx.reply(
+      target ? `🔥 Готовлю прожарку для ${getPlayerDisplayName(target)}...` : "🔥 Выбираю жертву дня...",
+    );
+
+    const message = target
+      ? formatRoastMessage(await getTargetedRoast(target.steamId, ctx.chat.id, getAiRequester(ctx)), true)
+      : formatRoastMessage(await getRoastOfTheDay(ctx.chat.id));
+
+    await ctx.api.deleteMessage(ctx.chat.id, loadingMsg.message_id);
+    await ctx.reply(message, { parse_mode: "HTML" });
+
+    console.log(`[${new Date().toISOString()}] /roast command completed`);
+  } catch (error) {
+    console.error("[ERROR] Failed to handle /roast command:", error);
+    await ctx.reply("❌ Не удалось никого прожарить. Попробуй позже.");
+  }
+}
+
+const COMPARE_COMMAND_USAGE =
+  "Использование: /compare &lt;игрок1&gt; &lt;игрок2&gt; [период]\n" +
+  "• /compare @alex Unclead\n" +
+  "• /compare MOX zladey last month\n" +
+  "По умолчанию — текущий месяц.";
+
+/**
+ * Splits /compare arguments into two players and an optional period.
+ * Tries every split point so nicknames with spaces work.
+ */
+function parseCompareArgs(
+  args: string[],
+  timeSettings: TimeSettings,
+): { playerA: Player; playerB: Player; range: DateRange } | undefined {
+  for (let splitB = 1; splitB < args.length; splitB++) {
+    const playerA = resolvePlayer(args.slice(0, splitB).join(" "));
+    if (!playerA) continue;
+
+    for (let splitPeriod = args.length; splitPeriod > splitB; splitPeriod--) {
+      const playerB = resolvePlayer(args.slice(splitB, splitPeriod).join(" "));
+      if (!playerB || playerB.steamId === playerA.steamId) continue;
+
+      const periodArg = args.slice(splitPeriod).join(" ");
+      const range = periodArg
+        ? parsePeriod(periodArg, timeSettings)
+        : getPeriodRange("month", timeSettings);
+      if (range) return { playerA, playerB, range };
     }
+  }
+  return undefined;
+}
+
+/**
+ * Handles the /compare command - head-to-head between two tracked players
+ */
+async function handleCompareCommand(
+  ctx: CommandContext<Context>,
+  onCommandReceived?: () => void,
+): Promise<void> {
+  console.log(
+    `[${new Date().toISOString()}] /compare command received from user ${ctx.from?.id}`,
+  );
+
+  if (onCommandReceived) {
+    onCommandReceived();
+  }
+
+  const timeSettings = getChatTimeSettings(ctx.chat.id);
+  const parsed = parseCompareArgs(ctx.match.trim().split(/\s+/).filter(Boolean), timeSettings);
+  if (!parsed) {
+    await ctx.reply(COMPARE_COMMAND_USAGE, { parse_mode: "HTML" });
+    return;
+  }
 
-    await ctx.reply(analysis, {
+  try {
+    const loadingMsg = await ctx.reply(
+      `⏳ Сравниваю ${getPlayerDisplayName(parsed.playerA)} и ${getPlayerDisplayName(parsed.playerB)}...`,
+    );
+
+    const message = await comparePlayers(parsed.playerA, parsed.playerB, parsed.range, String(ctx.chat.id));
+
+    await ctx.api.deleteMessage(ctx.chat.id, loadingMsg.message_id);
+    await ctx.reply(message, {
       parse_mode: "HTML",
       link_preview_options: { is_disabled: true },
     });
 
-    console.log(`[${new Date().toISOString()}] /analyze command completed`);
+    console.log(`[${new Date().toISOString()}] /compare command completed`);
   } catch (error) {
-    console.error("[ERROR] Failed to handle /analyze command:", error);
-    const msg = error instanceof Error ? error.message : String(error);
-    const isConfigError =
-      /OPENAI_API_KEY not configured/i.test(msg) ||
-      /OPENAI|api\.openai|proxy|ETIMEDOUT|timeout|fetch failed/i.test(msg);
-    const reply =
-      isConfigError && msg.length < 200
-        ? `❌ /analyze не сработал: ${msg}\n\nПроверь на сервере: OPENAI_API_KEY, HTTPS_PROXY (если нужен), логи: docker logs pesiki-bot`
-        : "❌ Не удалось проанализировать матч. Попробуй позже. (Детали в логах бота.)";
-    await ctx.reply(reply);
+    console.error("[ERROR] Failed to handle /compare command:", error);
+    await ctx.reply("❌ Не удалось сравнить игроков. Попробуй позже.");
   }
 }
 
+const SYNERGY_COMMAND_USAGE =
+  "Использование: /synergy [период]\n" +
+  "• /synergy\n" +
+  "• /synergy last 90d\n" +
+  "• /synergy 2026-01-01..2026-06-30\n" +
+  "По умолчанию — текущий месяц.";
+
 /**
- * Handles the /copium command - biased AI analysis that defends our stack
- * Usage: /copium [match_id] - if no match_id provided, analyzes last match
+ * Handles the /synergy command - duo/trio win rates of the chat's roster
  */
-async function handleCopiumCommand(
+async function handleSynergyCommand(
   ctx: CommandContext<Context>,
   onCommandReceived?: () => void,
 ): Promise<void> {
   console.log(
-    `[${new Date().toISOString()}] /copium command received from user ${ctx.from?.id}`,
+    `[${new Date().toISOString()}] /synergy command received from user ${ctx.from?.id}`,
   );
 
   if (onCommandReceived) {
     onCommandReceived();
   }
 
+  const timeSettings = getChatTimeSettings(ctx.chat.id);
+  const periodArg = ctx.match.trim();
+  const range = periodArg
+    ? parsePeriod(periodArg, timeSettings)
+    : getPeriodRange("month", timeSettings);
+  if (!range) {
+    await ctx.reply(SYNERGY_COMMAND_USAGE, { parse_mode: "HTML" });
+    return;
+  }
+
   try {
-    // Parse match_id from command arguments (supports URL or raw ID)
-    const args = ctx.message?.text?.split(/\s+/).slice(1) || [];
-    const matchIdArg = args[0];
-    
-    let analysis: string;
-    let loadingText: string;
-    
-    if (matchIdArg) {
-      // Parse match ID from OpenDota URL or raw number
-      let matchId: number | null = null;
-      
-      const urlMatch = matchIdArg.match(/opendota\.com\/matches\/(\d+)/i);
-      if (urlMatch) {
-        matchId = parseInt(urlMatch[1], 10);
-      } else {
-        const parsed = parseInt(matchIdArg, 10);
-        if (!isNaN(parsed) && parsed > 0) {
-          matchId = parsed;
-        }
-      }
-      
-      if (!matchId) {
-        await ctx.reply(
-          "❌ Не удалось распознать матч.\n\n" +
-          "Примеры:\n" +
-          "• /copium https://www.opendota.com/matches/8670945485\n" +
-          "• /copium 8670945485"
-        );
+    const loadingMsg = await ctx.reply(`⏳ Считаю синергию за ${range.title}...`);
+
+    const message = await getChatSynergyMessage(range, String(ctx.chat.id));
+
+    await ctx.api.deleteMessage(ctx.chat.id, loadingMsg.message_id);
+    await ctx.reply(message, { parse_mode: "HTML" });
+
+    console.log(`[${new Date().toISOString()}] /synergy command completed`);
+  } catch (error) {
+    console.error("[ERROR] Failed to handle /synergy command:", error);
+    await ctx.reply("❌ Не удалось посчитать синергию. Попробуй позже.");
+  }
+}
+
+/**
+ * Parses a match reference: OpenDota URL or raw match ID
+ * Supports: https://www.opendota.com/matches/8670945485, 8670945485
+ * A number that is a roster player's Steam ID is the player, not a match.
+ */
+function parseMatchId(arg: string): number | null {
+  const urlMatch = arg.match(/opendota\.com\/matches\/(\d+)/i);
+  if (urlMatch) {
+    return parseInt(urlMatch[1], 10);
+  }
+  if (!/^\d+$/.test(arg)) return null;
+  const parsed = parseInt(arg, 10);
+  if (parsed <= 0 || findPlayerBySteamId(parsed)) return null;
+  return parsed;
+}
+
+/**
+ * Splits /analyze arguments into the match reference, the focus player and flags.
+ * The first argument is the match if it parses as one (roster Steam IDs don't); everything else is the player
+ * (@username, dota name or Steam ID). Accepts "--mode copium", "--mode=copium", "-m copium" and "--raw".
+ */
+function parseAnalyzeArgs(args: string[]): { matchId?: number; playerQuery?: string; mode?: string; raw: boolean } {
+  const positional: string[] = [];
+  let mode: string | undefined;
+  let raw = false;
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--raw") {
+      raw = true;
+    } else if (arg.startsWith("--mode=")) {
+      mode = arg.slice("--mode=".length);
+    } else if (arg === "--mode" || arg === "-m") {
+      mode = args[++i] ?? "";
+    } else if (arg) {
+      positional.push(arg);
+    }
+  }
+
+  const matchId = positional.length > 0 && !positional[0].startsWith("@") ? parseMatchId(positional[0]) : null;
+  const playerArgs = matchId ? positional.slice(1) : positional;
+  return {
+    matchId: matchId ?? undefined,
+    playerQuery: playerArgs.length > 0 ? playerArgs.join(" ") : undefined,
+    mode,
+    raw,
+  };
+}
+
+/**
+ * Buttons for an analysis message (none for raw reports and errors)
+ */
+function getAnalysisKeyboard(result: AnalysisResult, options: AnalyzeOptions): InlineKeyboard | undefined {
+  if (!result.matchId || options.raw) return undefined;
+  return buildAnalysisKeyboard({
+    matchId: result.matchId,
+    personaId: getPersona(options.personaId).id,
+    focusSteamId: options.focus?.steamId,
+  });
+}
+
+/**
+ * For an analysis built from basic data: requests an OpenDota parse in the background,
+ * then edits the message in place with the full version and replies that it's ready
+ */
+function refreshWhenParsed(
+  api: Api,
+  chatId: number,
+  messageId: number,
+  result: AnalysisResult,
+  options: AnalyzeOptions,
+): void {
+  const { matchId } = result;
+  if (!matchId || result.isParsed !== false) return;
+
+  waitForParse(matchId)
+    .then(async (parsed) => {
+      if (!parsed) return;
+      const analysis = await analyzeMatch(matchId, options);
+      if (!analysis.matchId) {
+        // Out of quota by now: keep the basic analysis
+        console.log(`[${new Date().toISOString()}] Analysis of match ${matchId} not refreshed: ${analysis.message}`);
         return;
       }
-      
-      loadingText = `💊 Анализирую матч #${matchId}...`;
-      const loadingMsg = await ctx.reply(loadingText);
-      
-      analysis = await analyzeMatchCopium(matchId);
-      
+      const updatedId = await replaceChunked(
+        api,
+        chatId,
+        messageId,
+        analysis.message,
+        getAnalysisKeyboard(analysis, options),
+      );
+      if (analysis.thread) {
+        saveThread(chatId, updatedId, analysis.thread);
+      }
+      await api.sendMessage(chatId, "📊 Полный разбор готов", {
+        reply_parameters: { message_id: updatedId },
+      });
+      console.log(`[${new Date().toISOString()}] Analysis of match ${matchId} updated with parsed data`);
+    })
+    .catch((error) => {
+      console.error(`[ERROR] Failed to update analysis of match ${matchId} after parse:`, error);
+    });
+}
+
+/**
+ * Who an AI call is made for. Only ADMIN_TELEGRAM_IDS skip the quota: anyone can be
+ * an admin of a group they created, so chat admin rights don't count here.
+ */
+function getAiRequester(ctx: Context): AiRequester | undefined {
+  if (!ctx.from || !ctx.chat) return undefined;
+  return { userId: ctx.from.id, chatId: ctx.chat.id, exempt: config.adminTelegramIds.includes(ctx.from.id) };
+}
+
+function formatPersonaList(): string {
+  return PERSONAS.map((p) => `• ${p.id} — ${p.emoji} ${p.description}`).join("\n");
+}
+
+/**
+ * Handles /analyze and its persona shortcuts (/copium) - AI analysis of match
+ * Usage: /analyze [match_id] [@player] [--mode persona] [--raw] - if no match_id provided, analyzes last match;
+ * with a player, reviews that player's game only
+ */
+async function handleAnalyzeCommand(
+  ctx: CommandContext<Context>,
+  commandName: string,
+  defaultPersonaId: string,
+  onCommandReceived?: () => void,
+): Promise<void> {
+  console.log(
+    `[${new Date().toISOString()}] /${commandName} command received from user ${ctx.from?.id}`,
+  );
+
+  if (onCommandReceived) {
+    onCommandReceived();
+  }
+
+  try {
+    const args = ctx.message?.text?.split(/\s+/).slice(1) || [];
+    const { matchId, playerQuery, mode, raw } = parseAnalyzeArgs(args);
+
+    const persona = mode === undefined ? getPersona(defaultPersonaId) : findPersona(mode);
+    if (!persona) {
+      await ctx.reply(`❌ Неизвестный режим: ${mode}\n\nДоступные режимы:\n${formatPersonaList()}`);
+      return;
+    }
+
+    const focus = playerQuery ? resolvePlayer(playerQuery) : undefined;
+    if (playerQuery && !focus) {
+      await ctx.reply(
+        `❌ Не удалось распознать матч или игрока: ${playerQuery}\n\n` +
+        "Примеры:\n" +
+        `• /${commandName} https://www.opendota.com/matches/8670945485\n` +
+        `• /${commandName} 8670945485\n` +
+        `• /${commandName} 8670945485 @username — разбор одного игрока\n` +
+        `• /${commandName} @username — последний матч игрока\n` +
+        `• /${commandName} 8670945485 --mode caster\n` +
+        `• /${commandName} 8670945485 --raw — без AI\n\n` +
+        `Режимы:\n${formatPersonaList()}`
+      );
+      return;
+    }
+
+    const emoji = raw ? "🤖" : persona.emoji;
+    const options: AnalyzeOptions = {
+      personaId: persona.id,
+      raw,
+      focus,
+      requester: getAiRequester(ctx),
+      chatId: ctx.chat.id,
+    };
+    const subject = focus ? ` ${getPlayerDisplayName(focus)}` : "";
+    let analysis: AnalysisResult;
+
+    if (matchId) {
+      const loadingMsg = await ctx.reply(`${emoji} Анализирую матч #${matchId}${subject}...`);
+      analysis = await analyzeMatch(matchId, options);
       await ctx.api.deleteMessage(ctx.chat.id, loadingMsg.message_id);
     } else {
       // Analyze last match
-      loadingText = "💊 Анализирую последний матч...";
-      const loadingMsg = await ctx.reply(loadingText);
-      
-      analysis = await analyzeLastMatchCopium();
-      
+      const loadingMsg = await ctx.reply(`${emoji} Анализирую последний матч${subject}...`);
+      analysis = await analyzeLastMatch(options);
       await ctx.api.deleteMessage(ctx.chat.id, loadingMsg.message_id);
     }
 
-    await ctx.reply(analysis, {
-      parse_mode: "HTML",
-      link_preview_options: { is_disabled: true },
+    const sent = await sendChunked(ctx.api, ctx.chat.id, analysis.message, {
+      reply_markup: getAnalysisKeyboard(analysis, options),
     });
+    if (analysis.thread) {
+      saveThread(ctx.chat.id, sent.message_id, analysis.thread);
+    }
+    refreshWhenParsed(ctx.api, ctx.chat.id, sent.message_id, analysis, options);
 
-    console.log(`[${new Date().toISOString()}] /copium command completed`);
+    console.log(`[${new Date().toISOString()}] /${commandName} command completed`);
   } catch (error) {
-    console.error("[ERROR] Failed to handle /copium command:", error);
+    console.error(`[ERROR] Failed to handle /${commandName} command:`, error);
     const msg = error instanceof Error ? error.message : String(error);
     const isConfigError =
       /OPENAI_API_KEY not configured/i.test(msg) ||
       /OPENAI|api\.openai|proxy|ETIMEDOUT|timeout|fetch failed/i.test(msg);
     const reply =
       isConfigError && msg.length < 200
-        ? `❌ /copium не сработал: ${msg}\n\nПроверь на сервере: OPENAI_API_KEY, HTTPS_PROXY (если нужен), логи: docker logs pesiki-bot`
+        ? `❌ /${commandName} не сработал: ${msg}\n\nПроверь на сервере: OPENAI_API_KEY, HTTPS_PROXY (если нужен), логи: docker logs pesiki-bot`
         : "❌ Не удалось проанализировать матч. Попробуй позже. (Детали в логах бота.)";
     await ctx.reply(reply);
   }
 }
 
+/**
+ * Handles the Разбор/Копиум buttons under post-match cards: posts the analysis as a reply to the card
+ */
+function handleMatchCardButtons(bot: Bot, onCommandReceived?: () => void): void {
+  bot.callbackQuery(/^analyze:/, async (ctx) => {
+    const [personaId, matchIdArg] = decodeCallback(ctx.callbackQuery.data, 2).args;
+    const parsed = personaId && Number(matchIdArg) > 0 ? { personaId, matchId: Number(matchIdArg) } : null;
+    const card = ctx.callbackQuery.message;
+    if (!parsed || !ctx.chat || !card) {
+      await ctx.answerCallbackQuery();
+      return;
+    }
+
+    console.log(
+      `[${new Date().toISOString()}] Match card button ${parsed.personaId} pressed by user ${ctx.from.id} (match ${parsed.matchId})`,
+    );
+
+    if (onCommandReceived) {
+      onCommandReceived();
+    }
+
+    const persona = findPersona(parsed.personaId) ?? getPersona();
+    const replyParameters = { reply_parameters: { message_id: card.message_id } };
+
+    try {
+      await ctx.answerCallbackQuery(`${persona.emoji} Анализирую матч #${parsed.matchId}...`);
+      await ctx.replyWithChatAction("typing");
+      const options: AnalyzeOptions = { personaId: persona.id, requester: getAiRequester(ctx), chatId: ctx.chat.id };
+      const analysis = await analyzeMatch(parsed.matchId, options);
+      const sent = await sendChunked(ctx.api, ctx.chat.id, analysis.message, {
+        reply_markup: getAnalysisKeyboard(analysis, options),
+        ...replyParameters,
+      });
+      if (analysis.thread) {
+        saveThread(ctx.chat.id, sent.message_id, analysis.thread);
+      }
+      refreshWhenParsed(ctx.api, ctx.chat.id, sent.message_id, analysis, options);
+
+      console.log(`[${new Date().toISOString()}] Match card analysis completed`);
+    } catch (error) {
+      console.error("[ERROR] Failed to handle match card button:", error);
+      await ctx.reply("❌ Не удалось проанализировать матч. Попробуй позже.", replyParameters);
+    }
+  });
+}
+
+/**
+ * Handles the buttons under analysis messages (other persona, re-analyze, only my game):
+ * the analysis is rebuilt and the message edited in place
+ */
+function handleAnalysisButtons(bot: Bot, onCommandReceived?: () => void): void {
+  bot.callbackQuery(/^reanalyze:/, async (ctx) => {
+    const parsed = parseReanalyze(decodeCallback(ctx.callbackQuery.data, 4).args);
+    const message = ctx.callbackQuery.message;
+    if (!parsed || !ctx.chat || !message) {
+      await ctx.answerCallbackQuery();
+      return;
+    }
+
+    console.log(
+      `[${new Date().toISOString()}] Analysis button ${ctx.callbackQuery.data} pressed by user ${ctx.from.id}`,
+    );
+
+    if (onCommandReceived) {
+      onCommandReceived();
+    }
+
+    // "Only my game" reviews whoever pressed the button
+    let focus: Player | undefined;
+    if (parsed.target === "me") {
+      focus = findPlayerByTelegramId(ctx.from.id);
+      if (!focus) {
+        await ctx.answerCallbackQuery({ text: "Тебя нет в ростере — попроси админа добавить через /player add", show_alert: true });
+        return;
+      }
+    } else if (parsed.target !== "all") {
+      focus = findPlayerBySteamId(parsed.target);
+    }
+
+    const persona = findPersona(parsed.personaId) ?? getPersona();
+    const options: AnalyzeOptions = {
+      personaId: persona.id,
+      focus,
+      refresh: parsed.fresh,
+      requester: getAiRequester(ctx),
+      chatId: ctx.chat.id,
+    };
+
+    try {
+      await ctx.answerCallbackQuery(`${persona.emoji} Анализирую матч #${parsed.matchId}...`);
+      await ctx.replyWithChatAction("typing");
+      const analysis = await analyzeMatch(parsed.matchId, options);
+
+      // Errors (e.g. the player wasn't in this match) go to a reply, keeping the analysis
+      if (!analysis.matchId) {
+        await ctx.reply(analysis.message, {
+          parse_mode: "HTML",
+          reply_parameters: { message_id: message.message_id },
+        });
+        return;
+      }
+
+      const updatedId = await replaceChunked(
+        ctx.api,
+        ctx.chat.id,
+        message.message_id,
+        analysis.message,
+        getAnalysisKeyboard(analysis, options),
+      );
+      if (analysis.thread) {
+        saveThread(ctx.chat.id, updatedId, analysis.thread);
+      }
+      refreshWhenParsed(ctx.api, ctx.chat.id, updatedId, analysis, options);
+
+      console.log(`[${new Date().toISOString()}] Analysis button completed`);
+    } catch (error) {
+      if (isMessageNotModified(error)) return;
+      console.error("[ERROR] Failed to handle analysis button:", error);
+      await ctx.reply("❌ Не удалось проанализировать матч. Попробуй позже.", {
+        reply_parameters: { message_id: message.message_id },
+      });
+    }
+  });
+}
+
+/**
+ * Answers replies to analysis messages as follow-up questions on the same match.
+ * Registered after the commands, so commands never reach it.
+ */
+function handleAnalysisFollowUps(bot: Bot, onCommandReceived?: () => void): void {
+  bot.on("message:text", async (ctx, next) => {
+    const repliedTo = ctx.message.reply_to_message;
+    const question = ctx.message.text.trim();
+    if (!repliedTo || repliedTo.from?.id !== ctx.me.id || question.startsWith("/")) {
+      return next();
+    }
+
+    const thread = getThread(ctx.chat.id, repliedTo.message_id);
+    if (!thread) {
+      return next();
+    }
+
+    console.log(
+      `[${new Date().toISOString()}] Analysis follow-up received from user ${ctx.from.id} (match ${thread.matchId})`,
+    );
+
+    if (onCommandReceived) {
+      onCommandReceived();
+    }
+
+    const replyParameters = { reply_parameters: { message_id: ctx.message.message_id } };
+
+    if (countFollowUps(thread) >= MAX_FOLLOW_UPS) {
+      await ctx.reply(
+        `🤐 По этому разбору уже ${MAX_FOLLOW_UPS} вопросов. Запусти /analyze ${thread.matchId} заново, чтобы продолжить.`,
+        replyParameters,
+      );
+      return;
+    }
+
+    try {
+      await ctx.replyWithChatAction("typing");
+      const answer = await answerFollowUp(
+        thread,
+        question.slice(0, MAX_QUESTION_LENGTH),
+        getAiRequester(ctx),
+      );
+      const sent = await sendChunked(ctx.api, ctx.chat.id, answer.message, replyParameters);
+      saveThread(ctx.chat.id, sent.message_id, answer.thread);
+
+      console.log(`[${new Date().toISOString()}] Analysis follow-up completed`);
+    } catch (error) {
+      console.error("[ERROR] Failed to answer analysis follow-up:", error);
+      await ctx.reply("❌ Не удалось ответить на вопрос. Попробуй позже.", replyParameters);
+    }
+  });
+}
+
+/**
+ * Handles the /quota command - remaining AI calls of the user and the chat's token budget for today
+ */
+async function handleQuotaCommand(
+  ctx: CommandContext<Context>,
+  onCommandReceived?: () => void,
+): Promise<void> {
+  console.log(
+    `[${new Date().toISOString()}] /quota command received from user ${ctx.from?.id}`,
+  );
+
+  if (onCommandReceived) {
+    onCommandReceived();
+  }
+
+  try {
+    const requester = getAiRequester(ctx);
+    if (!requester) return;
+    await ctx.reply(formatQuotaStatus(getQuotaStatus(requester)), { parse_mode: "HTML" });
+
+    console.log(`[${new Date().toISOString()}] /quota command completed`);
+  } catch (error) {
+    console.error("[ERROR] Failed to handle /quota command:", error);
+    await ctx.reply("❌ Не удалось получить лимиты. Попробуй позже.");
+  }
+}
+
+/**
+ * Checks if the user is an admin of a chat (as seen by the bot)
+ */
+async function isChatAdmin(api: Api, chatId: number | string, userId: number): Promise<boolean> {
+  try {
+    const member = await api.getChatMember(chatId, userId);
+    return member.status === "creator" || member.status === "administrator";
+  } catch (error) {
+    console.warn("[WARN] Failed to check chat admin status:", error);
+    return false;
+  }
+}
+
+/**
+ * Checks if the user may change this chat's settings: listed in ADMIN_TELEGRAM_IDS or an admin of the chat
+ */
+async function isAdmin(ctx: Context): Promise<boolean> {
+  const userId = ctx.from?.id;
+  if (!userId) return false;
+  if (config.adminTelegramIds.includes(userId)) return true;
+  if (!ctx.chat || ctx.chat.type === "private") return false;
+  return isChatAdmin(ctx.api, ctx.chat.id, userId);
+}
+
+/**
+ * Checks if the user may change the global roster: listed in ADMIN_TELEGRAM_IDS or an admin of the
+ * main chat (TELEGRAM_CHAT_ID). Admins of other groups can't: anyone can create a group.
+ */
+async function isRosterAdmin(ctx: Context): Promise<boolean> {
+  const userId = ctx.from?.id;
+  if (!userId) return false;
+  if (config.adminTelegramIds.includes(userId)) return true;
+  if (!config.telegramChatId) return false;
+  return isChatAdmin(ctx.api, config.telegramChatId, userId);
+}
+
+/**
+ * Formats one roster line for /player list
+ */
+function formatRosterLine(player: Player): string {
+  const parts = [`• <b>${escapeHtml(getPlayerDisplayName(player))}</b> (${player.steamId})`];
+  if (player.displayName) parts.push(`dota: ${escapeHtml(player.dotaName)}`);
+  if (player.telegramUsername) parts.push(`@${escapeHtml(player.telegramUsername)}`);
+  if (player.telegramId) parts.push("🔗");
+  if (player.birthday) parts.push(`🎂 ${player.birthday}`);
+  return parts.join(" ");
+}
+
+const PLAYER_COMMAND_USAGE =
+  "Использование:\n" +
+  "• /player list\n" +
+  "• /player add &lt;steamId | ссылка на профиль&gt; — в ростер и в этот чат\n" +
+  "• /player remove &lt;игрок&gt; — из этого чата (в личке — отовсюду)\n" +
+  "• /player link &lt;игрок&gt; @username (или ответом на сообщение)\n" +
+  "• /player set &lt;игрок&gt; birthday|attitude|displayName|timezone &lt;значение | -&gt;\n\n" +
+  "&lt;игрок&gt; — Steam ID, @username или ник";
+
+const PLAYER_SET_FIELDS: Record<string, "birthday" | "botAttitude" | "displayName" | "timeZone"> = {
+  birthday: "birthday",
+  attitude: "botAttitude",
+  displayname: "displayName",
+  timezone: "timeZone",
+  tz: "timeZone",
+};
+
+/**
+ * Handles the /player command - roster management
+ * Usage: /player list | add | remove | link | set (mutations are admin-only)
+ */
+async function handlePlayerCommand(
+  ctx: CommandContext<Context>,
+  onCommandReceived?: () => void,
+): Promise<void> {
+  console.log(
+    `[${new Date().toISOString()}] /player command received from user ${ctx.from?.id}`,
+  );
+
+  if (onCommandReceived) {
+    onCommandReceived();
+  }
+
+  const reply = (text: string) =>
+    ctx.reply(text, { parse_mode: "HTML", link_preview_options: { is_disabled: true } });
+
+  try {
+    const args = ctx.match.trim().split(/\s+/).filter(Boolean);
+    const subcommand = args[0]?.toLowerCase();
+    const rest = args.slice(1);
+
+    if (!subcommand || subcommand === "list") {
+      const players = getPlayers();
+      await reply(`👥 <b>Ростер (${players.length})</b>\n\n${players.map(formatRosterLine).join("\n")}`);
+      return;
+    }
+
+    if (!["add", "remove", "link", "set"].includes(subcommand)) {
+      await reply(PLAYER_COMMAND_USAGE);
+      return;
+    }
+
+    if (!(await isRosterAdmin(ctx))) {
+      await reply("⛔ Управлять ростером могут только админы основного чата.");
+      return;
+    }
+
+    switch (subcommand) {
+      case "add": {
+        if (rest.length === 0) {
+          await reply(PLAYER_COMMAND_USAGE);
+          return;
+        }
+        const steamId = await parseSteamAccountRef(rest[0], config.steamApiKey);
+        if (!steamId) {
+          await reply("❌ Не удалось распознать Steam-аккаунт.");
+          return;
+        }
+        // Only this chat starts tracking the player, other chats pick them with /chat players add
+        const existing = findPlayerBySteamId(steamId);
+        if (existing) {
+          const chat = addChatPlayer(ctx.chat.id, steamId);
+          await reply(chat
+            ? `✅ <b>${escapeHtml(getPlayerDisplayName(existing))}</b> уже в ростере, теперь и в этом чате`
+            : `ℹ️ Игрок ${steamId} уже в ростере.`);
+          return;
+        }
+        const profile = await fetchPlayerProfile(steamId);
+        const dotaName = profile.profile?.personaname || String(steamId);
+        addPlayer({ steamId, dotaName });
+        addChatPlayer(ctx.chat.id, steamId);
+        await reply(`✅ Добавлен <b>${escapeHtml(dotaName)}</b> (${steamId})`);
+        break;
+      }
+      case "remove": {
+        const player = resolvePlayer(rest.join(" "));
+        if (!player) {
+          await reply("❌ Игрок не найден в ростере.");
+          return;
+        }
+        const name = escapeHtml(getPlayerDisplayName(player));
+        // In a group only that chat stops tracking the player; the record goes once no chat tracks them
+        if (getChat(ctx.chat.id)) {
+          removeChatPlayer(ctx.chat.id, player.steamId);
+          if (isPlayerTracked(player.steamId)) {
+            await reply(`🗑 <b>${name}</b> убран из этого чата (в других чатах остаётся)`);
+            return;
+          }
+        }
+        removePlayerFromAllChats(player.steamId);
+        removePlayer(player.steamId);
+        await reply(`🗑 Удалён <b>${name}</b> из ростера`);
+        break;
+      }
+      case "link": {
+        // Target Telegram user: reply author, text mention, or @username argument
+        const repliedUser = ctx.message?.reply_to_message?.from;
+        const mentionedUser = ctx.message?.entities?.find((e) => e.type === "text_mention");
+        const usernameArg = rest.find((a) => a.startsWith("@"));
+        const player = resolvePlayer(rest.filter((a) => a !== usernameArg).join(" "));
+        if (!player) {
+          await reply("❌ Игрок не найден в ростере.");
+          return;
+        }
+
+        const tgUser =
+          repliedUser ?? (mentionedUser?.type === "text_mention" ? mentionedUser.user : undefined);
+        const changes: Partial<Player> = {};
+        if (tgUser) {
+          changes.telegramId = tgUser.id;
+          if (tgUser.username) changes.telegramUsername = tgUser.username;
+        } else if (usernameArg) {
+          changes.telegramUsername = usernameArg.slice(1);
+        } else {
+          await reply(PLAYER_COMMAND_USAGE);
+          return;
+        }
+
+        updatePlayer(player.steamId, changes);
+        const note = changes.telegramId ? "" : "\n<i>Telegram ID подставится, когда он напишет в чат.</i>";
+        await reply(`🔗 <b>${escapeHtml(getPlayerDisplayName(player))}</b> привязан к Telegram${note}`);
+        break;
+      }
+      case "set": {
+        const fieldIndex = rest.findIndex((a, i) => i > 0 && Object.hasOwn(PLAYER_SET_FIELDS, a.toLowerCase()));
+        if (fieldIndex === -1) {
+          await reply(PLAYER_COMMAND_USAGE);
+          return;
+        }
+        const player = resolvePlayer(rest.slice(0, fieldIndex).join(" "));
+        if (!player) {
+          await reply("❌ Игрок не найден в ростере.");
+          return;
+        }
+
+        const field = PLAYER_SET_FIELDS[rest[fieldIndex].toLowerCase()];
+        const rawValue = rest.slice(fieldIndex + 1).join(" ");
+        const value = rawValue === "-" || rawValue === "" ? undefined : rawValue;
+        if (field === "birthday" && value && !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+          await reply("❌ Дата рождения в формате YYYY-MM-DD");
+          return;
+        }
+        if (field === "timeZone" && value && !isValidTimeZone(value)) {
+          await reply("❌ Неизвестный часовой пояс. Пример: Europe/Moscow");
+          return;
+        }
+
+        updatePlayer(player.steamId, { [field]: value });
+        await reply(`✏️ <b>${escapeHtml(getPlayerDisplayName(player))}</b>: ${field} ${value ? `= ${escapeHtml(value)}` : "сброшен"}`);
+        break;
+      }
+    }
+
+    console.log(`[${new Date().toISOString()}] /player ${subcommand} command completed`);
+  } catch (error) {
+    console.error("[ERROR] Failed to handle /player command:", error);
+    await ctx.reply("❌ Не удалось обновить ростер. Попробуй позже.");
+  }
+}
+
+const TOXICITY_ALIASES: Record<string, ToxicityLevel> = {
+  soft: "soft",
+  мягко: "soft",
+  medium: "medium",
+  средне: "medium",
+  hard: "hard",
+  жёстко: "hard",
+  жестко: "hard",
+};
+
+const TOXICITY_LABELS: Record<ToxicityLevel, string> = {
+  soft: "мягко",
+  medium: "средне",
+  hard: "жёстко",
+};
+
+const SETTINGS_COMMAND_USAGE =
+  "Использование:\n" +
+  "• /settings — твои настройки\n" +
+  "• /settings roast on|off — участвовать в прожарках\n" +
+  "• /settings toxicity soft|medium|hard — насколько жёстко со мной в разборах и прожарках\n" +
+  "• /settings nominations on|off — номинации вроде Лузер и Фидер";
+
+/**
+ * Formats a player's preferences for /settings
+ */
+function formatPlayerPreferences(player: Player, preferences: PlayerPreferences): string {
+  const onOff = (value: boolean) => (value ? "✅" : "❌");
+  return [
+    `⚙️ <b>Настройки ${escapeHtml(getPlayerDisplayName(player))}</b>`,
+    "",
+    `${onOff(preferences.roasts)} Прожарки (/roast и прожарка дня)`,
+    `🌶 Жёсткость разборов и прожарок: ${TOXICITY_LABELS[preferences.maxToxicity]}`,
+    `${onOff(preferences.shameNominations)} Номинации Лузер, Фидер, Бот, Клоун, Регресс, Худший дуэт`,
+    "",
+    SETTINGS_COMMAND_USAGE,
+  ].join("\n");
+}
+
+/**
+ * Handles the /settings command - the player's own consent and intensity preferences
+ * Usage: /settings | roast on|off | toxicity soft|medium|hard | nominations on|off
+ */
+async function handleSettingsCommand(
+  ctx: CommandContext<Context>,
+  onCommandReceived?: () => void,
+): Promise<void> {
+  console.log(
+    `[${new Date().toISOString()}] /settings command received from user ${ctx.from?.id}`,
+  );
+
+  if (onCommandReceived) {
+    onCommandReceived();
+  }
+
+  const reply = (text: string) => ctx.reply(text, { parse_mode: "HTML" });
+
+  try {
+    const player = ctx.from ? findPlayerByTelegramId(ctx.from.id) : undefined;
+    if (!player) {
+      await reply("ℹ️ Ты не привязан к игроку из ростера. Попроси админа: /player link &lt;игрок&gt; @username");
+      return;
+    }
+
+    const args = ctx.match.trim().toLowerCase().split(/\s+/).filter(Boolean);
+    const [field, value] = args;
+    const current = getPlayerPreferences(player.steamId);
+
+    if (!field) {
+      await reply(formatPlayerPreferences(player, current));
+      return;
+    }
+
+    let changes: Partial<PlayerPreferences> | undefined;
+    if ((field === "roast" || field === "roasts") && (value === "on" || value === "off")) {
+      changes = { roasts: value === "on" };
+    } else if (field === "toxicity" && value && Object.hasOwn(TOXICITY_ALIASES, value)) {
+      changes = { maxToxicity: TOXICITY_ALIASES[value] };
+    } else if (field === "nominations" && (value === "on" || value === "off")) {
+      changes = { shameNominations: value === "on" };
+    }
+
+    if (!changes) {
+      await reply(SETTINGS_COMMAND_USAGE);
+      return;
+    }
+
+    updatePlayer(player.steamId, { preferences: { ...player.preferences, ...changes } });
+    await reply(formatPlayerPreferences(player, getPlayerPreferences(player.steamId)));
+    console.log(`[${new Date().toISOString()}] /settings ${field} command completed`);
+  } catch (error) {
+    console.error("[ERROR] Failed to handle /settings command:", error);
+    await ctx.reply("❌ Не удалось сохранить настройки. Попробуй позже.");
+  }
+}
+
+const CHAT_FEATURE_ALIASES: Record<string, ChatFeature> = {
+  daily: "dailyStats",
+  stats: "dailyStats",
+  weekly: "weeklyDigest",
+  monthly: "monthlyDigest",
+  birthdays: "birthdays",
+  birthday: "birthdays",
+  lfg: "lfg",
+  cards: "matchCards",
+  matches: "matchCards",
+  roast: "roast",
+};
+
+const CHAT_TIME_FIELDS: Record<string, "dailyStatsTime" | "birthdaysTime" | "roastTime"> = {
+  daily: "dailyStatsTime",
+  stats: "dailyStatsTime",
+  birthdays: "birthdaysTime",
+  birthday: "birthdaysTime",
+  roast: "roastTime",
+};
+
+const CHAT_COMMAND_USAGE =
+  "Использование:\n" +
+  "• /chat — текущие настройки\n" +
+  "• /chat players add|remove &lt;игрок&gt;\n" +
+  "• /chat players all — добавить весь текущий ростер\n" +
+  "• /chat time daily|birthdays|roast HH:MM\n" +
+  "• /chat tz &lt;часовой пояс&gt; — например Europe/Moscow\n" +
+  "• /chat daystart &lt;час&gt; — во сколько начинается новый день статистики\n" +
+  "• /chat on|off daily|weekly|monthly|birthdays|lfg|cards|roast";
+
+/**
+ * Formats chat settings for /chat
+ */
+function formatChatSettings(chat: ChatSettings): string {
+  const playerIds = getChatPlayerIds(chat.chatId);
+  const names = playerIds
+    .map((id) => findPlayerBySteamId(id))
+    .filter((p): p is Player => p !== undefined)
+    .map((p) => escapeHtml(getPlayerDisplayName(p)));
+  const onOff = (feature: ChatFeature) => (chat.features[feature] ? "✅" : "❌");
+  const timeSettings = getChatTimeSettings(chat.chatId);
+
+  return [
+    `⚙️ <b>Настройки чата</b>${chat.title ? ` ${escapeHtml(chat.title)}` : ""}`,
+    "",
+    `${onOff("dailyStats")} Ежедневная статистика в ${chat.dailyStatsTime}`,
+    `${onOff("weeklyDigest")} Итоги недели по понедельникам в ${chat.dailyStatsTime}`,
+    `${onOff("monthlyDigest")} Итоги месяца 1-го числа в ${chat.dailyStatsTime}`,
+    `${onOff("birthdays")} Дни рождения в ${chat.birthdaysTime}`,
+    `${onOff("lfg")} LFG-уведомления`,
+    `${onOff("matchCards")} Карточки сыгранных матчей`,
+    `${onOff("roast")} Прожарка дня в ${chat.roastTime}`,
+    "",
+    `🕒 Часовой пояс ${escapeHtml(timeSettings.timeZone)}, день начинается в ${timeSettings.dayStartHour}:00`,
+    `👥 Игроки (${names.length}): ${names.join(", ") || "никого"}`,
+  ].join("\n");
+}
+
+/**
+ * Handles the /chat command - per-chat roster, schedule and features (admin-only changes)
+ */
+async function handleChatCommand(
+  ctx: CommandContext<Context>,
+  onCommandReceived?: () => void,
+): Promise<void> {
+  console.log(
+    `[${new Date().toISOString()}] /chat command received from user ${ctx.from?.id}`,
+  );
+
+  if (onCommandReceived) {
+    onCommandReceived();
+  }
+
+  const reply = (text: string) =>
+    ctx.reply(text, { parse_mode: "HTML", link_preview_options: { is_disabled: true } });
+
+  try {
+    if (ctx.chat.type === "private") {
+      await reply("ℹ️ /chat работает только в группах.");
+      return;
+    }
+
+    const chat = getChat(ctx.chat.id) ?? registerChat(ctx.chat.id, ctx.chat.title);
+    const args = ctx.match.trim().split(/\s+/).filter(Boolean);
+    const subcommand = args[0]?.toLowerCase();
+
+    if (!subcommand) {
+      await reply(formatChatSettings(chat));
+      return;
+    }
+
+    if (!(await isAdmin(ctx))) {
+      await reply("⛔ Менять настройки чата могут только админы.");
+      return;
+    }
+
+    let updated: ChatSettings | undefined;
+
+    if (subcommand === "players") {
+      const action = args[1]?.toLowerCase();
+      if (action === "all") {
+        updated = updateChat(chat.chatId, { playerIds: getPlayers().map((p) => p.steamId) });
+      } else if (action === "add" || action === "remove") {
+        const player = resolvePlayer(args.slice(2).join(" "));
+        if (!player) {
+          await reply("❌ Игрок не найден в ростере. Сначала /player add");
+          return;
+        }
+        const current = getChatPlayerIds(chat.chatId).filter((id) => id !== player.steamId);
+        updated = updateChat(chat.chatId, {
+          playerIds: action === "add" ? [...current, player.steamId] : current,
+        });
+      }
+    } else if (subcommand === "time") {
+      const field = CHAT_TIME_FIELDS[args[1]?.toLowerCase() ?? ""];
+      const time = args[2]?.match(/^(\d{1,2}):(\d{2})$/);
+      if (field && time && Number(time[1]) < 24 && Number(time[2]) < 60) {
+        updated = updateChat(chat.chatId, { [field]: `${time[1].padStart(2, "0")}:${time[2]}` });
+      }
+    } else if (subcommand === "tz" || subcommand === "timezone") {
+      const timeZone = args[1];
+      if (timeZone && isValidTimeZone(timeZone)) {
+        updated = updateChat(chat.chatId, { timeZone });
+      }
+    } else if (subcommand === "daystart") {
+      const hour = Number(args[1]);
+      if (args[1] && Number.isInteger(hour) && hour >= 0 && hour < 24) {
+        updated = updateChat(chat.chatId, { dayStartHour: hour });
+      }
+    } else if (subcommand === "on" || subcommand === "off") {
+      const alias = args[1]?.toLowerCase() ?? "";
+      const feature = Object.hasOwn(CHAT_FEATURE_ALIASES, alias) ? CHAT_FEATURE_ALIASES[alias] : undefined;
+      if (feature) {
+        updated = updateChat(chat.chatId, {
+          features: { ...chat.features, [feature]: subcommand === "on" },
+        });
+      }
+    }
+
+    if (!updated) {
+      await reply(CHAT_COMMAND_USAGE);
+      return;
+    }
+
+    await reply(formatChatSettings(updated));
+    console.log(`[${new Date().toISOString()}] /chat ${subcommand} command completed`);
+  } catch (error) {
+    console.error("[ERROR] Failed to handle /chat command:", error);
+    await ctx.reply("❌ Не удалось обновить настройки чата. Попробуй позже.");
+  }
+}
+
+/**
+ * Keeps the chat registry in sync when the bot is added to or removed from groups
+ */
+function trackChatMembership(bot: Bot): void {
+  bot.on("my_chat_member", async (ctx) => {
+    const { chat, new_chat_member } = ctx.myChatMember;
+    if (chat.type === "private") return;
+
+    const title = "title" in chat ? chat.title : undefined;
+    if (new_chat_member.status === "member" || new_chat_member.status === "administrator") {
+      const isNew = !getChat(chat.id);
+      registerChat(chat.id, title);
+      console.log(`[CHATS] Bot added to ${chat.id} (${title ?? "untitled"})`);
+      if (isNew) {
+        await ctx.api
+          .sendMessage(chat.id, `👋 Привет! Выберите игроков и расписание для этого чата.\n\n${CHAT_COMMAND_USAGE}`, {
+            parse_mode: "HTML",
+          })
+          .catch((err) => console.warn("[WARN] Failed to send welcome message:", err.message));
+      }
+    } else if (new_chat_member.status === "left" || new_chat_member.status === "kicked") {
+      deactivateChat(chat.id);
+      console.log(`[CHATS] Bot removed from ${chat.id}`);
+    }
+  });
+}
+
+/**
+ * Fills in missing Telegram IDs for players linked by @username once they write in chat
+ */
+function rememberTelegramIds(bot: Bot): void {
+  bot.use(async (ctx, next) => {
+    const from = ctx.from;
+    if (from?.username) {
+      const player = findPlayerByTelegramUsername(from.username);
+      if (player && !player.telegramId) {
+        updatePlayer(player.steamId, { telegramId: from.id });
+        console.log(`[ROSTER] Linked Telegram ID ${from.id} to ${player.dotaName}`);
+      }
+    }
+    await next();
+  });
+}
+
 /**
  * Sets up bot commands and handlers
  * @param bot - The bot instance
- * @param fetchStatsHandler - Handler function that fetches and returns formatted stats message for a period
+ * @param fetchStatsHandler - Handler function that fetches and formats a stats page for a date range, chat and view
  * @param onCommandReceived - Optional callback to track command usage for health monitoring
  */
 export function setupCommands(
   bot: Bot,
-  fetchStatsHandler: (period: StatsPeriod) => Promise<string>,
+  fetchStatsHandler: FetchStatsHandler,
   onCommandReceived?: () => void,
 ): void {
-  // Register /stats command (today's stats)
+  rememberTelegramIds(bot);
+  trackChatMembership(bot);
+
+  // Register /stats command (today's stats, or any period passed as argument)
   bot.command("stats", (ctx) =>
-    handleStatsCommand(ctx, "today", fetchStatsHandler, onCommandReceived),
+    handleStatsCommand(ctx, "stats", "today", fetchStatsHandler, onCommandReceived),
   );
 
   // Register /yesterday command
   bot.command("yesterday", (ctx) =>
-    handleStatsCommand(ctx, "yesterday", fetchStatsHandler, onCommandReceived),
+    handleStatsCommand(ctx, "yesterday", "yesterday", fetchStatsHandler, onCommandReceived),
   );
 
+  // Register /weekly command (current week since Monday)
+  bot.command("weekly", (ctx) =>
+    handleStatsCommand(ctx, "weekly", "week", fetchStatsHandler, onCommandReceived),
+  );
+
+  // Register /monthly command (current month since the 1st)
+  bot.command("monthly", (ctx) =>
+    handleStatsCommand(ctx, "monthly", "month", fetchStatsHandler, onCommandReceived),
+  );
+
+  // Register /me command (personal dashboard)
+  bot.command("me", (ctx) => handleMeCommand(ctx, onCommandReceived));
+
+  // Register /compare command (head-to-head)
+  bot.command("compare", (ctx) => handleCompareCommand(ctx, onCommandReceived));
+
+  // Register /synergy command (duo/trio win rates)
+  bot.command("synergy", (ctx) => handleSynergyCommand(ctx, onCommandReceived));
+
+  // Register /roast command (roast of the day, or /roast @player)
+  bot.command("roast", (ctx) => handleRoastCommand(ctx, onCommandReceived));
+
   // Register /analyze command
-  bot.command("analyze", (ctx) => handleAnalyzeCommand(ctx, onCommandReceived));
+  bot.command("analyze", (ctx) =>
+    handleAnalyzeCommand(ctx, "analyze", DEFAULT_PERSONA_ID, onCommandReceived),
+  );
+
+  // Register /copium command (shortcut for /analyze --mode copium)
+  bot.command("copium", (ctx) => handleAnalyzeCommand(ctx, "copium", "copium", onCommandReceived));
+
+  // Register /quota command (remaining AI usage)
+  bot.command("quota", (ctx) => handleQuotaCommand(ctx, onCommandReceived));
+
+  // Register /player command (roster management)
+  bot.command("player", (ctx) => handlePlayerCommand(ctx, onCommandReceived));
+
+  // Register /chat command (per-chat settings)
+  bot.command("chat", (ctx) => handleChatCommand(ctx, onCommandReceived));
+
+  // Register /settings command (player's own preferences)
+  bot.command("settings", (ctx) => handleSettingsCommand(ctx, onCommandReceived));
+
+  handleStatsButtons(bot, fetchStatsHandler, onCommandReceived);
+  handleMatchCardButtons(bot, onCommandReceived);
+  handleAnalysisButtons(bot, onCommandReceived);
 
-  // Register /copium command (biased analysis)
-  bot.command("copium", (ctx) => handleCopiumCommand(ctx, onCommandReceived));
+  // Replies to analysis messages continue the conversation (after commands)
+  handleAnalysisFollowUps(bot, onCommandReceived);
 
   // Set bot commands menu (optional; 404 can occur with invalid token or custom API)
   bot.api
     .setMyCommands([
-      { command: "stats", description: "Get today's Dota 2 stats" },
+      { command: "stats", description: "Dota 2 stats (today, or /stats last week, 2026-09-14...)" },
       { command: "yesterday", description: "Get yesterday's Dota 2 stats" },
-      { command: "analyze", description: "AI analysis (or /analyze <url>)" },
+      { command: "weekly", description: "Get this week's Dota 2 stats" },
+      { command: "monthly", description: "Get this month's Dota 2 stats" },
+      { command: "me", description: "👤 Личная статистика (/me [игрок] [период])" },
+      { command: "compare", description: "⚔️ Сравнить двух игроков" },
+      { command: "synergy", description: "🤝 Винрейт дуэтов и трио" },
+      { command: "roast", description: "🔥 Прожарка дня (/roast @игрок — заказная)" },
+      { command: "analyze", description: "AI analysis (/analyze <url> [@player] --mode coach|copium|analyst|caster|mentor)" },
       { command: "copium", description: "💊 AI-аналитика для стака" },
+      { command: "quota", description: "🎟 Сколько AI-запросов осталось на сегодня" },
+      { command: "player", description: "👥 Ростер игроков" },
+      { command: "chat", description: "⚙️ Настройки чата" },
+      { command: "settings", description: "🙋 Мои настройки: прожарки, жёсткость, номинации" },
     ])
     .catch((err) =>
       console.warn("[WARN] setMyCommands failed (menu may not show):", err.message),
@@ -0,0 +1,217 @@
+/**
+ * Chat registry: every Telegram group the bot serves, with its own member list,
+ * schedule and enabled features. Filled when the bot is added to a group;
+ * the TELEGRAM_CHAT_ID chat is registered on startup with the classic defaults.
+ *
+ * The global roster (config.ts) holds player records; each chat lists which of them it tracks.
+ */
+import { config, getPlayerIds } from "./config.js";
+import { openStore } from "./storage.js";
+import { DEFAULT_TIME_SETTINGS, type TimeSettings } from "./time.js";
+
+export type ChatFeature =
+  | "dailyStats"
+  | "weeklyDigest"
+  | "monthlyDigest"
+  | "birthdays"
+  | "lfg"
+  | "matchCards"
+  | "roast";
+
+export interface ChatSettings {
+  chatId: string;
+  title?: string;
+  active: boolean;            // false once the bot is removed from the chat
+  playerIds: number[];        // tracked players (Steam IDs from the global roster)
+  features: Record<ChatFeature, boolean>;
+  dailyStatsTime: string;     // "HH:MM", also used for the Monday and 1st-of-month digests
+  birthdaysTime: string;      // "HH:MM"
+  roastTime: string;          // "HH:MM"
+  timeZone?: string;          // IANA timezone; undefined = BOT_TIMEZONE
+  dayStartHour?: number;      // local hour a new stats day starts; undefined = DAY_START_HOUR
+}
+
+const DEFAULT_DAILY_STATS_TIME = "06:00";
+const DEFAULT_BIRTHDAYS_TIME = "19:00";
+const DEFAULT_ROAST_TIME = "20:00";
+
+const chatStore = openStore<ChatSettings>("chats", {
+  version: 5,
+  migrations: {
+    // v2: weekly/monthly digests, enabled like the other features
+    2: (value) => {
+      const chat = value as ChatSettings;
+      return { ...chat, features: { ...chat.features, weeklyDigest: true, monthlyDigest: true } };
+    },
+    // v3: post-match result cards
+    3: (value) => {
+      const chat = value as ChatSettings;
+      return { ...chat, features: { ...chat.features, matchCards: true } };
+    },
+    // v4: scheduled roast of the day, opt-in
+    4: (value) => {
+      const chat = value as ChatSettings;
+      return { ...chat, features: { ...chat.features, roast: false }, roastTime: DEFAULT_ROAST_TIME };
+    },
+    // v5: own member list for every chat; "whole roster" becomes a snapshot of it
+    5: (value) => {
+      const chat = value as Omit<ChatSettings, "playerIds"> & { playerIds?: number[] };
+      return { ...chat, playerIds: chat.playerIds ?? getPlayerIds() };
+    },
+  },
+});
+
+/**
+ * Creates settings for a newly seen chat
+ * The main chat starts with the current roster; other groups start empty and pick their players
+ */
+function createChatSettings(chatId: string, title?: string): ChatSettings {
+  const isMainChat = chatId === config.telegramChatId;
+  return {
+    chatId,
+    title,
+    active: true,
+    playerIds: isMainChat ? getPlayerIds() : [],
+    features: {
+      dailyStats: true,
+      weeklyDigest: true,
+      monthlyDigest: true,
+      birthdays: true,
+      lfg: true,
+      matchCards: true,
+      roast: false,
+    },
+    dailyStatsTime: DEFAULT_DAILY_STATS_TIME,
+    birthdaysTime: DEFAULT_BIRTHDAYS_TIME,
+    roastTime: DEFAULT_ROAST_TIME,
+  };
+}
+
+/**
+ * Gets settings for a chat (undefined if the chat is not registered)
+ */
+export function getChat(chatId: string | number): ChatSettings | undefined {
+  return chatStore.get(String(chatId));
+}
+
+/**
+ * All active chats
+ */
+export function getActiveChats(): ChatSettings[] {
+  return chatStore.entries().map(([, chat]) => chat).filter((chat) => chat.active);
+}
+
+/**
+ * Active chats with a feature enabled
+ */
+export function getChatsWithFeature(feature: ChatFeature): ChatSettings[] {
+  return getActiveChats().filter((chat) => chat.features[feature]);
+}
+
+/**
+ * Registers a chat (or re-activates it if the bot was re-added)
+ */
+export function registerChat(chatId: string | number, title?: string): ChatSettings {
+  const existing = getChat(chatId);
+  const chat = existing
+    ? { ...existing, active: true, title: title ?? existing.title }
+    : createChatSettings(String(chatId), title);
+  chatStore.set(chat.chatId, chat);
+  return chat;
+}
+
+/**
+ * Marks a chat inactive (bot removed). Settings are kept in case it comes back.
+ */
+export function deactivateChat(chatId: string | number): void {
+  const existing = getChat(chatId);
+  if (existing) {
+    chatStore.set(existing.chatId, { ...existing, active: false });
+  }
+}
+
+/**
+ * Updates chat settings. Returns the updated settings or undefined if not registered.
+ */
+export function updateChat(
+  chatId: string | number,
+  changes: Partial<Omit<ChatSettings, "chatId">>,
+): ChatSettings | undefined {
+  const existing = getChat(chatId);
+  if (!existing) return undefined;
+
+  const updated = { ...existing, ...changes };
+  chatStore.set(updated.chatId, updated);
+  return updated;
+}
+
+/**
+ * Steam IDs tracked in a chat. Unregistered chats (e.g. private messages) see the whole roster.
+ */
+export function getChatPlayerIds(chatId: string | number): number[] {
+  const rosterIds = getPlayerIds();
+  const chat = getChat(chatId);
+  if (!chat) return rosterIds;
+
+  // Keep roster order and drop players removed from the roster
+  const chatIds = new Set(chat.playerIds);
+  return rosterIds.filter((id) => chatIds.has(id));
+}
+
+/**
+ * Starts tracking a player in a chat. Returns the updated settings or undefined if not registered.
+ */
+export function addChatPlayer(chatId: string | number, steamId: number): ChatSettings | undefined {
+  const chat = getChat(chatId);
+  if (!chat) return undefined;
+  if (chat.playerIds.includes(steamId)) return chat;
+  return updateChat(chat.chatId, { playerIds: [...chat.playerIds, steamId] });
+}
+
+/**
+ * Stops tracking a player in a chat. Returns the updated settings or undefined if not registered.
+ */
+export function removeChatPlayer(chatId: string | number, steamId: number): ChatSettings | undefined {
+  const chat = getChat(chatId);
+  if (!chat) return undefined;
+  return updateChat(chat.chatId, { playerIds: chat.playerIds.filter((id) => id !== steamId) });
+}
+
+/**
+ * Stops tracking a player everywhere (before removing them from the global roster)
+ */
+export function removePlayerFromAllChats(steamId: number): void {
+  for (const [, chat] of chatStore.entries()) {
+    if (chat.playerIds.includes(steamId)) {
+      removeChatPlayer(chat.chatId, steamId);
+    }
+  }
+}
+
+/**
+ * Whether any active chat still tracks a player
+ */
+export function isPlayerTracked(steamId: number): boolean {
+  return getActiveChats().some((chat) => chat.playerIds.includes(steamId));
+}
+
+/**
+ * Timezone and day boundary for a chat, falling back to the bot defaults
+ */
+export function getChatTimeSettings(chatId?: string | number): TimeSettings {
+  const chat = chatId !== undefined ? getChat(chatId) : undefined;
+  return {
+    timeZone: chat?.timeZone ?? DEFAULT_TIME_SETTINGS.timeZone,
+    dayStartHour: chat?.dayStartHour ?? DEFAULT_TIME_SETTINGS.dayStartHour,
+  };
+}
+
+/**
+ * Registers the TELEGRAM_CHAT_ID chat if it isn't known yet
+ */
+export function ensureMainChat(): void {
+  if (config.telegramChatId && !getChat(config.telegramChatId)) {
+    registerChat(config.telegramChatId);
+    console.log(`[CHATS] Registered main chat ${config.telegramChatId}`);
+  }
+}
@@ -0,0 +1,262 @@
+/**
+ * Head-to-head comparison of two tracked players for /compare
+ */
+import { getPlayerDisplayName, type Player } from "./config.js";
+import { getChatTimeSettings } from "./chats.js";
+import { getHeroNames } from "./heroes.js";
+import { getStoredMatches } from "./match-history.js";
+import { fetchPlayerTotals, type RecentMatch } from "./opendota.js";
+import { fetchAllPlayersStats } from "./player-stats.js";
+import { isWin, type PlayerStats } from "./stats.js";
+import { escapeHtml } from "./telegram-html.js";
+import type { DateRange } from "./time.js";
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+const SHARED_HEROES_LIMIT = 5;
+const TABLE_NAME_WIDTH = 10;
+
+interface Side {
+  name: string;
+  stats: PlayerStats;
+  matches: RecentMatch[];
+}
+
+interface WinLossRecord {
+  wins: number;
+  losses: number;
+}
+
+/**
+ * A metric row of the comparison table
+ */
+interface Metric {
+  label: string;
+  a: number | undefined;
+  b: number | undefined;
+  higherIsBetter?: boolean;  // undefined = informational, not scored
+  format: (value: number) => string;
+}
+
+interface TotalsAverages {
+  gpm: number | undefined;
+  xpm: number | undefined;
+}
+
+/**
+ * Days the OpenDota totals need to cover the range. Their date filter counts back from now,
+ * so for past periods (yesterday, last week) the window also includes the days since.
+ */
+function getTotalsDays(range: DateRange, nowSeconds: number): number {
+  return Math.max(1, Math.ceil((nowSeconds - range.from) / DAY_SECONDS));
+}
+
+/**
+ * GPM/XPM averages from OpenDota totals over the last `days` days
+ */
+async function fetchTotalsAverages(steamId: number, days: number): Promise<TotalsAverages> {
+  try {
+    const totals = await fetchPlayerTotals(steamId, days);
+    const average = (field: string) => {
+      const total = totals.find((t) => t.field === field);
+      return total && total.n > 0 ? Math.round(total.sum / total.n) : undefined;
+    };
+    return { gpm: average("gold_per_min"), xpm: average("xp_per_min") };
+  } catch (error) {
+    console.warn(`[COMPARE] Failed to fetch totals for ${steamId}:`, error);
+    return { gpm: undefined, xpm: undefined };
+  }
+}
+
+function toRecord(matches: RecentMatch[]): WinLossRecord {
+  const wins = matches.filter(isWin).length;
+  return { wins, losses: matches.length - wins };
+}
+
+function formatRecord(record: WinLossRecord): string {
+  const total = record.wins + record.losses;
+  if (total === 0) return "0 игр";
+  return `${total} игр, ${Math.round((record.wins / total) * 100)}% WR (${record.wins}W/${record.losses}L)`;
+}
+
+/**
+ * Pads/truncates a cell for the monospace table
+ */
+function cell(text: string, width: number): string {
+  return text.length > width ? text.slice(0, width - 1) + "…" : text.padEnd(width);
+}
+
+/**
+ * Formats the metrics as a <pre> table and counts which side wins each row
+ */
+function formatMetricsTable(a: Side, b: Side, metrics: Metric[]): { table: string; scoreA: number; scoreB: number } {
+  let scoreA = 0;
+  let scoreB = 0;
+  const labelWidth = Math.max(...metrics.map((m) => m.label.length)) + 1;
+
+  const rows = [
+    `${cell("", labelWidth)}${cell(a.name, TABLE_NAME_WIDTH)} ${cell(b.name, TABLE_NAME_WIDTH)}`,
+  ];
+  for (const metric of metrics) {
+    const valueA = metric.a === undefined ? "—" : metric.format(metric.a);
+    const valueB = metric.b === undefined ? "—" : metric.format(metric.b);
+    let mark = "";
+    const isScored = metric.higherIsBetter !== undefined;
+    if (isScored && metric.a !== undefined && metric.b !== undefined && metric.a !== metric.b) {
+      const aWins = metric.higherIsBetter ? metric.a > metric.b : metric.a < metric.b;
+      if (aWins) scoreA++;
+      else scoreB++;
+      mark = aWins ? " ◀" : " ▶";
+    }
+    rows.push(`${cell(metric.label, labelWidth)}${cell(valueA, TABLE_NAME_WIDTH)} ${cell(valueB, TABLE_NAME_WIDTH)}${mark}`);
+  }
+
+  return { table: `<pre>${escapeHtml(rows.join("\n"))}</pre>`, scoreA, scoreB };
+}
+
+/**
+ * Heroes both players played in the range, most played first, with each player's record
+ */
+async function formatSharedHeroes(a: Side, b: Side): Promise<string[]> {
+  const byHero = (matches: RecentMatch[]) => {
+    const map = new Map<number, RecentMatch[]>();
+    for (const match of matches) {
+      map.set(match.hero_id, [...(map.get(match.hero_id) ?? []), match]);
+    }
+    return map;
+  };
+  const heroesA = byHero(a.matches);
+  const heroesB = byHero(b.matches);
+
+  const shared = [...heroesA.keys()]
+    .filter((heroId) => heroesB.has(heroId))
+    .sort((x, y) =>
+      (heroesB.get(y)!.length + heroesA.get(y)!.length) - (heroesB.get(x)!.length + heroesA.get(x)!.length)
+    )
+    .slice(0, SHARED_HEROES_LIMIT);
+  if (shared.length === 0) return [];
+
+  const names = await getHeroNames(shared);
+  const winRate = (matches: RecentMatch[]) => Math.round((matches.filter(isWin).length / matches.length) * 100);
+
+  return [
+    "",
+    "🦸 <b>Общие герои</b>",
+    ...shared.map((heroId, i) => {
+      const matchesA = heroesA.get(heroId)!;
+      const matchesB = heroesB.get(heroId)!;
+      return (
+        `${names[i]}: ${escapeHtml(a.name)} ${matchesA.length} игр ${winRate(matchesA)}% • ` +
+        `${escapeHtml(b.name)} ${matchesB.length} игр ${winRate(matchesB)}%`
+      );
+    }),
+  ];
+}
+
+/**
+ * Record when queued together (same match, same team) versus each player without the other.
+ * Matches against each other count in neither: they get their own head-to-head line.
+ */
+function formatTogetherSection(a: Side, b: Side): string[] {
+  const isRadiant = (m: RecentMatch) => m.player_slot < 128;
+  const sideB = new Map(b.matches.map((m) => [m.match_id, isRadiant(m)]));
+  const together = a.matches.filter((m) => sideB.get(m.match_id) === isRadiant(m));
+  const against = a.matches.filter((m) => sideB.has(m.match_id) && sideB.get(m.match_id) !== isRadiant(m));
+  const sharedIds = new Set([...together, ...against].map((m) => m.match_id));
+
+  const lines = [
+    "",
+    `🤝 <b>Вместе:</b> ${formatRecord(toRecord(together))}`,
+    `🚶 <b>${escapeHtml(a.name)} без ${escapeHtml(b.name)}:</b> ${formatRecord(toRecord(a.matches.filter((m) => !sharedIds.has(m.match_id))))}`,
+    `🚶 <b>${escapeHtml(b.name)} без ${escapeHtml(a.name)}:</b> ${formatRecord(toRecord(b.matches.filter((m) => !sharedIds.has(m.match_id))))}`,
+  ];
+  if (against.length > 0) {
+    const { wins, losses } = toRecord(against);
+    lines.push(`⚔️ <b>Друг против друга:</b> ${escapeHtml(a.name)} ${wins} : ${losses} ${escapeHtml(b.name)}`);
+  }
+  return lines;
+}
+
+/**
+ * Builds the /compare message for two players over a range.
+ * GPM/XPM come from OpenDota totals, the rest from the stored matches. For past periods
+ * the totals reach up to now, so those rows are labeled with their window and not scored.
+ */
+export async function comparePlayers(
+  playerA: Player,
+  playerB: Player,
+  range: DateRange,
+  chatId: string,
+): Promise<string> {
+  const [statsA, statsB] = await fetchAllPlayersStats(
+    [playerA.steamId, playerB.steamId],
+    range,
+    getChatTimeSettings(chatId),
+  );
+
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  const totalsDays = getTotalsDays(range, nowSeconds);
+  const totalsMatchRange = range.to === null || range.to >= nowSeconds;
+  const [totalsA, totalsB] = [
+    await fetchTotalsAverages(playerA.steamId, totalsDays),
+    await fetchTotalsAverages(playerB.steamId, totalsDays),
+  ];
+  const totalsLabel = (label: string) => (totalsMatchRange ? label : `${label} ${totalsDays}д`);
+
+  // History was just synced by fetchAllPlayersStats
+  const until = range.to ?? undefined;
+  const a: Side = { name: getPlayerDisplayName(playerA), stats: statsA, matches: getStoredMatches(playerA.steamId, range.from, until) };
+  const b: Side = { name: getPlayerDisplayName(playerB), stats: statsB, matches: getStoredMatches(playerB.steamId, range.from, until) };
+
+  const deathsPerGame = (s: PlayerStats) =>
+    s.totalMatches > 0 ? Math.round((s.totalDeaths / s.totalMatches) * 10) / 10 : undefined;
+  const hasMatches = (s: PlayerStats) => s.totalMatches > 0;
+
+  const metrics: Metric[] = [
+    { label: "Игр", a: statsA.totalMatches, b: statsB.totalMatches, format: String },
+    {
+      label: "WR",
+      a: hasMatches(statsA) ? statsA.winRate : undefined,
+      b: hasMatches(statsB) ? statsB.winRate : undefined,
+      higherIsBetter: true,
+      format: (v) => `${v}%`,
+    },
+    { label: "KDA", a: statsA.avgKda, b: statsB.avgKda, higherIsBetter: true, format: String },
+    { label: "Смертей", a: deathsPerGame(statsA), b: deathsPerGame(statsB), higherIsBetter: false, format: String },
+    {
+      label: totalsLabel("GPM"),
+      a: totalsA.gpm,
+      b: totalsB.gpm,
+      higherIsBetter: totalsMatchRange ? true : undefined,
+      format: String,
+    },
+    {
+      label: totalsLabel("XPM"),
+      a: totalsA.xpm,
+      b: totalsB.xpm,
+      higherIsBetter: totalsMatchRange ? true : undefined,
+      format: String,
+    },
+  ];
+
+  const { table, scoreA, scoreB } = formatMetricsTable(a, b, metrics);
+
+  const verdict =
+    scoreA === scoreB
+      ? `🤷 <b>Вердикт:</b> ничья ${scoreA}:${scoreB}`
+      : `🏆 <b>Вердикт:</b> ${escapeHtml(scoreA > scoreB ? a.name : b.name)} лучше ` +
+        `(${Math.max(scoreA, scoreB)}:${Math.min(scoreA, scoreB)})`;
+
+  const lines = [
+    `⚔️ <b>${escapeHtml(a.name)} vs ${escapeHtml(b.name)}</b> — ${range.title}`,
+    "",
+    table,
+    ...(totalsMatchRange ? [] : [`<i>GPM/XPM — за последние ${totalsDays} дн., в вердикте не учитываются</i>`]),
+    ...(await formatSharedHeroes(a, b)),
+    ...formatTogetherSection(a, b),
+    "",
+    verdict,
+  ];
+
+  return lines.join("\n");
+}
@@ -1,4 +1,5 @@
 import "dotenv/config";
+import { openStore } from "./storage.js";
 
 /**
  * Player mapping between Dota 2 (Steam) and Telegram
@@ -11,13 +12,36 @@ export interface Player {
   displayName?: string;  // Custom display name (optional)
   botAttitude?: string;  // How the bot feels about this player (used in AI analysis prompts)
   birthday?: string;     // "YYYY-MM-DD"
+  timeZone?: string;     // IANA timezone for birthday matching; undefined = chat timezone
+  preferences?: Partial<PlayerPreferences>; // set by the player with /settings
 }
 
 /**
- * All tracked players
+ * How hard the bot may be on a player in roasts and AI analyses
+ */
+export type ToxicityLevel = "soft" | "medium" | "hard";
+
+/**
+ * Player's own say in how the bot treats them
+ */
+export interface PlayerPreferences {
+  roasts: boolean;            // may be picked for /roast and the roast of the day
+  maxToxicity: ToxicityLevel;
+  shameNominations: boolean;  // may get Лузер, Фидер and the other negative nominations
+}
+
+const DEFAULT_PREFERENCES: PlayerPreferences = {
+  roasts: true,
+  maxToxicity: "hard",
+  shameNominations: true,
+};
+
+/**
+ * Initial roster, used to seed the persistent roster on first start.
+ * After that the roster is managed from Telegram with /player.
  * To find your Telegram ID, use @userinfobot or forward a message to @JsonDumpBot
  */
-export const PLAYERS: Player[] = [
+const DEFAULT_PLAYERS: Player[] = [
   { steamId: 93921511,   dotaName: "Unclead",      telegramId: 442863557, botAttitude: "тёплый тон, симпатия, ищет за что похвалить" },
   { steamId: 167818283,  dotaName: "MOX",          telegramId: 55087818, telegramUsername: "alexkim87", botAttitude: "уважение + лёгкие подколы про экономию и жадность" },
   { steamId: 94014640,   dotaName: "СделкаУтка",  telegramId: 455412364, telegramUsername: "loothood", botAttitude: "замечает то, что другие не видят — тихий вклад, незаметная работа" },
@@ -34,23 +58,65 @@ export const PLAYERS: Player[] = [
   { steamId: 91407576, dotaName: "Why me?", botAttitude: "сочувственный тон, мягче обычного после поражений" },
 ];
 
+// Live roster, persisted as a single list so order is preserved
+const rosterStore = openStore<Player[]>("roster");
+const ROSTER_KEY = "players";
+
 /**
- * Player Steam IDs to track (for backward compatibility)
+ * All tracked players (live roster)
  */
-export const PLAYER_IDS = PLAYERS.map(p => p.steamId) as readonly number[];
+export function getPlayers(): Player[] {
+  const players = rosterStore.get(ROSTER_KEY);
+  if (players) return players;
+
+  rosterStore.set(ROSTER_KEY, DEFAULT_PLAYERS);
+  return DEFAULT_PLAYERS;
+}
+
+/**
+ * Player Steam IDs to track
+ */
+export function getPlayerIds(): number[] {
+  return getPlayers().map(p => p.steamId);
+}
 
 /**
  * Find player by Telegram ID
  */
 export function findPlayerByTelegramId(telegramId: number): Player | undefined {
-  return PLAYERS.find(p => p.telegramId === telegramId);
+  return getPlayers().find(p => p.telegramId === telegramId);
 }
 
 /**
  * Find player by Steam ID
  */
 export function findPlayerBySteamId(steamId: number): Player | undefined {
-  return PLAYERS.find(p => p.steamId === steamId);
+  return getPlayers().find(p => p.steamId === steamId);
+}
+
+/**
+ * Find player by Telegram @username (case-insensitive, with or without @)
+ */
+export function findPlayerByTelegramUsername(username: string): Player | undefined {
+  const normalized = username.replace(/^@/, "").toLowerCase();
+  return getPlayers().find(p => p.telegramUsername?.toLowerCase() === normalized);
+}
+
+/**
+ * Resolves a free-form reference: Steam ID, @username, dota name or display name
+ */
+export function resolvePlayer(query: string): Player | undefined {
+  const trimmed = query.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return findPlayerBySteamId(parseInt(trimmed, 10));
+  }
+  if (trimmed.startsWith("@")) {
+    return findPlayerByTelegramUsername(trimmed);
+  }
+  const lower = trimmed.toLowerCase();
+  return getPlayers().find(
+    p => p.dotaName.toLowerCase() === lower || p.displayName?.toLowerCase() === lower,
+  );
 }
 
 /**
@@ -64,11 +130,59 @@ export function getPlayerDisplayName(player: Player): string {
  * Get bot's attitude towards a player by Steam ID
  */
 export function getBotAttitude(steamId: number): string | undefined {
-  return PLAYERS.find(p => p.steamId === steamId)?.botAttitude;
+  return findPlayerBySteamId(steamId)?.botAttitude;
+}
+
+/**
+ * Preferences of a player by Steam ID, defaults filled in (also for players not in the roster)
+ */
+export function getPlayerPreferences(steamId: number): PlayerPreferences {
+  return { ...DEFAULT_PREFERENCES, ...findPlayerBySteamId(steamId)?.preferences };
+}
+
+/**
+ * Adds a player to the roster. Returns false if already tracked.
+ */
+export function addPlayer(player: Player): boolean {
+  const players = getPlayers();
+  if (players.some(p => p.steamId === player.steamId)) return false;
+  rosterStore.set(ROSTER_KEY, [...players, player]);
+  return true;
+}
+
+/**
+ * Removes a player from the roster. Returns false if not tracked.
+ */
+export function removePlayer(steamId: number): boolean {
+  const players = getPlayers();
+  const remaining = players.filter(p => p.steamId !== steamId);
+  if (remaining.length === players.length) return false;
+  rosterStore.set(ROSTER_KEY, remaining);
+  return true;
+}
+
+/**
+ * Updates fields of a tracked player. Returns the updated player or undefined if not tracked.
+ */
+export function updatePlayer(steamId: number, changes: Partial<Omit<Player, "steamId">>): Player | undefined {
+  const players = getPlayers();
+  const existing = players.find(p => p.steamId === steamId);
+  if (!existing) return undefined;
+
+  const updated = { ...existing, ...changes };
+  rosterStore.set(ROSTER_KEY, players.map(p => (p.steamId === steamId ? updated : p)));
+  return updated;
 }
 
 export const config = {
   telegramBotToken: process.env.TELEGRAM_BOT_TOKEN ?? "",
   telegramChatId: process.env.TELEGRAM_CHAT_ID ?? "",
   steamApiKey: process.env.STEAM_API_KEY ?? "",
+  // Optional: raises the OpenDota rate limits (https://www.opendota.com/api-keys)
+  openDotaApiKey: process.env.OPENDOTA_API_KEY ?? "",
+  // Telegram user IDs allowed to manage the roster (in addition to chat admins)
+  adminTelegramIds: (process.env.ADMIN_TELEGRAM_IDS ?? "")
+    .split(",")
+    .map(id => parseInt(id.trim(), 10))
+    .filter(id => !isNaN(id)),
 };
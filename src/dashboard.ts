@@ -0,0 +1,26 @@
+/**
+ * Personal player dashboard for /me
+ */
+import { getChatPlayerIds, getChatTimeSettings } from "./chats.js";
+import { formatPlayerDashboard } from "./formatter.js";
+import { getStoredMatches } from "./match-history.js";
+import { fetchAllPlayersStats } from "./player-stats.js";
+import type { DateRange } from "./time.js";
+
+/**
+ * Builds the /me message for a player: their stats for the range,
+ * compared with the rest of the chat's roster
+ */
+export async function getPlayerDashboard(steamId: number, range: DateRange, chatId: string): Promise<string> {
+  const timeSettings = getChatTimeSettings(chatId);
+  const partyIds = getChatPlayerIds(chatId);
+  const playerIds = partyIds.includes(steamId) ? partyIds : [steamId, ...partyIds];
+
+  const partyStats = await fetchAllPlayersStats(playerIds, range, timeSettings);
+  const stats = partyStats.find((p) => p.playerId === steamId)!;
+
+  // History was just synced by fetchAllPlayersStats
+  const recentMatches = getStoredMatches(steamId);
+
+  return formatPlayerDashboard({ stats, partyStats, recentMatches, range });
+}
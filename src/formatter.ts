@@ -1,88 +1,11 @@
-import type { PlayerStats, HeroMatch, StatsPeriod } from "./stats.js";
+import { getCurrentStreak, isWin, type PlayerStats, type HeroMatch } from "./stats.js";
+import { getPlayerPreferences } from "./config.js";
+import type { RecentMatch } from "./opendota.js";
 import { getHeroNames } from "./heroes.js";
 import { formatRank } from "./ranks.js";
 import { maybeAppendCanonStrophe } from "./canon.js";
-
-/**
- * Formats the date in DD.MM.YYYY format
- */
-function formatDate(date: Date): string {
-  const day = String(date.getDate()).padStart(2, "0");
-  const month = String(date.getMonth() + 1).padStart(2, "0");
-  const year = date.getFullYear();
-  return `${day}.${month}.${year}`;
-}
-
-/**
- * Day start hour in MSK timezone (6:00 AM)
- * Must match DAY_START_HOUR_MSK in stats.ts
- */
-const DAY_START_HOUR_MSK = 6;
-const MSK_OFFSET_HOURS = 3;
-
-/**
- * Gets current MSK time components
- */
-function getMskTimeComponents() {
-  const now = new Date();
-  const mskTime = now.getTime() + MSK_OFFSET_HOURS * 60 * 60 * 1000;
-  const mskDate = new Date(mskTime);
-
-  return {
-    year: mskDate.getUTCFullYear(),
-    month: mskDate.getUTCMonth(),
-    date: mskDate.getUTCDate(),
-    hours: mskDate.getUTCHours(),
-    day: mskDate.getUTCDay(),
-  };
-}
-
-/**
- * Gets the period title for the stats message
- */
-function getPeriodTitle(period: StatsPeriod): string {
-  const now = new Date();
-
-  switch (period) {
-    case "today":
-      return formatDate(now);
-    case "yesterday": {
-      const yesterday = new Date(now);
-      yesterday.setDate(now.getDate() - 1);
-      return formatDate(yesterday);
-    }
-    case "week": {
-      // Get Monday of current week
-      const dayOfWeek = now.getDay();
-      const daysToMonday = dayOfWeek === 0 ? 6 : dayOfWeek - 1;
-      const monday = new Date(now);
-      monday.setDate(now.getDate() - daysToMonday);
-      return `${formatDate(monday)} - ${formatDate(now)} (Week)`;
-    }
-    case "month": {
-      const msk = getMskTimeComponents();
-      const monthNames = [
-        "January", "February", "March", "April", "May", "June",
-        "July", "August", "September", "October", "November", "December"
-      ];
-
-      // Determine the actual month we're reporting on
-      // (if it's 1st before 6:00 MSK, we're still in previous month)
-      let { year, month, date } = msk;
-      if (date === 1 && msk.hours < DAY_START_HOUR_MSK) {
-        const prevMonth = new Date(Date.UTC(year, month - 1, 1));
-        year = prevMonth.getUTCFullYear();
-        month = prevMonth.getUTCMonth();
-        // Last day of previous month
-        const lastDay = new Date(Date.UTC(year, month + 1, 0));
-        date = lastDay.getUTCDate();
-      }
-
-      // Format: "January 2026 (1-24)"
-      return `${monthNames[month]} ${year} (1-${date})`;
-    }
-  }
-}
+import { DEFAULT_TIME_SETTINGS, getPeriodRange, getRangeDays, type DateRange } from "./time.js";
+import { getBestAndWorstDuos, type GroupRecord, type SynergyStats } from "./synergy.js";
 
 /**
  * Gets emoji based on win rate
@@ -115,6 +38,7 @@ interface Nomination {
   player: PlayerStats;
   value: string; // formatted value for display
   heroName?: string; // for hero-specific nominations
+  partner?: PlayerStats; // for duo nominations
 }
 
 interface NominationCandidate {
@@ -123,6 +47,14 @@ interface NominationCandidate {
   heroName?: string;
 }
 
+/**
+ * Whether a player may get negative nominations (Лузер, Фидер, Бот, Клоун, Регресс, Худший дуэт).
+ * Players who opted out with /settings are skipped and the next worst gets the nomination.
+ */
+function acceptsShameNominations(player: PlayerStats): boolean {
+  return getPlayerPreferences(player.playerId).shameNominations;
+}
+
 /**
  * Groups heroes by heroId and counts wins/losses
  */
@@ -224,19 +156,15 @@ function formatHoursMinutes(seconds: number): string {
 }
 
 /**
- * Returns max number of "other heroes" to display based on period
+ * Returns max number of "other heroes" to display based on period length
  * For longer periods, we need to limit to keep message under Telegram limit
  */
-function getMaxOtherHeroes(period: StatsPeriod): number {
-  switch (period) {
-    case "today":
-    case "yesterday":
-      return Infinity; // Show all for daily stats
-    case "week":
-      return 8; // Limit for weekly
-    case "month":
-      return 5; // More restrictive for monthly
-  }
+function getMaxOtherHeroes(range: DateRange): number {
+  // Rounded so a 25-hour DST day still counts as one day
+  const days = Math.round(getRangeDays(range));
+  if (days <= 1) return Infinity; // Show all for daily stats
+  if (days <= 7) return 8; // Limit for weekly
+  return 5; // More restrictive for monthly and longer
 }
 
 /**
@@ -245,7 +173,7 @@ function getMaxOtherHeroes(period: StatsPeriod): number {
 function formatPlayerCard(
   stats: PlayerStats,
   heroNames: string[],
-  period: StatsPeriod
+  range: DateRange
 ): string {
   const emoji = getPerformanceEmoji(stats);
   const playerLink = getOpenDotaLink(stats.playerId, stats.playerName);
@@ -260,7 +188,7 @@ function formatPlayerCard(
   // Show all heroes in one line
   const groupedHeroes = groupHeroes(stats.heroes, heroNames);
   if (groupedHeroes.length > 0) {
-    const maxHeroes = getMaxOtherHeroes(period) + 1; // +1 because we're showing all, not excluding best
+    const maxHeroes = getMaxOtherHeroes(range) + 1; // +1 because we're showing all, not excluding best
     let heroesToShow = groupedHeroes;
     
     const totalHeroes = groupedHeroes.length;
@@ -289,6 +217,14 @@ function formatPlayerCard(
   return lines.join("\n");
 }
 
+/**
+ * Formats a player as one line for the compact stats view
+ */
+function formatCompactPlayerLine(stats: PlayerStats): string {
+  const kda = stats.avgKda !== undefined ? ` • KDA ${stats.avgKda}` : "";
+  return `${getPerformanceEmoji(stats)} <b>${getOpenDotaLink(stats.playerId, stats.playerName)}</b> ${stats.winRate}% • ${stats.wins}W/${stats.losses}L${kda}`;
+}
+
 /**
  * Formats inactive players as a compact single line
  */
@@ -355,17 +291,19 @@ function calculateTotals(stats: PlayerStats[]): {
 /**
  * Formats nominations section for display
  */
-function formatNominationsSection(nominations: Nomination[]): string[] {
+function formatNominationsSection(nominations: Nomination[], title: string = "🏆 Номинации"): string[] {
   if (nominations.length === 0) return [];
 
   const lines: string[] = [
     "",
-    "🏆 <b>Номинации</b>",
+    `<b>${title}</b>`,
     "",
   ];
 
   for (const nom of nominations) {
-    if (nom.heroName) {
+    if (nom.partner) {
+      lines.push(`${nom.emoji} ${nom.title}: ${nom.player.playerName} + ${nom.partner.playerName} (${nom.value})`);
+    } else if (nom.heroName) {
       // For hero-specific nominations
       lines.push(`${nom.emoji} ${nom.title}: ${nom.player.playerName} (${nom.heroName} ${nom.value})`);
     } else {
@@ -383,7 +321,8 @@ function formatNominationsSection(nominations: Nomination[]): string[] {
  */
 function calculateNominations(
   activePlayers: PlayerStats[],
-  heroNamesMap: Map<number, string[]>
+  heroNamesMap: Map<number, string[]>,
+  synergy?: SynergyStats
 ): Nomination[] {
   // Need at least 2 players to compare
   if (activePlayers.length < 2) return [];
@@ -395,6 +334,7 @@ function calculateNominations(
   const MAINER_MIN_HERO_GAMES = 3;
   const MAX_NOMINATIONS_PER_PLAYER = 2;
   const playerNominationCount = new Map<number, number>();
+  const shameablePlayers = activePlayers.filter(acceptsShameNominations);
 
   const addNomination = (
     title: string,
@@ -444,12 +384,12 @@ function calculateNominations(
 
   // 1. Лузер (💀) - worst win rate
   const sortedByWinRate = sortWithTiebreaker(
-    activePlayers,
+    shameablePlayers,
     (p) => p.winRate,
     true // ascending - lowest first
   );
   const loser = sortedByWinRate[0];
-  if (loser.winRate <= 49) {
+  if (loser && loser.winRate <= 49) {
     addNomination("Лузер", "💀", [{
       player: loser,
       value: `${loser.winRate}% WR`,
@@ -458,16 +398,18 @@ function calculateNominations(
 
   // 2. Фидер (⚰️) - most deaths per game
   const sortedByDeaths = sortWithTiebreaker(
-    activePlayers,
+    shameablePlayers,
     (p) => p.totalDeaths / p.totalMatches
   );
   const feeder = sortedByDeaths[0];
-  const deathsPerGame =
-    Math.round((feeder.totalDeaths / feeder.totalMatches) * 10) / 10;
-  addNomination("Фидер", "⚰️", [{
-    player: feeder,
-    value: `${deathsPerGame} смертей/игра`,
-  }]);
+  if (feeder) {
+    const deathsPerGame =
+      Math.round((feeder.totalDeaths / feeder.totalMatches) * 10) / 10;
+    addNomination("Фидер", "⚰️", [{
+      player: feeder,
+      value: `${deathsPerGame} смертей/игра`,
+    }]);
+  }
 
   // 3. Тащер (💪) - best KDA
   const playersWithKda = activePlayers.filter((p) => p.avgKda !== undefined);
@@ -500,20 +442,22 @@ function calculateNominations(
 
   // 5. Бот (🤖) - lowest (kills + assists) per game, only if < 10
   const sortedByParticipation = sortWithTiebreaker(
-    activePlayers,
+    shameablePlayers,
     (p) => (p.totalKills + p.totalAssists) / p.totalMatches,
     true // ascending - lowest first
   );
   const bot = sortedByParticipation[0];
-  const avgKillsAssists =
-    Math.round(((bot.totalKills + bot.totalAssists) / bot.totalMatches) * 10) /
-    10;
-  // Only award if truly low participation (< 10 K+A per game)
-  if (avgKillsAssists < 10) {
-    addNomination("Бот", "🤖", [{
-      player: bot,
-      value: `${avgKillsAssists} K+A за игру`,
-    }]);
+  if (bot) {
+    const avgKillsAssists =
+      Math.round(((bot.totalKills + bot.totalAssists) / bot.totalMatches) * 10) /
+      10;
+    // Only award if truly low participation (< 10 K+A per game)
+    if (avgKillsAssists < 10) {
+      addNomination("Бот", "🤖", [{
+        player: bot,
+        value: `${avgKillsAssists} K+A за игру`,
+      }]);
+    }
   }
 
   // 6. Задрот (🎮) - most matches
@@ -545,7 +489,7 @@ function calculateNominations(
   }
 
   // 8. Клоун (🤡) - plays 70%+ games on one hero with WR < 50% on that hero
-  for (const player of activePlayers) {
+  for (const player of shameablePlayers) {
     const heroNames = heroNamesMap.get(player.playerId) ?? [];
     const groupedHeroes = groupHeroes(player.heroes, heroNames);
 
@@ -749,6 +693,24 @@ function calculateNominations(
     }
   }
 
+  // 20-21. Лучший/Худший дуэт - pairs, so they don't count towards the per-player cap
+  if (synergy) {
+    const { best, worst } = getBestAndWorstDuos(synergy);
+    const addDuoNomination = (
+      title: string,
+      emoji: string,
+      duo: GroupRecord | undefined,
+      candidates: PlayerStats[]
+    ) => {
+      if (!duo) return;
+      const [player, partner] = duo.playerIds.map((id) => candidates.find((p) => p.playerId === id));
+      if (!player || !partner) return;
+      nominations.push({ title, emoji, player, partner, value: `${duo.winRate}% WR, ${duo.matches} игр` });
+    };
+    addDuoNomination("Лучший дуэт", "👯", best, activePlayers);
+    addDuoNomination("Худший дуэт", "💔", worst, shameablePlayers);
+  }
+
   return nominations;
 }
 
@@ -774,13 +736,41 @@ async function fetchAllHeroNames(
 }
 
 /**
- * Formats the full stats message for Telegram (HTML format)
+ * Interactive stats view (inline buttons under /stats): compact one-liners,
+ * or detailed cards paged by STATS_PAGE_SIZE players
  */
-export async function formatStatsMessage(
+export interface StatsView {
+  compact: boolean;
+  page: number; // 0-based, detailed view only
+}
+
+export interface StatsPage {
+  message: string;
+  page: number;  // clamped to the available pages
+  pages: number;
+}
+
+export const STATS_PAGE_SIZE = 5;
+
+/**
+ * Number of pages of active players in a view
+ */
+function getStatsPageCount(activeCount: number, view?: StatsView): number {
+  if (!view || view.compact) return 1;
+  return Math.max(1, Math.ceil(activeCount / STATS_PAGE_SIZE));
+}
+
+/**
+ * Builds the stats message lines: player cards, nominations and team summary.
+ * Without a view all players get detailed cards (scheduled messages and digests).
+ */
+async function buildStatsLines(
   allStats: PlayerStats[],
-  period: StatsPeriod = "today"
-): Promise<string> {
-  const periodTitle = getPeriodTitle(period);
+  range: DateRange,
+  synergy?: SynergyStats,
+  view?: StatsView
+): Promise<string[]> {
+  const periodTitle = range.title;
   const sortedStats = sortByPerformance(allStats);
   const totals = calculateTotals(allStats);
 
@@ -791,15 +781,24 @@ export async function formatStatsMessage(
   // Fetch hero names for all players
   const heroNamesMap = await fetchAllHeroNames(allStats);
 
-  // Build player cards for active players
+  // Build player cards for active players (one page of them in a paged view)
+  const pages = getStatsPageCount(activePlayers.length, view);
+  const pagePlayers = pages > 1 && view
+    ? activePlayers.slice(view.page * STATS_PAGE_SIZE, (view.page + 1) * STATS_PAGE_SIZE)
+    : activePlayers;
   const playerCards: string[] = [];
-  for (const stats of activePlayers) {
-    const heroNames = heroNamesMap.get(stats.playerId) ?? [];
-    playerCards.push(formatPlayerCard(stats, heroNames, period));
+  if (view?.compact) {
+    playerCards.push("", ...activePlayers.map(formatCompactPlayerLine));
+  } else {
+    for (const stats of pagePlayers) {
+      const heroNames = heroNamesMap.get(stats.playerId) ?? [];
+      playerCards.push(formatPlayerCard(stats, heroNames, range));
+    }
   }
 
+  const pageTitle = pages > 1 && view ? ` (стр. ${view.page + 1}/${pages})` : "";
   const lines: string[] = [
-    `<b>Dota Stats for ${periodTitle}</b>`,
+    `<b>Dota Stats for ${periodTitle}</b>${pageTitle}`,
     ...playerCards,
   ];
 
@@ -810,7 +809,7 @@ export async function formatStatsMessage(
   }
 
   // Calculate and add nominations
-  const nominations = calculateNominations(activePlayers, heroNamesMap);
+  const nominations = calculateNominations(activePlayers, heroNamesMap, synergy);
   const nominationsLines = formatNominationsSection(nominations);
   lines.push(...nominationsLines);
 
@@ -833,10 +832,281 @@ export async function formatStatsMessage(
   
   lines.push(`<b>Team Summary:</b> ${summaryData.join(" • ")}`);
 
+  return lines;
+}
+
+/**
+ * Formats the full stats message for Telegram (HTML format)
+ */
+export async function formatStatsMessage(
+  allStats: PlayerStats[],
+  range: DateRange = getPeriodRange("today", DEFAULT_TIME_SETTINGS),
+  synergy?: SynergyStats
+): Promise<string> {
+  const lines = await buildStatsLines(allStats, range, synergy);
   const message = lines.join("\n");
   return maybeAppendCanonStrophe(message, 0.3);
 }
 
+/**
+ * Formats one page of the interactive stats message
+ */
+export async function formatStatsPage(
+  allStats: PlayerStats[],
+  range: DateRange,
+  view: StatsView,
+  synergy?: SynergyStats
+): Promise<StatsPage> {
+  const activeCount = allStats.filter((s) => s.totalMatches > 0).length;
+  const pages = getStatsPageCount(activeCount, view);
+  const page = Math.min(Math.max(0, view.page), pages - 1);
+  const lines = await buildStatsLines(allStats, range, synergy, { ...view, page });
+  const message = lines.join("\n");
+  return { message: maybeAppendCanonStrophe(message, 0.3), page, pages };
+}
+
+export type DigestKind = "weekly" | "monthly";
+
+const DIGEST_LABELS: Record<DigestKind, { header: string; previous: string }> = {
+  weekly: { header: "📅 Итоги недели", previous: "прошлой неделей" },
+  monthly: { header: "🗓 Итоги месяца", previous: "прошлым месяцем" },
+};
+
+/**
+ * Formats a signed difference: "+3", "−2", "±0"
+ */
+function formatDelta(value: number, suffix: string = ""): string {
+  if (value === 0) return `±0${suffix}`;
+  return `${value > 0 ? "+" : "−"}${Math.abs(value)}${suffix}`;
+}
+
+/**
+ * Calculates nominations that only make sense over several days,
+ * comparing each player with their previous period
+ */
+function calculatePeriodNominations(
+  activePlayers: PlayerStats[],
+  previousStats: PlayerStats[]
+): Nomination[] {
+  const nominations: Nomination[] = [];
+  const STREAK_MIN_WINS = 3;
+  const ACTIVE_DAYS_MIN = 2;
+  const PROGRESS_MIN_MATCHES = 3;
+
+  const previousById = new Map(previousStats.map((p) => [p.playerId, p]));
+  const byValue = (getValue: (p: PlayerStats) => number) =>
+    [...activePlayers].sort(
+      (a, b) => getValue(b) - getValue(a) || a.playerName.localeCompare(b.playerName)
+    );
+
+  // Серия (🔥) - longest win streak
+  const streaker = byValue((p) => p.longestWinStreak)[0];
+  if (streaker && streaker.longestWinStreak >= STREAK_MIN_WINS) {
+    nominations.push({
+      title: "Серия",
+      emoji: "🔥",
+      player: streaker,
+      value: `${streaker.longestWinStreak} побед подряд`,
+    });
+  }
+
+  // Без выходных (📆) - most days with at least one match
+  const regular = byValue((p) => p.activeDays)[0];
+  if (regular && regular.activeDays >= ACTIVE_DAYS_MIN) {
+    nominations.push({
+      title: "Без выходных",
+      emoji: "📆",
+      player: regular,
+      value: `${regular.activeDays} дн. в игре`,
+    });
+  }
+
+  // Прогресс (📈) / Регресс (📉) - win rate change vs previous period
+  const winRateChange = (p: PlayerStats) => p.winRate - (previousById.get(p.playerId)?.winRate ?? 0);
+  const comparable = activePlayers.filter(
+    (p) =>
+      p.totalMatches >= PROGRESS_MIN_MATCHES &&
+      (previousById.get(p.playerId)?.totalMatches ?? 0) >= PROGRESS_MIN_MATCHES
+  );
+  const sortedByChange = [...comparable].sort(
+    (a, b) => winRateChange(b) - winRateChange(a) || a.playerName.localeCompare(b.playerName)
+  );
+
+  const riser = sortedByChange[0];
+  if (riser && winRateChange(riser) > 0) {
+    nominations.push({
+      title: "Прогресс",
+      emoji: "📈",
+      player: riser,
+      value: `${formatDelta(winRateChange(riser), "%")} WR`,
+    });
+  }
+
+  const fallers = sortedByChange.filter(acceptsShameNominations);
+  const faller = fallers[fallers.length - 1];
+  if (faller && faller !== riser && winRateChange(faller) < 0) {
+    nominations.push({
+      title: "Регресс",
+      emoji: "📉",
+      player: faller,
+      value: `${formatDelta(winRateChange(faller), "%")} WR`,
+    });
+  }
+
+  return nominations;
+}
+
+/**
+ * Formats team totals compared with the previous period
+ */
+function formatComparisonSection(
+  allStats: PlayerStats[],
+  previousStats: PlayerStats[],
+  previousLabel: string
+): string[] {
+  const current = calculateTotals(allStats);
+  const previous = calculateTotals(previousStats);
+  const currentSeconds = allStats.reduce((sum, s) => sum + s.totalDurationSeconds, 0);
+  const previousSeconds = previousStats.reduce((sum, s) => sum + s.totalDurationSeconds, 0);
+  const hoursDelta = Math.round((currentSeconds - previousSeconds) / 3600);
+
+  const lines = [
+    "",
+    `📊 <b>По сравнению с ${previousLabel}</b>`,
+    "",
+    `Матчей: ${current.totalMatches} (${formatDelta(current.totalMatches - previous.totalMatches)})`,
+    `Активных игроков: ${current.playersPlayed} (${formatDelta(current.playersPlayed - previous.playersPlayed)})`,
+    `Время в игре: ${formatHoursMinutes(currentSeconds)} (${formatDelta(hoursDelta, "ч")})`,
+  ];
+
+  // Win rate only means something if both periods had games
+  if (current.totalMatches > 0 && previous.totalMatches > 0) {
+    lines.push(`Винрейт: ${current.teamWinRate}% (${formatDelta(current.teamWinRate - previous.teamWinRate, "%")})`);
+  }
+
+  return lines;
+}
+
+/**
+ * Formats a weekly/monthly digest: the usual stats for the finished period,
+ * period-only nominations and a comparison with the period before it
+ */
+export async function formatDigestMessage(
+  kind: DigestKind,
+  allStats: PlayerStats[],
+  previousStats: PlayerStats[],
+  range: DateRange,
+  synergy?: SynergyStats
+): Promise<string> {
+  const labels = DIGEST_LABELS[kind];
+  const activePlayers = allStats.filter((s) => s.totalMatches > 0);
+
+  const lines: string[] = [
+    `<b>${labels.header}</b>`,
+    "",
+    ...(await buildStatsLines(allStats, range, synergy)),
+    ...formatNominationsSection(
+      calculatePeriodNominations(activePlayers, previousStats),
+      "🎖 Номинации периода"
+    ),
+    ...formatComparisonSection(allStats, previousStats, labels.previous),
+  ];
+
+  const message = lines.join("\n");
+  return maybeAppendCanonStrophe(message, 0.3);
+}
+
+/**
+ * Everything shown on a personal /me card
+ */
+export interface PlayerDashboard {
+  stats: PlayerStats;            // the player's stats for the range
+  partyStats: PlayerStats[];     // chat roster stats for the same range (may include the player)
+  recentMatches: RecentMatch[];  // latest matches regardless of range, newest first
+  range: DateRange;
+}
+
+const DASHBOARD_TOP_HEROES = 5;
+const DASHBOARD_RECENT_MATCHES = 5;
+
+/**
+ * Formats a comparison value: "58% (пати 51%, +7)"
+ */
+function formatVersusParty(value: number, partyValue: number, suffix: string = ""): string {
+  const rounded = Math.round(partyValue * 10) / 10;
+  const delta = Math.round((value - partyValue) * 10) / 10;
+  return `${value}${suffix} (пати ${rounded}${suffix}, ${formatDelta(delta, suffix)})`;
+}
+
+/**
+ * Formats a personal dashboard: the usual player card plus hero breakdown,
+ * current streak, latest matches and a comparison with the party average
+ */
+export async function formatPlayerDashboard(dashboard: PlayerDashboard): Promise<string> {
+  const { stats, partyStats, recentMatches, range } = dashboard;
+  const heroNames = await getHeroNames(stats.heroes.map((h) => h.heroId));
+
+  const lines: string[] = [
+    `👤 <b>${range.title}</b>`,
+    formatPlayerCard(stats, heroNames, range),
+  ];
+
+  if (stats.totalMatches === 0) {
+    lines.push("", "Нет матчей за период.");
+  }
+
+  // Hero breakdown with per-hero win rate
+  const groupedHeroes = groupHeroes(stats.heroes, heroNames);
+  if (groupedHeroes.length > 1) {
+    lines.push("", "🦸 <b>Герои</b>");
+    for (const hero of groupedHeroes.slice(0, DASHBOARD_TOP_HEROES)) {
+      const games = hero.wins + hero.losses;
+      lines.push(`${hero.name}: ${games} игр, ${Math.round((hero.wins / games) * 100)}% WR`);
+    }
+  }
+
+  // Streak and latest matches are not limited by the period
+  const streak = getCurrentStreak(recentMatches);
+  if (streak && streak.count >= 2) {
+    lines.push(
+      "",
+      streak.isWin
+        ? `🔥 Серия: ${streak.count} побед подряд`
+        : `🧊 Серия: ${streak.count} поражений подряд`
+    );
+  }
+
+  const latest = recentMatches.slice(0, DASHBOARD_RECENT_MATCHES);
+  if (latest.length > 0) {
+    const latestHeroNames = await getHeroNames(latest.map((m) => m.hero_id));
+    lines.push("", "🕹 <b>Последние матчи</b>");
+    latest.forEach((match, index) => {
+      const url = `https://www.opendota.com/matches/${match.match_id}`;
+      lines.push(
+        `${isWin(match) ? "✅" : "❌"} <a href="${url}">${latestHeroNames[index]}</a> ` +
+        `${match.kills}/${match.deaths}/${match.assists} • ${formatMinutes(match.duration)}`
+      );
+    });
+  }
+
+  // Party average over the other active players
+  const others = partyStats.filter((p) => p.playerId !== stats.playerId && p.totalMatches > 0);
+  if (stats.totalMatches > 0 && others.length > 0) {
+    const average = (getValue: (p: PlayerStats) => number, players: PlayerStats[] = others) =>
+      players.reduce((sum, p) => sum + getValue(p), 0) / players.length;
+    const othersWithKda = others.filter((p) => p.avgKda !== undefined);
+
+    lines.push("", "📊 <b>Против среднего по пати</b>");
+    lines.push(`Винрейт: ${formatVersusParty(stats.winRate, average((p) => p.winRate), "%")}`);
+    if (stats.avgKda !== undefined && othersWithKda.length > 0) {
+      lines.push(`KDA: ${formatVersusParty(stats.avgKda, average((p) => p.avgKda ?? 0, othersWithKda))}`);
+    }
+    lines.push(`Матчей: ${formatVersusParty(stats.totalMatches, average((p) => p.totalMatches))}`);
+  }
+
+  return lines.join("\n");
+}
+
 /**
  * Strips HTML tags for console output
  */
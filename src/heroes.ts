@@ -58,6 +58,13 @@ export async function getHeroNames(heroIds: number[]): Promise<string[]> {
   return heroIds.map((id) => heroes.get(id)?.localized_name ?? "Unknown");
 }
 
+/**
+ * Fills the heroes cache without calling the API (offline tests)
+ */
+export function setHeroesCache(heroes: Hero[]): void {
+  heroesCache = new Map(heroes.map((hero) => [hero.id, hero]));
+}
+
 /**
  * Clears the heroes cache (useful for testing)
  */
@@ -1,11 +1,43 @@
 import cron from "node-cron";
-import { config, PLAYER_IDS } from "./config.js";
-import { fetchRecentMatches, fetchPlayerProfile, fetchPlayerTotals } from "./opendota.js";
-import { calculateStats, type PlayerStats, type StatsPeriod } from "./stats.js";
+import type { Bot } from "grammy";
+import { getPlayerIds } from "./config.js";
+import {
+  ensureMainChat,
+  getActiveChats,
+  getChatsWithFeature,
+  getChatPlayerIds,
+  getChatTimeSettings,
+  type ChatSettings,
+} from "./chats.js";
+import { startMatchHistorySync, getMatchHistoryStats } from "./match-history.js";
+import { fetchAllPlayersStats } from "./player-stats.js";
+import { getPartySynergy } from "./synergy.js";
+import type { StatsPeriod } from "./stats.js";
 import { createBot, sendMessage, setupCommands, startBot } from "./bot.js";
-import { formatStatsMessage, stripHtml } from "./formatter.js";
+import {
+  formatDigestMessage,
+  formatStatsMessage,
+  formatStatsPage,
+  stripHtml,
+  type DigestKind,
+  type StatsPage,
+  type StatsView,
+} from "./formatter.js";
 import { startLfgPolling, getLfgStats } from "./lfg.js";
+import { startMatchCardPolling, getMatchCardStats } from "./match-cards.js";
 import { checkAndSendBirthdayGreetings } from "./birthday.js";
+import { formatRoastMessage, getRoastOfTheDay } from "./roast.js";
+import { getLlmStats } from "./llm.js";
+import { getOpenDotaStats } from "./opendota.js";
+import { getOpenDotaSchedulerStats, runInBackground } from "./opendota-scheduler.js";
+import { flushAllStores } from "./storage.js";
+import {
+  DEFAULT_TIME_SETTINGS,
+  getLocalClockTime,
+  getLogicalDate,
+  getPeriodRange,
+  type DateRange,
+} from "./time.js";
 
 // Health check configuration
 const HEALTH_CHECK_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
@@ -42,11 +74,21 @@ function logHealthCheck(): void {
   const memUsage = process.memoryUsage();
   const heapUsedMB = Math.round(memUsage.heapUsed / 1024 / 1024);
   const lfgStats = getLfgStats();
+  const cardStats = getMatchCardStats();
+  const historyStats = getMatchHistoryStats();
+  const openDotaStats = getOpenDotaStats();
+  const schedulerStats = getOpenDotaSchedulerStats();
+  const llmStats = getLlmStats();
   
   console.log(
     `[HEALTH] ✅ Bot alive | Uptime: ${formatUptime(uptime)} | ` +
     `Commands: ${commandsReceived} | Daily stats sent: ${dailyStatsSent} | ` +
     `LFG polls: ${lfgStats.pollCount} | LFG notifications: ${lfgStats.notificationsSent} | ` +
+    `Match cards: ${cardStats.cardsSent} (${cardStats.pollCount} polls) | ` +
+    `History: ${historyStats.matches} matches/${historyStats.players} players (+${historyStats.ingested}) | ` +
+    `OpenDota: ${schedulerStats.requests} requests, ${openDotaStats.coalesced} coalesced, ` +
+    `${schedulerStats.rateLimited} rate-limited, ${schedulerStats.queued} queued | ` +
+    `LLM: ${llmStats.requests} requests, ${llmStats.tokens} tokens, ${llmStats.failures} failed | ` +
     `Memory: ${heapUsedMB}MB`
   );
 }
@@ -66,152 +108,195 @@ function incrementDailyStatsCounter(): void {
 }
 
 /**
- * Fetches player profile data from OpenDota API
- * Returns name and rank tier
+ * Fetches stats and returns formatted message for a given date range
+ * Uses the chat's roster and timezone when a chat is given, otherwise all players and bot defaults
  */
-async function getPlayerProfileData(playerId: number): Promise<{ name: string; rank: number | null }> {
-  try {
-    const playerData = await fetchPlayerProfile(playerId);
-    return {
-      name: playerData.profile?.personaname || String(playerId),
-      rank: playerData.rank_tier ?? null,
-    };
-  } catch (error) {
-    console.warn(`Failed to fetch profile for player ${playerId}:`, error);
-    return { name: String(playerId), rank: null };
-  }
+async function getFormattedStats(range: DateRange, chatId?: string): Promise<string> {
+  const playerIds = chatId ? getChatPlayerIds(chatId) : getPlayerIds();
+  const timeSettings = getChatTimeSettings(chatId);
+  console.log(`Fetching stats for ${range.title} for ${playerIds.length} players...`);
+  const allStats = await fetchAllPlayersStats(playerIds, range, timeSettings);
+  // History was just synced by fetchAllPlayersStats
+  const synergy = getPartySynergy(playerIds, range);
+  console.log("Fetching hero names...");
+  return await formatStatsMessage(allStats, range, synergy);
 }
 
 /**
- * Fetches average APM for a player from OpenDota totals
- * Note: APM is only available for parsed matches, so we fetch all-time average
- * (filtering by date returns empty data since recent matches are rarely parsed)
- * Returns undefined if APM data is not available
+ * Fetches stats and formats one page of the interactive view (stats commands and their buttons)
  */
-async function getPlayerAvgApm(playerId: number): Promise<number | undefined> {
-  try {
-    // Fetch all-time totals (no date filter) because APM requires parsed matches
-    const totals = await fetchPlayerTotals(playerId);
-    const apmTotal = totals.find((t) => t.field === "actions_per_min");
-    
-    if (apmTotal && apmTotal.n > 0) {
-      return Math.round(apmTotal.sum / apmTotal.n);
-    }
-    return undefined;
-  } catch (error) {
-    console.warn(`Failed to fetch APM for player ${playerId}:`, error);
-    return undefined;
-  }
+async function getStatsPage(range: DateRange, chatId: string, view: StatsView): Promise<StatsPage> {
+  const playerIds = getChatPlayerIds(chatId);
+  const allStats = await fetchAllPlayersStats(playerIds, range, getChatTimeSettings(chatId));
+  const synergy = getPartySynergy(playerIds, range);
+  return formatStatsPage(allStats, range, view, synergy);
 }
 
 /**
- * Returns number of days to fetch matches for based on period
- * Returns undefined to use default /recentMatches endpoint (faster, limited to 20)
+ * Sends daily stats to a chat (used by the scheduler)
  */
-function getDaysForPeriod(period: StatsPeriod): number | undefined {
-  switch (period) {
-    case "today":
-    case "yesterday":
-      return undefined; // Use fast /recentMatches (20 is enough for 1-2 days)
-    case "week":
-      return 8; // Extra day margin for timezone edge cases
-    case "month":
-      return 32; // Extra day margin for timezone edge cases
+async function sendDailyStats(bot: Bot, chatId: string): Promise<void> {
+  console.log(`[${new Date().toISOString()}] Sending daily stats to ${chatId}...`);
+
+  try {
+    const range = getPeriodRange("yesterday", getChatTimeSettings(chatId));
+    const message = await getFormattedStats(range, chatId);
+
+    // Print to console
+    console.log("\n" + stripHtml(message) + "\n");
+
+    // Send to Telegram
+    console.log("Sending message to Telegram...");
+    await sendMessage(bot, chatId, message);
+    console.log("Message sent successfully!");
+    incrementDailyStatsCounter();
+  } catch (error) {
+    console.error(`[ERROR] Failed to send daily stats to ${chatId}:`, error);
   }
 }
 
+// Finished period each digest covers
+const DIGEST_PERIODS: Record<DigestKind, StatsPeriod> = {
+  weekly: "lastWeek",
+  monthly: "lastMonth",
+};
+
 /**
- * Fetches stats for all configured players for a given period
+ * Sends a weekly/monthly digest for the period that just ended, compared with the one before
  */
-async function fetchAllPlayersStats(
-  period: StatsPeriod = "today"
-): Promise<PlayerStats[]> {
-  const days = getDaysForPeriod(period);
-  
-  const statsPromises = PLAYER_IDS.map(async (playerId) => {
-    console.log(`Fetching data for player ${playerId}...`);
-    
-    // Fetch profile, matches, and APM in parallel
-    const [profileData, matches, avgApm] = await Promise.all([
-      getPlayerProfileData(playerId),
-      fetchRecentMatches(playerId, days),
-      getPlayerAvgApm(playerId),
-    ]);
-    
-    console.log(`  Player: ${profileData.name}, Found ${matches.length} recent matches, APM: ${avgApm ?? "N/A"}, Rank: ${profileData.rank ?? "N/A"}`);
-    return calculateStats(playerId, profileData.name, matches, period, avgApm, profileData.rank);
-  });
+async function sendDigest(bot: Bot, chatId: string, kind: DigestKind): Promise<void> {
+  console.log(`[${new Date().toISOString()}] Sending ${kind} digest to ${chatId}...`);
 
-  return Promise.all(statsPromises);
+  try {
+    const timeSettings = getChatTimeSettings(chatId);
+    const playerIds = getChatPlayerIds(chatId);
+    const range = getPeriodRange(DIGEST_PERIODS[kind], timeSettings);
+    // The same period counted from the start of this one is the period before it
+    const previousRange = getPeriodRange(DIGEST_PERIODS[kind], timeSettings, range.from * 1000);
+
+    // Sequential so the second pass reuses cached profiles and APM
+    const allStats = await fetchAllPlayersStats(playerIds, range, timeSettings);
+    const previousStats = await fetchAllPlayersStats(playerIds, previousRange, timeSettings);
+    const synergy = getPartySynergy(playerIds, range);
+    const message = await formatDigestMessage(kind, allStats, previousStats, range, synergy);
+
+    console.log("\n" + stripHtml(message) + "\n");
+    await sendMessage(bot, chatId, message);
+    console.log(`${kind} digest sent successfully!`);
+  } catch (error) {
+    console.error(`[ERROR] Failed to send ${kind} digest to ${chatId}:`, error);
+  }
 }
 
 /**
- * Fetches stats and returns formatted message for a given period
+ * Posts the daily stats and, on Mondays and the 1st, the weekly/monthly digests
+ * (in that order, so the daily message comes first)
  */
-async function getFormattedStats(period: StatsPeriod = "today"): Promise<string> {
-  console.log(`Fetching ${period} stats for ${PLAYER_IDS.length} players...`);
-  const allStats = await fetchAllPlayersStats(period);
-  console.log("Fetching hero names...");
-  return await formatStatsMessage(allStats, period);
+async function sendScheduledStats(bot: Bot, chat: ChatSettings): Promise<void> {
+  const today = getLogicalDate(Date.now(), getChatTimeSettings(chat.chatId));
+
+  if (chat.features.dailyStats) {
+    await sendDailyStats(bot, chat.chatId);
+  }
+  if (chat.features.weeklyDigest && today.day === 1) {
+    await sendDigest(bot, chat.chatId, "weekly");
+  }
+  if (chat.features.monthlyDigest && today.date === 1) {
+    await sendDigest(bot, chat.chatId, "monthly");
+  }
 }
 
 /**
- * Sends daily stats to Telegram (used by cron job)
+ * Posts the roast of the day (the same one /roast shows that day)
  */
-async function sendDailyStats(): Promise<void> {
-  console.log(`[${new Date().toISOString()}] Sending daily stats...`);
+async function sendScheduledRoast(bot: Bot, chatId: string): Promise<void> {
+  console.log(`[${new Date().toISOString()}] Sending roast of the day to ${chatId}...`);
 
   try {
-    const message = await getFormattedStats("yesterday");
+    const roast = await getRoastOfTheDay(chatId);
+    await sendMessage(bot, chatId, formatRoastMessage(roast));
+    console.log("Roast of the day sent successfully!");
+  } catch (error) {
+    console.error(`[ERROR] Failed to send roast of the day to ${chatId}:`, error);
+  }
+}
 
-    // Print to console
-    console.log("\n" + stripHtml(message) + "\n");
+/**
+ * Runs per-chat scheduled jobs. Ticks every minute and fires jobs whose HH:MM
+ * (in the chat's timezone) matches the chat settings, so schedule changes apply without a restart.
+ */
+function runScheduledJobs(bot: Bot): void {
+  const now = Date.now();
 
-    // Send to Telegram
-    console.log("Sending message to Telegram...");
-    const bot = await createBot();
-    await sendMessage(bot, message);
-    console.log("Message sent successfully!");
-    incrementDailyStatsCounter();
-  } catch (error) {
-    console.error("[ERROR] Failed to send daily stats:", error);
+  for (const chat of getActiveChats()) {
+    const time = getLocalClockTime(now, getChatTimeSettings(chat.chatId).timeZone);
+    if (chat.dailyStatsTime === time) {
+      sendScheduledStats(bot, chat);
+    }
+    if (chat.features.birthdays && chat.birthdaysTime === time) {
+      checkAndSendBirthdayGreetings(bot, chat.chatId);
+    }
+    if (chat.features.roast && chat.roastTime === time) {
+      sendScheduledRoast(bot, chat.chatId);
+    }
   }
 }
 
 /**
- * Main entry point: Set up cron job and bot commands
- * Cron expression: 0 4 * * * = 04:00 UTC = 07:00 MSK
+ * Main entry point: Set up scheduler and bot commands
  */
 async function main(): Promise<void> {
   console.log("🤖 Pesiki Bot starting...");
   console.log(`[STARTUP] Environment: ${process.env.NODE_ENV || "development"}`);
-  console.log(`[STARTUP] Timezone: ${process.env.TZ || "not set (using system default)"}`);
-  console.log(`[STARTUP] Configured players: ${PLAYER_IDS.length}`);
+  console.log(
+    `[STARTUP] Default timezone: ${DEFAULT_TIME_SETTINGS.timeZone}, day starts at ${DEFAULT_TIME_SETTINGS.dayStartHour}:00`
+  );
+  console.log(`[STARTUP] Configured players: ${getPlayerIds().length}`);
+
+  // Make sure the TELEGRAM_CHAT_ID chat is in the registry
+  ensureMainChat();
+  console.log(`[STARTUP] Active chats: ${getActiveChats().length}`);
   console.log(`[STARTUP] Health check interval: ${HEALTH_CHECK_INTERVAL_MS / 1000}s`);
 
   // Create bot instance
   const bot = await createBot();
 
   // Set up /stats command handler with callback to track commands
-  setupCommands(bot, getFormattedStats, incrementCommandCounter);
+  setupCommands(bot, getStatsPage, incrementCommandCounter);
+
+  // Keep the local match history up to date in the background
+  startMatchHistorySync();
 
   // Start LFG polling (detect when players launch Dota 2)
-  if (config.telegramChatId) {
-    startLfgPolling(bot, config.telegramChatId);
-  }
+  startLfgPolling(bot);
 
-  // 0 6 = 0 6 MSK for some reason in railway
-  console.log("📅 Daily stats scheduled for 06:00 MSK (03:00 UTC)");
-  cron.schedule("0 6 * * *", () => {
-    sendDailyStats();
-  });
+  // Post result cards when party matches finish
+  startMatchCardPolling(bot);
 
-  // Birthday greetings at 19:00 MSK
-  console.log("🎂 Birthday greetings scheduled for 19:00 MSK");
-  cron.schedule("0 19 * * *", () => {
-    checkAndSendBirthdayGreetings(bot);
+  // Per-chat daily stats and birthday greetings (defaults: 06:00 and 19:00 chat time)
+  for (const chat of getActiveChats()) {
+    console.log(
+      `📅 Chat ${chat.chatId}: daily stats ${chat.features.dailyStats ? chat.dailyStatsTime : "off"}, ` +
+      `weekly/monthly digests ${chat.features.weeklyDigest ? "on" : "off"}/${chat.features.monthlyDigest ? "on" : "off"}, ` +
+      `birthdays ${chat.features.birthdays ? chat.birthdaysTime : "off"}, ` +
+      `roast ${chat.features.roast ? chat.roastTime : "off"} ` +
+      `(${getChatTimeSettings(chat.chatId).timeZone})`
+    );
+  }
+  cron.schedule("* * * * *", () => {
+    // Scheduled posts have no one waiting on them, so commands go first
+    runInBackground(() => runScheduledJobs(bot));
   });
 
+  // Persist pending state before the container stops
+  for (const signal of ["SIGINT", "SIGTERM"] as const) {
+    process.once(signal, () => {
+      console.log(`[SHUTDOWN] ${signal} received, flushing state...`);
+      flushAllStores();
+      process.exit(0);
+    });
+  }
+
   // Start periodic health check logging
   setInterval(logHealthCheck, HEALTH_CHECK_INTERVAL_MS);
   console.log(`[STARTUP] Health check logging started (every ${HEALTH_CHECK_INTERVAL_MS / 1000 / 60} minutes)`);
@@ -219,7 +304,9 @@ async function main(): Promise<void> {
   // Send stats immediately if RUN_NOW environment variable is set (for testing)
   if (process.env.RUN_NOW === "true") {
     console.log("🚀 RUN_NOW=true detected, sending stats immediately...");
-    await sendDailyStats();
+    for (const chat of getChatsWithFeature("dailyStats")) {
+      await sendDailyStats(bot, chat.chatId);
+    }
   }
 
   // Log initial health check before starting blocking bot polling
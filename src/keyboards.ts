@@ -0,0 +1,179 @@
+/**
+ * Inline keyboards and their callback data.
+ *
+ * Callback data is "<action>:<arg>:<arg>..." and must fit Telegram's 64-byte limit.
+ * Buttons carry everything needed to rebuild the message, so handlers don't need
+ * any server-side state and keep working after a restart.
+ */
+import { InlineKeyboard } from "grammy";
+import type { StatsView } from "./formatter.js";
+import { DEFAULT_PERSONA_ID, getPersona } from "./personas.js";
+
+const MAX_CALLBACK_DATA_BYTES = 64;
+
+export type CallbackAction = "analyze" | "reanalyze" | "stats";
+
+/**
+ * Encodes callback data. Throws if it exceeds the Telegram limit.
+ */
+export function encodeCallback(action: CallbackAction, ...args: (string | number)[]): string {
+  const data = [action, ...args].join(":");
+  if (Buffer.byteLength(data) > MAX_CALLBACK_DATA_BYTES) {
+    throw new Error(`Callback data too long: ${data}`);
+  }
+  return data;
+}
+
+/**
+ * Decodes callback data into the action and its arguments.
+ * The last argument keeps any further ":" so free-form values can go last.
+ */
+export function decodeCallback(data: string, argCount: number): { action: string; args: string[] } {
+  const [action, ...parts] = data.split(":");
+  const args = parts.length > argCount
+    ? [...parts.slice(0, argCount - 1), parts.slice(argCount - 1).join(":")]
+    : parts;
+  return { action, args };
+}
+
+// ============================================================================
+// Match cards
+// ============================================================================
+
+const CARD_BUTTONS: [label: string, personaId: string][] = [
+  ["🔬 Разбор", "coach"],
+  ["💊 Копиум", "copium"],
+];
+
+/**
+ * Разбор/Копиум buttons under a post-match card: "analyze:<persona>:<matchId>"
+ */
+export function buildMatchCardKeyboard(matchId: number): InlineKeyboard {
+  const keyboard = new InlineKeyboard();
+  for (const [label, personaId] of CARD_BUTTONS) {
+    keyboard.text(label, encodeCallback("analyze", personaId, matchId));
+  }
+  return keyboard;
+}
+
+// ============================================================================
+// Analysis messages
+// ============================================================================
+
+/**
+ * Whose game an analysis button reviews: the whole match, the user who pressed it, or a Steam ID
+ */
+export type AnalysisTarget = "all" | "me" | number;
+
+export interface AnalysisButtonState {
+  matchId: number;
+  personaId: string;
+  focusSteamId?: number;
+}
+
+/**
+ * "reanalyze:<persona>:<matchId>:<target>:<fresh>"
+ */
+export function encodeReanalyze(
+  personaId: string,
+  matchId: number,
+  target: AnalysisTarget,
+  fresh: boolean = false,
+): string {
+  return encodeCallback("reanalyze", personaId, matchId, target, fresh ? 1 : 0);
+}
+
+export function parseReanalyze(args: string[]): {
+  personaId: string;
+  matchId: number;
+  target: AnalysisTarget;
+  fresh: boolean;
+} | null {
+  const [personaId, matchIdArg, targetArg, freshArg] = args;
+  const matchId = Number(matchIdArg);
+  if (!personaId || !Number.isInteger(matchId) || matchId <= 0) return null;
+  const target: AnalysisTarget = targetArg === "me" || targetArg === "all" ? targetArg : Number(targetArg);
+  if (typeof target === "number" && !Number.isInteger(target)) return null;
+  return { personaId, matchId, target, fresh: freshArg === "1" };
+}
+
+/**
+ * Buttons under an analysis: copium/normal version, re-analyze, only-my-game/whole match and OpenDota
+ */
+export function buildAnalysisKeyboard(state: AnalysisButtonState): InlineKeyboard {
+  const { matchId, personaId, focusSteamId } = state;
+  const target: AnalysisTarget = focusSteamId ?? "all";
+  const isCopium = getPersona(personaId).id === "copium";
+
+  return new InlineKeyboard()
+    .text(
+      isCopium ? "🔬 Обычная версия" : "💊 Копиум-версия",
+      encodeReanalyze(isCopium ? DEFAULT_PERSONA_ID : "copium", matchId, target),
+    )
+    .text("🔄 Заново", encodeReanalyze(personaId, matchId, target, true))
+    .row()
+    .text(
+      focusSteamId ? "👥 Весь матч" : "👤 Только мой разбор",
+      encodeReanalyze(personaId, matchId, focusSteamId ? "all" : "me"),
+    )
+    .url("🔗 OpenDota", `https://www.opendota.com/matches/${matchId}`);
+}
+
+// ============================================================================
+// Stats messages
+// ============================================================================
+
+// Period switch buttons: [label, period argument as accepted by parsePeriod]
+const STATS_PERIOD_BUTTONS: [label: string, period: string][] = [
+  ["Сегодня", "today"],
+  ["Вчера", "yesterday"],
+  ["Неделя", "week"],
+  ["Месяц", "month"],
+];
+
+/**
+ * "stats:<c|d>:<page>:<period>" - the period goes last, it may be a free-form argument
+ */
+function encodeStats(period: string, view: StatsView): string {
+  return encodeCallback("stats", view.compact ? "c" : "d", view.page, period);
+}
+
+export function parseStats(args: string[]): { period: string; view: StatsView } | null {
+  const [mode, pageArg, period] = args;
+  const page = Number(pageArg);
+  if ((mode !== "c" && mode !== "d") || !Number.isInteger(page) || page < 0 || !period) return null;
+  return { period, view: { compact: mode === "c", page } };
+}
+
+/**
+ * Buttons under a stats message: period switch, compact/detailed toggle and paging.
+ * Periods too long for callback data only get the period switch.
+ */
+export function buildStatsKeyboard(period: string, view: StatsView, pages: number): InlineKeyboard {
+  const keyboard = new InlineKeyboard();
+  for (const [label, value] of STATS_PERIOD_BUTTONS) {
+    keyboard.text(value === period ? `• ${label} •` : label, encodeStats(value, { ...view, page: 0 }));
+  }
+
+  try {
+    const row: [string, string][] = [];
+    if (!view.compact && view.page > 0) {
+      row.push(["◀️", encodeStats(period, { ...view, page: view.page - 1 })]);
+    }
+    row.push([
+      view.compact ? "📖 Подробно" : "📋 Кратко",
+      encodeStats(period, { compact: !view.compact, page: 0 }),
+    ]);
+    if (!view.compact && view.page < pages - 1) {
+      row.push(["▶️", encodeStats(period, { ...view, page: view.page + 1 })]);
+    }
+    keyboard.row();
+    for (const [label, data] of row) {
+      keyboard.text(label, data);
+    }
+  } catch {
+    console.warn(`[KEYBOARD] Stats period too long for buttons: ${period}`);
+  }
+
+  return keyboard;
+}
@@ -4,7 +4,9 @@ import {
   isPlayingDota,
   type SteamPlayer,
 } from "./steam.js";
-import { config, PLAYER_IDS } from "./config.js";
+import { config } from "./config.js";
+import { getChatsWithFeature, getChatPlayerIds } from "./chats.js";
+import { openStore } from "./storage.js";
 
 // Polling interval: check every 3 minutes
 const POLLING_INTERVAL_MS = 3 * 60 * 1000;
@@ -12,11 +14,11 @@ const POLLING_INTERVAL_MS = 3 * 60 * 1000;
 // Cooldown: don't notify about the same player more than once per 2 hours
 const NOTIFICATION_COOLDOWN_MS = 2 * 60 * 60 * 1000;
 
-// Track last notification time for each player
-const lastNotificationTime = new Map<number, number>();
+// Track last notification time for each player (persisted so cooldowns survive restarts)
+const lastNotificationTime = openStore<number>("lfg-notifications");
 
 // Track previous "in Dota" state to detect transitions
-const wasPlayingDota = new Map<number, boolean>();
+const wasPlayingDota = openStore<boolean>("lfg-state");
 
 // Warm-up flag: first poll only records state, doesn't send notifications
 // This prevents spam when bot restarts while players are already in Dota
@@ -40,7 +42,7 @@ export function getLfgStats(): {
  * Checks if a player notification is on cooldown
  */
 function isOnCooldown(playerId: number): boolean {
-  const lastTime = lastNotificationTime.get(playerId);
+  const lastTime = lastNotificationTime.get(String(playerId));
   if (!lastTime) return false;
   return Date.now() - lastTime < NOTIFICATION_COOLDOWN_MS;
 }
@@ -49,7 +51,7 @@ function isOnCooldown(playerId: number): boolean {
  * Records that a notification was sent for a player
  */
 function recordNotification(playerId: number): void {
-  lastNotificationTime.set(playerId, Date.now());
+  lastNotificationTime.set(String(playerId), Date.now(), NOTIFICATION_COOLDOWN_MS);
   notificationsSent++;
 }
 
@@ -123,14 +125,29 @@ function escapeHtml(text: string): string {
     .replace(/>/g, "&gt;");
 }
 
+/**
+ * Maps each polled player to the LFG-enabled chats that track them
+ */
+function getLfgRecipients(): Map<number, string[]> {
+  const recipients = new Map<number, string[]>();
+  for (const chat of getChatsWithFeature("lfg")) {
+    for (const playerId of getChatPlayerIds(chat.chatId)) {
+      recipients.set(playerId, [...(recipients.get(playerId) ?? []), chat.chatId]);
+    }
+  }
+  return recipients;
+}
+
 /**
  * Checks all players and sends notifications for those who just launched Dota
  */
-async function checkPlayersAndNotify(bot: Bot, chatId: string): Promise<void> {
+async function checkPlayersAndNotify(bot: Bot): Promise<void> {
   pollCount++;
 
   try {
-    const players = await getPlayerSummaries(PLAYER_IDS, config.steamApiKey);
+    // Resolved on every poll so roster and chat changes apply without a restart
+    const recipients = getLfgRecipients();
+    const players = await getPlayerSummaries([...recipients.keys()], config.steamApiKey);
 
     // During warm-up phase, only record current state without sending notifications
     // This prevents spam when bot restarts while players are already in Dota
@@ -138,11 +155,11 @@ async function checkPlayersAndNotify(bot: Bot, chatId: string): Promise<void> {
       console.log("[LFG] Warm-up phase: recording initial player states");
       for (const [playerId, player] of players) {
         const isInDota = isPlayingDota(player);
-        wasPlayingDota.set(playerId, isInDota);
+        wasPlayingDota.set(String(playerId), isInDota);
         if (isInDota) {
           // Also set cooldown for players already in Dota to prevent immediate notification
           // if they briefly disconnect and reconnect
-          lastNotificationTime.set(playerId, Date.now());
+          lastNotificationTime.set(String(playerId), Date.now(), NOTIFICATION_COOLDOWN_MS);
           console.log(
             `[LFG] ${player.personaname} already in Dota, setting cooldown`,
           );
@@ -155,7 +172,13 @@ async function checkPlayersAndNotify(bot: Bot, chatId: string): Promise<void> {
 
     for (const [playerId, player] of players) {
       const isInDota = isPlayingDota(player);
-      const wasInDota = wasPlayingDota.get(playerId) ?? false;
+      const wasInDota = wasPlayingDota.get(String(playerId));
+
+      // Newly tracked player: record state first, like the warm-up does
+      if (wasInDota === undefined) {
+        wasPlayingDota.set(String(playerId), isInDota);
+        continue;
+      }
 
       // Detect transition: not in Dota -> in Dota
       if (isInDota && !wasInDota) {
@@ -166,21 +189,24 @@ async function checkPlayersAndNotify(bot: Bot, chatId: string): Promise<void> {
         // Check cooldown before sending notification
         if (!isOnCooldown(playerId)) {
           console.log(`[LFG] Sending notification for ${player.personaname}`);
-          try {
-            await bot.api.sendMessage(chatId, formatLfgMessage(player), {
-              parse_mode: "HTML",
-            });
-            recordNotification(playerId);
-          } catch (error) {
-            console.error(
-              `[LFG] Failed to send notification for ${player.personaname}:`,
-              error,
-            );
+          const message = formatLfgMessage(player);
+          for (const chatId of recipients.get(playerId) ?? []) {
+            try {
+              await bot.api.sendMessage(chatId, message, {
+                parse_mode: "HTML",
+              });
+            } catch (error) {
+              console.error(
+                `[LFG] Failed to send notification for ${player.personaname} to ${chatId}:`,
+                error,
+              );
+            }
           }
+          recordNotification(playerId);
         } else {
           const remainingMs =
             NOTIFICATION_COOLDOWN_MS -
-            (Date.now() - (lastNotificationTime.get(playerId) ?? 0));
+            (Date.now() - (lastNotificationTime.get(String(playerId)) ?? 0));
           const remainingMin = Math.round(remainingMs / 60000);
           console.log(
             `[LFG] ${player.personaname} is on cooldown (${remainingMin} min remaining)`,
@@ -189,7 +215,7 @@ async function checkPlayersAndNotify(bot: Bot, chatId: string): Promise<void> {
       }
 
       // Update state
-      wasPlayingDota.set(playerId, isInDota);
+      wasPlayingDota.set(String(playerId), isInDota);
     }
   } catch (error) {
     console.error("[LFG] Error checking player statuses:", error);
@@ -198,10 +224,10 @@ async function checkPlayersAndNotify(bot: Bot, chatId: string): Promise<void> {
 
 /**
  * Starts the LFG polling loop
+ * Notifications go to every chat with LFG enabled that tracks the player
  * @param bot - Telegram bot instance
- * @param chatId - Chat ID to send notifications to
  */
-export function startLfgPolling(bot: Bot, chatId: string): void {
+export function startLfgPolling(bot: Bot): void {
   if (!config.steamApiKey) {
     console.warn(
       "[LFG] ⚠️ Steam API key not configured, LFG notifications disabled",
@@ -215,13 +241,13 @@ export function startLfgPolling(bot: Bot, chatId: string): void {
   console.log(
     `[LFG] Notification cooldown: ${NOTIFICATION_COOLDOWN_MS / 1000 / 60 / 60} hours`,
   );
-  console.log(`[LFG] Tracking ${PLAYER_IDS.length} players`);
+  console.log(`[LFG] Tracking ${getLfgRecipients().size} players`);
 
   // Initial check
-  checkPlayersAndNotify(bot, chatId);
+  checkPlayersAndNotify(bot);
 
   // Start polling loop
   setInterval(() => {
-    checkPlayersAndNotify(bot, chatId);
+    checkPlayersAndNotify(bot);
   }, POLLING_INTERVAL_MS);
 }
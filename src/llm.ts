@@ -0,0 +1,322 @@
+/**
+ * LLM gateway: every AI feature (analysis, follow-ups, birthday greetings, meta lineups, roasts)
+ * calls complete() instead of creating its own OpenAI client.
+ *
+ * The gateway picks the model per feature, applies timeouts, retries transient errors
+ * and records token usage and cost per feature, per Telegram user and per chat in
+ * the persistent "llm-usage" store (quota.ts enforces limits on top of it).
+ *
+ * Providers:
+ * - openai (default): OpenAI-compatible API (OPENAI_API_KEY, OPENAI_BASE_URL, HTTPS_PROXY)
+ * - stub: deterministic canned replies, no network. LLM_PROVIDER=stub or setLlmProvider(stubProvider)
+ */
+import OpenAI from "openai";
+import { getOpenAIFetch } from "./proxy.js";
+import { openStore } from "./storage.js";
+import { DEFAULT_TIME_SETTINGS, getLogicalDateKey } from "./time.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type LlmFeature = "analyze" | "follow-up" | "birthday" | "meta" | "roast";
+
+export interface LlmMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LlmRequest {
+  feature: LlmFeature;
+  messages: LlmMessage[];
+  maxTokens?: number;
+  temperature?: number; // ignored by gpt-5 models
+  userId?: number;      // Telegram user who triggered the call, for per-user accounting
+  chatId?: number;      // chat it was triggered in, for the chat budget
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LlmCompletion {
+  text: string;
+  model: string;
+  usage: LlmUsage;
+}
+
+export interface LlmProvider {
+  name: string;
+  complete(request: LlmRequest, model: string, timeoutMs: number): Promise<LlmCompletion>;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const DEFAULT_MODEL = process.env.OPENAI_MODEL || "gpt-5.2";
+
+const FEATURE_TIMEOUT_MS: Record<LlmFeature, number> = {
+  analyze: 120000,    // long context + long answer
+  "follow-up": 90000,
+  birthday: 60000,
+  meta: 60000,
+  roast: 60000,
+};
+
+const MAX_ATTEMPTS = 3;
+const INITIAL_RETRY_DELAY_MS = 2000;
+
+// Approximate list prices, USD per 1M tokens [input, output]. Unknown models count as free.
+const MODEL_PRICES: Record<string, [input: number, output: number]> = {
+  "gpt-5.2": [1.75, 14],
+  "gpt-5": [1.25, 10],
+  "gpt-5-mini": [0.25, 2],
+  "gpt-4o": [2.5, 10],
+  "gpt-4o-mini": [0.15, 0.6],
+};
+
+// Daily usage per scope is kept this long
+const USAGE_TTL_MS = 90 * 24 * 60 * 60 * 1000;
+
+/**
+ * Model for a feature: OPENAI_MODEL_<FEATURE> (e.g. OPENAI_MODEL_BIRTHDAY), else OPENAI_MODEL
+ */
+export function getModel(feature: LlmFeature): string {
+  const envName = `OPENAI_MODEL_${feature.toUpperCase().replace(/-/g, "_")}`;
+  return process.env[envName] || DEFAULT_MODEL;
+}
+
+// ============================================================================
+// Providers
+// ============================================================================
+
+export const openAIProvider: LlmProvider = {
+  name: "openai",
+  async complete(request, model, timeoutMs) {
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new Error("OPENAI_API_KEY not configured");
+    }
+    const openai = new OpenAI({
+      apiKey,
+      baseURL: process.env.OPENAI_BASE_URL,
+      timeout: timeoutMs,
+      maxRetries: 0, // retried by the gateway
+      fetch: await getOpenAIFetch(),
+    });
+    const isGpt5 = model.startsWith("gpt-5");
+
+    const response = await openai.chat.completions.create({
+      model,
+      messages: request.messages,
+      ...(request.maxTokens === undefined
+        ? {}
+        : isGpt5 ? { max_completion_tokens: request.maxTokens } : { max_tokens: request.maxTokens }),
+      ...(isGpt5 || request.temperature === undefined ? {} : { temperature: request.temperature }),
+    });
+
+    return {
+      text: response.choices[0]?.message?.content?.trim() ?? "",
+      model: response.model || model,
+      usage: {
+        promptTokens: response.usage?.prompt_tokens ?? 0,
+        completionTokens: response.usage?.completion_tokens ?? 0,
+      },
+    };
+  },
+};
+
+/**
+ * Rough token count for the stub (~4 characters per token)
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Offline provider: the same request always gives the same reply
+ */
+export const stubProvider: LlmProvider = {
+  name: "stub",
+  async complete(request, model) {
+    const prompt = request.messages.map((m) => m.content).join("\n");
+    let hash = 0;
+    for (const char of prompt) {
+      hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+    }
+    const lastUser = [...request.messages].reverse().find((m) => m.role === "user")?.content ?? "";
+    const text = `[stub ${request.feature} #${hash.toString(16)}] ${lastUser.slice(0, 80)}`;
+    return {
+      text,
+      model: `stub:${model}`,
+      usage: { promptTokens: estimateTokens(prompt), completionTokens: estimateTokens(text) },
+    };
+  },
+};
+
+let provider: LlmProvider = process.env.LLM_PROVIDER === "stub" ? stubProvider : openAIProvider;
+
+/**
+ * Swaps the provider (e.g. the stub in offline tests)
+ */
+export function setLlmProvider(next: LlmProvider): void {
+  provider = next;
+}
+
+/**
+ * Whether AI features can run at all (the stub needs no key)
+ */
+export function isLlmConfigured(): boolean {
+  return provider !== openAIProvider || Boolean(process.env.OPENAI_API_KEY);
+}
+
+// ============================================================================
+// Accounting
+// ============================================================================
+
+export interface LlmUsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+// "<logical day>:<scope>" -> totals for that day. Scopes: total, feature:<feature>, user:<telegram id>, chat:<chat id>
+const usageStore = openStore<LlmUsageTotals>("llm-usage");
+
+// Stats for health logging
+let requestCount = 0;
+let failureCount = 0;
+let totalTokens = 0;
+
+/**
+ * Gets stats for health check logging
+ */
+export function getLlmStats(): { requests: number; failures: number; tokens: number } {
+  return { requests: requestCount, failures: failureCount, tokens: totalTokens };
+}
+
+function emptyTotals(): LlmUsageTotals {
+  return { requests: 0, promptTokens: 0, completionTokens: 0, costUsd: 0 };
+}
+
+/**
+ * Price of a completion in USD. Dated model names ("gpt-4o-2024-08-06") use the base model price.
+ */
+export function estimateCost(model: string, usage: LlmUsage): number {
+  const base = Object.keys(MODEL_PRICES)
+    .filter((name) => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!base) return 0;
+  const [input, output] = MODEL_PRICES[base];
+  return (usage.promptTokens * input + usage.completionTokens * output) / 1_000_000;
+}
+
+function recordUsage(scope: string, usage: LlmUsage, costUsd: number, now: number): void {
+  const key = `${getLogicalDateKey(now, DEFAULT_TIME_SETTINGS)}:${scope}`;
+  const totals = usageStore.get(key) ?? emptyTotals();
+  usageStore.set(
+    key,
+    {
+      requests: totals.requests + 1,
+      promptTokens: totals.promptTokens + usage.promptTokens,
+      completionTokens: totals.completionTokens + usage.completionTokens,
+      costUsd: totals.costUsd + costUsd,
+    },
+    USAGE_TTL_MS,
+  );
+}
+
+/**
+ * Usage of a scope ("total", "feature:analyze", "user:123", "chat:-100123") over the last `days` logical days, today included
+ */
+export function getLlmUsage(scope: string, days: number = 1, now: number = Date.now()): LlmUsageTotals {
+  const result = emptyTotals();
+  for (let i = 0; i < days; i++) {
+    const day = getLogicalDateKey(now - i * 24 * 60 * 60 * 1000, DEFAULT_TIME_SETTINGS);
+    const totals = usageStore.get(`${day}:${scope}`);
+    if (!totals) continue;
+    result.requests += totals.requests;
+    result.promptTokens += totals.promptTokens;
+    result.completionTokens += totals.completionTokens;
+    result.costUsd += totals.costUsd;
+  }
+  return result;
+}
+
+// ============================================================================
+// Gateway
+// ============================================================================
+
+/**
+ * Timeouts, connection failures, rate limits and 5xx are worth another try; bad requests are not
+ */
+function isTransientError(error: unknown): boolean {
+  const status = (error as { status?: unknown }).status;
+  if (typeof status === "number") {
+    return status === 408 || status === 409 || status === 429 || status >= 500;
+  }
+  const msg = error instanceof Error ? error.message : String(error);
+  const causeMsg = error instanceof Error && error.cause instanceof Error ? error.cause.message : "";
+  return /ETIMEDOUT|ECONNRESET|terminated|timeout|timed out|abort|fetch failed|connection/i.test(msg + causeMsg);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Sends a chat completion through the current provider and returns the reply text.
+ * Throws if the provider isn't configured, the reply is empty or all attempts fail.
+ */
+export async function complete(request: LlmRequest): Promise<string> {
+  const model = getModel(request.feature);
+  const timeoutMs = FEATURE_TIMEOUT_MS[request.feature];
+  let lastError: unknown;
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const startedAt = Date.now();
+    try {
+      const completion = await provider.complete(request, model, timeoutMs);
+      const now = Date.now();
+      const costUsd = estimateCost(completion.model, completion.usage);
+
+      requestCount++;
+      totalTokens += completion.usage.promptTokens + completion.usage.completionTokens;
+      recordUsage("total", completion.usage, costUsd, now);
+      recordUsage(`feature:${request.feature}`, completion.usage, costUsd, now);
+      if (request.userId !== undefined) {
+        recordUsage(`user:${request.userId}`, completion.usage, costUsd, now);
+      }
+      if (request.chatId !== undefined) {
+        recordUsage(`chat:${request.chatId}`, completion.usage, costUsd, now);
+      }
+
+      console.log(
+        `[LLM] ${request.feature} via ${provider.name}/${completion.model}: ` +
+        `${completion.usage.promptTokens}+${completion.usage.completionTokens} tokens, ` +
+        `$${costUsd.toFixed(4)}, ${((now - startedAt) / 1000).toFixed(1)}s` +
+        (request.userId !== undefined ? ` (user ${request.userId})` : ""),
+      );
+
+      if (!completion.text) {
+        throw new Error(`Empty LLM response for ${request.feature}`);
+      }
+      return completion.text;
+    } catch (error) {
+      lastError = error;
+      if (attempt === MAX_ATTEMPTS || !isTransientError(error)) break;
+      const retryDelay = INITIAL_RETRY_DELAY_MS * Math.pow(2, attempt - 1);
+      console.warn(
+        `[LLM] ${request.feature} attempt ${attempt}/${MAX_ATTEMPTS} failed, retrying in ${retryDelay}ms:`,
+        error instanceof Error ? error.message : error,
+      );
+      await sleep(retryDelay);
+    }
+  }
+
+  failureCount++;
+  throw lastError;
+}
@@ -0,0 +1,186 @@
+/**
+ * Post-match result cards: polls recent matches of tracked players and posts a
+ * compact card for every finished party match, with buttons for the AI analysis.
+ * A match shared by several tracked players gets one card per chat.
+ */
+import type { Bot } from "grammy";
+import { findPlayerBySteamId, getPlayerDisplayName } from "./config.js";
+import { getChatsWithFeature, getChatPlayerIds } from "./chats.js";
+import { getHeroName } from "./heroes.js";
+import { buildMatchCardKeyboard } from "./keyboards.js";
+import { formatDuration } from "./match-details.js";
+import { fetchRecentMatches, type RecentMatch } from "./opendota.js";
+import { runInBackground } from "./opendota-scheduler.js";
+import { waitForParse } from "./parse-watcher.js";
+import { openStore } from "./storage.js";
+import { escapeHtml } from "./telegram-html.js";
+
+// Polling interval: OpenDota usually lists a match a few minutes after it ends
+const POLLING_INTERVAL_MS = 5 * 60 * 1000;
+
+// Matches that ended longer ago than this are not announced (e.g. after downtime)
+const MAX_CARD_AGE_MS = 3 * 60 * 60 * 1000;
+
+// Posted cards are remembered for dedup a bit longer than a match can be announced
+const POSTED_TTL_MS = 2 * MAX_CARD_AGE_MS;
+
+// Start time of the newest match seen per player (persisted so restarts don't repost)
+const lastSeenStartTime = openStore<number>("match-cards-state");
+
+// "chatId:matchId" of cards already posted, so one match is announced once per chat
+const postedCards = openStore<boolean>("match-cards-posted");
+
+// Stats for health logging
+let pollCount = 0;
+let cardsSent = 0;
+
+interface CardEntry {
+  playerId: number;
+  match: RecentMatch;
+}
+
+/**
+ * Gets stats for health check logging
+ */
+export function getMatchCardStats(): { pollCount: number; cardsSent: number } {
+  return { pollCount, cardsSent };
+}
+
+function isWin(match: RecentMatch): boolean {
+  return match.player_slot < 128 === match.radiant_win;
+}
+
+/**
+ * Formats a result card: result, duration, our heroes and K/D/A, OpenDota link.
+ * If tracked players were on both sides, each line gets its own result.
+ */
+export async function formatMatchCard(entries: CardEntry[]): Promise<string> {
+  const { match } = entries[0];
+  const results = new Set(entries.map((e) => isWin(e.match)));
+  const mixed = results.size > 1;
+
+  const header = mixed
+    ? "⚔️ <b>Свои против своих</b>"
+    : isWin(match) ? "🏆 <b>ПОБЕДА</b>" : "💀 <b>ПОРАЖЕНИЕ</b>";
+
+  const lines: string[] = [];
+  for (const { playerId, match: m } of entries) {
+    const player = findPlayerBySteamId(playerId);
+    const name = escapeHtml(player ? getPlayerDisplayName(player) : String(playerId));
+    const result = mixed ? (isWin(m) ? "🏆 " : "💀 ") : "";
+    lines.push(`${result}<b>${name}</b> — ${escapeHtml(await getHeroName(m.hero_id))} ${m.kills}/${m.deaths}/${m.assists}`);
+  }
+
+  return [
+    `${header} • ⏱ ${formatDuration(match.duration)}`,
+    "",
+    ...lines,
+    "",
+    `🔗 <a href="https://www.opendota.com/matches/${match.match_id}">OpenDota #${match.match_id}</a>`,
+  ].join("\n");
+}
+
+/**
+ * Maps each polled player to the chats with match cards enabled that track them
+ */
+function getCardRecipients(): Map<number, string[]> {
+  const recipients = new Map<number, string[]>();
+  for (const chat of getChatsWithFeature("matchCards")) {
+    for (const playerId of getChatPlayerIds(chat.chatId)) {
+      recipients.set(playerId, [...(recipients.get(playerId) ?? []), chat.chatId]);
+    }
+  }
+  return recipients;
+}
+
+/**
+ * New finished matches of a player since the last poll.
+ * A player seen for the first time only records state, like the LFG warm-up.
+ */
+async function fetchNewMatches(playerId: number): Promise<RecentMatch[]> {
+  const matches = await fetchRecentMatches(playerId);
+  const newest = Math.max(0, ...matches.map((m) => m.start_time));
+  const lastSeen = lastSeenStartTime.get(String(playerId));
+  if (newest > (lastSeen ?? 0)) {
+    lastSeenStartTime.set(String(playerId), newest);
+  }
+  if (lastSeen === undefined) return [];
+
+  const minEndTime = (Date.now() - MAX_CARD_AGE_MS) / 1000;
+  return matches.filter((m) => m.start_time > lastSeen && m.start_time + m.duration >= minEndTime);
+}
+
+/**
+ * Polls tracked players and posts one card per new match to each chat that tracks them
+ */
+async function checkMatchesAndNotify(bot: Bot): Promise<void> {
+  pollCount++;
+
+  try {
+    const recipients = getCardRecipients();
+
+    // Group new matches by match ID so a party game becomes one card
+    const byMatch = new Map<number, CardEntry[]>();
+    for (const playerId of recipients.keys()) {
+      try {
+        for (const match of await fetchNewMatches(playerId)) {
+          byMatch.set(match.match_id, [...(byMatch.get(match.match_id) ?? []), { playerId, match }]);
+        }
+      } catch (error) {
+        console.error(`[CARDS] Failed to fetch matches for ${playerId}:`, error);
+      }
+    }
+
+    const ordered = [...byMatch.values()].sort((a, b) => a[0].match.start_time - b[0].match.start_time);
+    for (const entries of ordered) {
+      const matchId = entries[0].match.match_id;
+      const chatIds = new Set(entries.flatMap((e) => recipients.get(e.playerId) ?? []));
+
+      for (const chatId of chatIds) {
+        const key = `${chatId}:${matchId}`;
+        if (postedCards.get(key)) continue;
+
+        const chatPlayerIds = new Set(getChatPlayerIds(chatId));
+        const chatEntries = entries.filter((e) => chatPlayerIds.has(e.playerId));
+        try {
+          await bot.api.sendMessage(chatId, await formatMatchCard(chatEntries), {
+            parse_mode: "HTML",
+            link_preview_options: { is_disabled: true },
+            reply_markup: buildMatchCardKeyboard(matchId),
+          });
+          postedCards.set(key, true, POSTED_TTL_MS);
+          cardsSent++;
+          console.log(`[CARDS] Posted match ${matchId} to ${chatId} (${chatEntries.length} players)`);
+        } catch (error) {
+          console.error(`[CARDS] Failed to post match ${matchId} to ${chatId}:`, error);
+        }
+      }
+
+      // Get the replay parsed early, so the buttons give a full analysis
+      void waitForParse(matchId);
+    }
+  } catch (error) {
+    console.error("[CARDS] Error checking matches:", error);
+  }
+}
+
+/**
+ * Starts the match card polling loop
+ * Cards go to every chat with match cards enabled that tracks a player from the match
+ * @param bot - Telegram bot instance
+ */
+export function startMatchCardPolling(bot: Bot): void {
+  console.log(
+    `[CARDS] 🃏 Starting match card polling (every ${POLLING_INTERVAL_MS / 1000 / 60} minutes)`,
+  );
+
+  runInBackground(() => {
+    // Initial check
+    checkMatchesAndNotify(bot);
+
+    // Start polling loop
+    setInterval(() => {
+      checkMatchesAndNotify(bot);
+    }, POLLING_INTERVAL_MS);
+  });
+}
@@ -0,0 +1,92 @@
+/**
+ * Shared helpers for OpenDota match details (fetched via opendota.ts):
+ * key item timings and formatting for the LLM analysis (analyze.ts) and the rule-based report (match-report.ts)
+ */
+import { getPlayerIds } from "./config.js";
+import type { MatchDetails } from "./opendota.js";
+
+/**
+ * Key items and the latest "normal" purchase time in seconds for All Pick.
+ * Bought later than this = late timing. Turbo uses half of it.
+ */
+export const KEY_ITEM_TIMINGS: Record<string, number> = {
+  blink: 15 * 60,
+  black_king_bar: 22 * 60,
+  manta: 20 * 60,
+  butterfly: 30 * 60,
+  satanic: 30 * 60,
+  skadi: 30 * 60,
+  hand_of_midas: 12 * 60,
+  battle_fury: 16 * 60,
+  radiance: 22 * 60,
+  aghanims_scepter: 25 * 60,
+  refresher: 35 * 60,
+  sheepstick: 30 * 60,
+  assault: 30 * 60,
+  shivas_guard: 28 * 60,
+  heart: 30 * 60,
+  travel_boots: 25 * 60,
+  bloodthorn: 30 * 60,
+  nullifier: 30 * 60,
+  sphere: 25 * 60,
+  aeon_disk: 28 * 60,
+  desolator: 18 * 60,
+  mjollnir: 22 * 60,
+  greater_crit: 28 * 60,
+  monkey_king_bar: 28 * 60,
+};
+
+export const KEY_ITEMS = Object.keys(KEY_ITEM_TIMINGS);
+
+export const TURBO_GAME_MODE = 23;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+export function formatDuration(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
+export function formatTime(seconds: number): string {
+  const sign = seconds < 0 ? "-" : "";
+  const abs = Math.abs(seconds);
+  const mins = Math.floor(abs / 60);
+  const secs = abs % 60;
+  return `${sign}${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
+export function formatBenchmark(pct: number): string {
+  const percent = Math.round(pct * 100);
+  if (percent >= 80) return `${percent}% 🔥`;
+  if (percent >= 60) return `${percent}% ✅`;
+  if (percent >= 40) return `${percent}%`;
+  if (percent >= 20) return `${percent}% ⚠️`;
+  return `${percent}% 💀`;
+}
+
+export function formatGameMode(gameMode: number): string {
+  return gameMode === TURBO_GAME_MODE ? "Turbo" : gameMode === 22 ? "All Pick" : `Mode ${gameMode}`;
+}
+
+export function formatSigned(value: number): string {
+  return `${value > 0 ? "+" : ""}${value}`;
+}
+
+// ============================================================================
+// Match helpers
+// ============================================================================
+
+/**
+ * Which side our stack played on and whether it won (Radiant if none of ours are in the match)
+ */
+export function getOurSide(
+  match: MatchDetails,
+  ourPlayerIds: Set<number> = new Set(getPlayerIds()),
+): { weAreRadiant: boolean; weWon: boolean } {
+  const ourPlayers = match.players.filter(p => p.account_id && ourPlayerIds.has(p.account_id));
+  const weAreRadiant = ourPlayers.length > 0 ? ourPlayers[0].isRadiant : true;
+  return { weAreRadiant, weWon: weAreRadiant ? match.radiant_win : !match.radiant_win };
+}
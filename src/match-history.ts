@@ -0,0 +1,211 @@
+/**
+ * Local match-history warehouse.
+ *
+ * Keeps the last RETENTION_DAYS of RecentMatch for each tracked player in the
+ * persistent store (one namespace per player, so a sync rewrites only that
+ * player's file) and ingests incrementally: after the initial backfill only
+ * matches newer than the last sync are pulled from OpenDota. Stats, roasts and
+ * birthday greetings read from here instead of refetching whole periods.
+ */
+import { getPlayerIds } from "./config.js";
+import { fetchPlayerMatchHistory, type RecentMatch } from "./opendota.js";
+import { runInBackground } from "./opendota-scheduler.js";
+import { openStore } from "./storage.js";
+
+// How far back to fetch on the first sync of a player
+const BACKFILL_DAYS = 365;
+
+// Older matches are dropped on sync: a year for yearly stats, plus a margin for period comparisons
+const RETENTION_DAYS = 400;
+
+// Background sync interval
+const SYNC_INTERVAL_MS = 10 * 60 * 1000;
+
+// Interactive reads trigger a sync if data is older than this
+const MAX_STALENESS_MS = 5 * 60 * 1000;
+
+// Within this window /recentMatches (latest 20) is enough for an incremental sync
+const RECENT_ENDPOINT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface PlayerHistory {
+  matches: RecentMatch[]; // sorted by start_time descending
+  lastSyncAt: number;
+}
+
+// "match-history-<steamId>" -> { history }
+const HISTORY_KEY = "history";
+
+// Before per-player namespaces every history lived here, keyed by Steam ID; moved on first access
+const legacyHistoryStore = openStore<PlayerHistory>("match-history");
+
+function getHistoryStore(playerId: number) {
+  return openStore<PlayerHistory>(`match-history-${playerId}`);
+}
+
+function getHistory(playerId: number): PlayerHistory | undefined {
+  const store = getHistoryStore(playerId);
+  const history = store.get(HISTORY_KEY);
+  if (history) return history;
+
+  const legacy = legacyHistoryStore.get(String(playerId));
+  if (legacy) {
+    store.set(HISTORY_KEY, legacy);
+    legacyHistoryStore.delete(String(playerId));
+  }
+  return legacy;
+}
+
+// In-flight syncs, so concurrent readers share one request
+const pendingSyncs = new Map<number, Promise<void>>();
+
+// Stats for health logging
+let syncedMatches = 0;
+
+/**
+ * Gets stats for health check logging
+ */
+export function getMatchHistoryStats(): { players: number; matches: number; ingested: number } {
+  const histories = getPlayerIds()
+    .map((id) => getHistory(id))
+    .filter((h): h is PlayerHistory => h !== undefined);
+  const matches = histories.reduce((sum, h) => sum + h.matches.length, 0);
+  return { players: histories.length, matches, ingested: syncedMatches };
+}
+
+/**
+ * Keeps only the fields we store, so the file stays compact
+ */
+function toStoredMatch(match: RecentMatch): RecentMatch {
+  return {
+    match_id: match.match_id,
+    player_slot: match.player_slot,
+    radiant_win: match.radiant_win,
+    start_time: match.start_time,
+    duration: match.duration,
+    hero_id: match.hero_id,
+    kills: match.kills,
+    deaths: match.deaths,
+    assists: match.assists,
+    gold_per_min: match.gold_per_min,
+    xp_per_min: match.xp_per_min,
+  };
+}
+
+/**
+ * Fetches matches newer than the last sync
+ */
+async function fetchNewMatches(playerId: number, history: PlayerHistory | undefined): Promise<RecentMatch[]> {
+  if (!history) {
+    console.log(`[HISTORY] Backfilling ${BACKFILL_DAYS} days for ${playerId}...`);
+    return fetchPlayerMatchHistory(playerId, BACKFILL_DAYS);
+  }
+
+  const knownIds = new Set(history.matches.map((m) => m.match_id));
+  const sinceLastSync = Date.now() - history.lastSyncAt;
+
+  if (sinceLastSync < RECENT_ENDPOINT_WINDOW_MS) {
+    const recent = await fetchPlayerMatchHistory(playerId);
+    // If every one of the latest 20 is new we may have a gap - fall back to the date window
+    if (recent.length === 0 || recent.some((m) => knownIds.has(m.match_id))) {
+      return recent.filter((m) => !knownIds.has(m.match_id));
+    }
+  }
+
+  const days = Math.ceil(sinceLastSync / DAY_MS) + 1;
+  const matches = await fetchPlayerMatchHistory(playerId, days);
+  return matches.filter((m) => !knownIds.has(m.match_id));
+}
+
+/**
+ * Pulls new matches for a player into the store
+ */
+async function runSync(playerId: number): Promise<void> {
+  const history = getHistory(playerId);
+  const newMatches = await fetchNewMatches(playerId, history);
+
+  const retainedSince = Math.floor((Date.now() - RETENTION_DAYS * DAY_MS) / 1000);
+  const matches = [...newMatches.map(toStoredMatch), ...(history?.matches ?? [])]
+    .filter((m) => m.start_time >= retainedSince)
+    .sort((a, b) => b.start_time - a.start_time);
+
+  getHistoryStore(playerId).set(HISTORY_KEY, { matches, lastSyncAt: Date.now() });
+  syncedMatches += newMatches.length;
+
+  if (newMatches.length > 0) {
+    console.log(`[HISTORY] ${playerId}: +${newMatches.length} matches (total ${matches.length})`);
+  }
+}
+
+/**
+ * Syncs a player's history (deduplicates concurrent calls)
+ */
+export function syncPlayerMatches(playerId: number): Promise<void> {
+  const pending = pendingSyncs.get(playerId);
+  if (pending) return pending;
+
+  const sync = runSync(playerId).finally(() => pendingSyncs.delete(playerId));
+  pendingSyncs.set(playerId, sync);
+  return sync;
+}
+
+/**
+ * Returns stored matches for a player, newest first
+ * @param sinceTimestamp - Optional lower bound on start_time (unix seconds, inclusive)
+ * @param untilTimestamp - Optional upper bound on start_time (unix seconds, exclusive)
+ */
+export function getStoredMatches(playerId: number, sinceTimestamp?: number, untilTimestamp?: number): RecentMatch[] {
+  const matches = getHistory(playerId)?.matches ?? [];
+  if (sinceTimestamp === undefined && untilTimestamp === undefined) return matches;
+  return matches.filter(
+    (m) =>
+      (sinceTimestamp === undefined || m.start_time >= sinceTimestamp) &&
+      (untilTimestamp === undefined || m.start_time < untilTimestamp)
+  );
+}
+
+/**
+ * Returns a player's matches, syncing first if the stored data is stale.
+ * Falls back to whatever is stored if the sync fails.
+ */
+export async function getPlayerMatches(playerId: number, sinceTimestamp?: number): Promise<RecentMatch[]> {
+  const history = getHistory(playerId);
+  const isStale = !history || Date.now() - history.lastSyncAt > MAX_STALENESS_MS;
+
+  if (isStale) {
+    try {
+      await syncPlayerMatches(playerId);
+    } catch (error) {
+      if (!history) throw error;
+      console.warn(`[HISTORY] Sync failed for ${playerId}, using stored data:`, error);
+    }
+  }
+
+  return getStoredMatches(playerId, sinceTimestamp);
+}
+
+/**
+ * Syncs all tracked players sequentially (respects the OpenDota rate limit)
+ */
+async function syncAllPlayers(): Promise<void> {
+  for (const playerId of getPlayerIds()) {
+    try {
+      await syncPlayerMatches(playerId);
+    } catch (error) {
+      console.error(`[HISTORY] Failed to sync ${playerId}:`, error);
+    }
+  }
+}
+
+/**
+ * Starts the background ingester (its requests yield to commands)
+ */
+export function startMatchHistorySync(): void {
+  console.log(`[HISTORY] 📚 Starting match history sync (every ${SYNC_INTERVAL_MS / 1000 / 60} minutes)`);
+
+  runInBackground(() => {
+    syncAllPlayers();
+    setInterval(syncAllPlayers, SYNC_INTERVAL_MS);
+  });
+}
@@ -0,0 +1,272 @@
+/**
+ * Rule-based match report: a deterministic breakdown of OpenDota match details.
+ * Used as the /analyze fallback when the LLM is unavailable and for /analyze --raw.
+ */
+import { getPlayerIds, getPlayerPreferences } from "./config.js";
+import { getHeroName } from "./heroes.js";
+import {
+  KEY_ITEM_TIMINGS,
+  TURBO_GAME_MODE,
+  formatBenchmark,
+  formatDuration,
+  formatGameMode,
+  formatSigned,
+  formatTime,
+  getOurSide,
+} from "./match-details.js";
+import { isMatchParsed, type MatchDetails, type MatchPlayer } from "./opendota.js";
+import { escapeHtml } from "./telegram-html.js";
+
+const SWING_WINDOW_MINUTES = 5;
+const TEAMFIGHTS_LIMIT = 3;
+const TEAMFIGHT_MIN_DEATHS = 3;
+const CS_MINUTE = 10;
+
+type BenchmarkKey = keyof NonNullable<MatchPlayer["benchmarks"]>;
+
+const BENCHMARK_LABELS: [BenchmarkKey, string][] = [
+  ["gold_per_min", "GPM"],
+  ["xp_per_min", "XPM"],
+  ["last_hits_per_min", "LH"],
+  ["hero_damage_per_min", "DMG"],
+  ["tower_damage", "Towers"],
+];
+
+export interface LateItem {
+  item: string;
+  time: number;       // purchase time, seconds
+  threshold: number;  // latest normal time, seconds
+}
+
+/**
+ * Key items bought later than their threshold (first purchase of each item only)
+ */
+export function getLateItems(player: MatchPlayer, gameMode: number): LateItem[] {
+  const scale = gameMode === TURBO_GAME_MODE ? 0.5 : 1;
+  const seen = new Set<string>();
+  const late: LateItem[] = [];
+  for (const purchase of player.purchase_log ?? []) {
+    const threshold = KEY_ITEM_TIMINGS[purchase.key];
+    if (threshold === undefined || seen.has(purchase.key)) continue;
+    seen.add(purchase.key);
+    if (purchase.time > threshold * scale) {
+      late.push({ item: purchase.key, time: purchase.time, threshold: threshold * scale });
+    }
+  }
+  return late;
+}
+
+/**
+ * Impact score for MVP/LVP: average benchmark percentile (0-10) plus (K+A)/D
+ */
+export function getImpactScore(player: MatchPlayer): number {
+  const pcts = BENCHMARK_LABELS
+    .map(([key]) => player.benchmarks?.[key]?.pct)
+    .filter((pct): pct is number => pct !== undefined);
+  const benchmarkAvg = pcts.length > 0 ? pcts.reduce((sum, pct) => sum + pct, 0) / pcts.length : 0.5;
+  return benchmarkAvg * 10 + (player.kills + player.assists) / Math.max(1, player.deaths);
+}
+
+/**
+ * MVP = highest impact on the winning team, LVP = lowest impact on the losing team.
+ * Players who turned negative nominations off (/settings nominations off) are never the LVP.
+ */
+export function getMvpAndLvp(match: MatchDetails): { mvp: MatchPlayer; lvp: MatchPlayer | undefined } {
+  const byImpact = (players: MatchPlayer[]) =>
+    [...players].sort((a, b) => getImpactScore(b) - getImpactScore(a));
+  const acceptsShame = (p: MatchPlayer) => !p.account_id || getPlayerPreferences(p.account_id).shameNominations;
+  const winners = byImpact(match.players.filter(p => p.isRadiant === match.radiant_win));
+  const losers = byImpact(match.players.filter(p => p.isRadiant !== match.radiant_win && acceptsShame(p)));
+  return { mvp: winners[0], lvp: losers[losers.length - 1] };
+}
+
+export interface GoldSwing {
+  maxLead: { value: number; minute: number };     // best moment for the side
+  maxDeficit: { value: number; minute: number };  // worst moment (negative)
+  swing: { from: number; to: number; delta: number } | null;  // sharpest change over SWING_WINDOW_MINUTES
+}
+
+/**
+ * Gold advantage extremes and the sharpest swing, from one side's perspective
+ * (advantage is Radiant's per minute; pass sign -1 for Dire)
+ */
+export function getGoldSwing(advantage: number[], sign: 1 | -1): GoldSwing | null {
+  if (advantage.length === 0) return null;
+  const adv = advantage.map((value) => value * sign);
+
+  let maxLead = { value: adv[0], minute: 0 };
+  let maxDeficit = { value: adv[0], minute: 0 };
+  adv.forEach((value, minute) => {
+    if (value > maxLead.value) maxLead = { value, minute };
+    if (value < maxDeficit.value) maxDeficit = { value, minute };
+  });
+
+  let swing: GoldSwing["swing"] = null;
+  const window = Math.min(SWING_WINDOW_MINUTES, adv.length - 1);
+  for (let to = window; to < adv.length && window > 0; to++) {
+    const delta = adv[to] - adv[to - window];
+    if (!swing || Math.abs(delta) > Math.abs(swing.delta)) {
+      swing = { from: to - window, to, delta };
+    }
+  }
+
+  return { maxLead, maxDeficit, swing };
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+function formatPlayerName(player: MatchPlayer, heroNames: Map<number, string>): string {
+  const hero = heroNames.get(player.hero_id) || "Unknown";
+  return `${escapeHtml(player.personaname || "Anonymous")} (${escapeHtml(hero)})`;
+}
+
+function formatKdaSection(match: MatchDetails, heroNames: Map<number, string>, ourPlayerIds: Set<number>): string[] {
+  const formatSide = (isRadiant: boolean) =>
+    match.players
+      .filter(p => p.isRadiant === isRadiant)
+      .map(p => {
+        const marker = p.account_id && ourPlayerIds.has(p.account_id) ? "⭐ " : "";
+        return `• ${marker}${formatPlayerName(p, heroNames)} ${p.kills}/${p.deaths}/${p.assists}`;
+      });
+
+  return [
+    "",
+    "📋 <b>KDA</b>",
+    `Radiant ${match.radiant_win ? "(WIN)" : "(LOSE)"}:`,
+    ...formatSide(true),
+    `Dire ${!match.radiant_win ? "(WIN)" : "(LOSE)"}:`,
+    ...formatSide(false),
+  ];
+}
+
+function formatEconomySection(match: MatchDetails, weAreRadiant: boolean, hasOurPlayers: boolean): string[] {
+  const sign = weAreRadiant ? 1 : -1;
+  const swing = getGoldSwing(match.radiant_gold_adv ?? [], sign);
+  if (!swing) return [];
+
+  const adv = (match.radiant_gold_adv ?? []).map((value) => value * sign);
+  const at = (minute: number) => formatSigned(adv[Math.min(minute, adv.length - 1)]);
+  const us = hasOurPlayers ? "наши" : (weAreRadiant ? "Radiant" : "Dire");
+  const them = hasOurPlayers ? "враги" : (weAreRadiant ? "Dire" : "Radiant");
+
+  const lines = [
+    "",
+    `📈 <b>Экономика</b> (${hasOurPlayers ? "с нашей стороны" : "в пользу Radiant"})`,
+    `10 мин: ${at(10)} • 20 мин: ${at(20)} • Конец: ${at(adv.length - 1)}`,
+  ];
+  if (swing.maxLead.value > 0) {
+    lines.push(`Макс. преимущество (${us}): +${swing.maxLead.value} на ${swing.maxLead.minute} мин`);
+  }
+  if (swing.maxDeficit.value < 0) {
+    lines.push(`Макс. преимущество (${them}): +${-swing.maxDeficit.value} на ${swing.maxDeficit.minute} мин`);
+  }
+  if (swing.swing && swing.swing.delta !== 0) {
+    lines.push(`Самый резкий перелом: ${swing.swing.from}→${swing.swing.to} мин, ${formatSigned(swing.swing.delta)}`);
+  }
+  return lines;
+}
+
+function formatTeamfightsSection(match: MatchDetails): string[] {
+  const bigFights = (match.teamfights ?? [])
+    .filter(tf => tf.deaths >= TEAMFIGHT_MIN_DEATHS)
+    .sort((a, b) => b.deaths - a.deaths)
+    .slice(0, TEAMFIGHTS_LIMIT);
+  if (bigFights.length === 0) return [];
+
+  return [
+    "",
+    "⚔️ <b>Главные тимфайты</b>",
+    ...bigFights.map(tf => {
+      const radiantGold = tf.players.slice(0, 5).reduce((sum, p) => sum + p.gold_delta, 0);
+      const direGold = tf.players.slice(5, 10).reduce((sum, p) => sum + p.gold_delta, 0);
+      const winner = radiantGold > direGold ? "Radiant" : "Dire";
+      return `• ${formatTime(tf.start)} — ${tf.deaths} смертей, выиграли ${winner} (+${Math.abs(radiantGold - direGold)} золота)`;
+    }),
+  ];
+}
+
+function formatOurPlayer(player: MatchPlayer, match: MatchDetails, heroNames: Map<number, string>): string[] {
+  const lines = [`⭐ ${formatPlayerName(player, heroNames)} — ${player.kills}/${player.deaths}/${player.assists}`];
+
+  const benchmarks = BENCHMARK_LABELS
+    .filter(([key]) => player.benchmarks?.[key])
+    .map(([key, label]) => `${label} ${formatBenchmark(player.benchmarks![key]!.pct)}`);
+  lines.push(`   GPM ${player.gold_per_min} • XPM ${player.xp_per_min}`);
+  if (benchmarks.length > 0) {
+    lines.push(`   Перцентили: ${benchmarks.join(", ")}`);
+  }
+
+  if (player.lh_t && player.lh_t.length > CS_MINUTE) {
+    lines.push(`   CS на ${CS_MINUTE} мин: ${player.lh_t[CS_MINUTE]}/${player.dn_t?.[CS_MINUTE] ?? 0}`);
+  }
+
+  const lateItems = getLateItems(player, match.game_mode);
+  if (lateItems.length > 0) {
+    const items = lateItems.map(l => `${l.item} ${formatTime(l.time)} (норма до ${formatTime(l.threshold)})`);
+    lines.push(`   ⏰ Поздно: ${items.join(", ")}`);
+  }
+
+  return lines;
+}
+
+function formatMvpLine(emoji: string, title: string, player: MatchPlayer, heroNames: Map<number, string>): string {
+  return `${emoji} ${title}: ${formatPlayerName(player, heroNames)} — ${player.kills}/${player.deaths}/${player.assists}, impact ${getImpactScore(player).toFixed(1)}`;
+}
+
+/**
+ * Formats the report (HTML). Pure: hero names and our roster are passed in.
+ */
+export function formatMatchReport(
+  match: MatchDetails,
+  heroNames: Map<number, string>,
+  ourPlayerIds: Set<number>,
+): string {
+  const ourPlayers = match.players.filter(p => p.account_id && ourPlayerIds.has(p.account_id));
+  const { weAreRadiant, weWon } = getOurSide(match, ourPlayerIds);
+  const matchUrl = `https://www.opendota.com/matches/${match.match_id}`;
+
+  const lines = [
+    `🤖 <b>Авто-разбор матча</b> <a href="${matchUrl}">#${match.match_id}</a>`,
+    ourPlayers.length > 0
+      ? (weWon ? "🏆 <b>ПОБЕДА</b>" : "💀 <b>ПОРАЖЕНИЕ</b>")
+      : `🎮 Результат: ${match.radiant_win ? "Radiant" : "Dire"} победил`,
+    `⏱ ${formatDuration(match.duration)} • ${formatGameMode(match.game_mode)} • ${match.radiant_score}:${match.dire_score}`,
+    isMatchParsed(match) ? "📊 Полный" : "📊 Базовый (матч не распаршен: нет экономики и таймингов)",
+    ...formatKdaSection(match, heroNames, ourPlayerIds),
+    ...formatEconomySection(match, weAreRadiant, ourPlayers.length > 0),
+    ...formatTeamfightsSection(match),
+  ];
+
+  if (ourPlayers.length > 0) {
+    lines.push("", "👤 <b>Наши</b>");
+    for (const player of ourPlayers) {
+      lines.push(...formatOurPlayer(player, match, heroNames));
+    }
+  }
+
+  const { mvp, lvp } = getMvpAndLvp(match);
+  lines.push("", formatMvpLine("🏅", "MVP", mvp, heroNames));
+  if (lvp) {
+    lines.push(formatMvpLine("💀", "LVP", lvp, heroNames));
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Builds the report for a match; our players default to the whole tracked roster
+ */
+export async function buildMatchReport(
+  match: MatchDetails,
+  ourPlayerIds: Set<number> = new Set(getPlayerIds()),
+): Promise<string> {
+  const heroNames = new Map<number, string>();
+  for (const p of match.players) {
+    if (!heroNames.has(p.hero_id)) {
+      heroNames.set(p.hero_id, await getHeroName(p.hero_id));
+    }
+  }
+  return formatMatchReport(match, heroNames, ourPlayerIds);
+}
@@ -0,0 +1,34 @@
+/**
+ * Earlier parts of bot messages that were split to fit the Telegram limit.
+ *
+ * Stored under the last part (the one with the keyboard, which buttons and replies
+ * point at), so replacing the message can remove the parts above it too.
+ */
+import { openStore } from "./storage.js";
+
+// Bots can't delete their messages after 48 hours, so older parts are of no use
+const CHUNKS_TTL_MS = 48 * 60 * 60 * 1000;
+
+const chunkStore = openStore<number[]>("message-chunks");
+
+function getChunksKey(chatId: number | string, lastMessageId: number): string {
+  return `${chatId}:${lastMessageId}`;
+}
+
+/**
+ * Remembers the parts sent before the last one
+ */
+export function saveEarlierChunks(chatId: number | string, lastMessageId: number, messageIds: number[]): void {
+  chunkStore.set(getChunksKey(chatId, lastMessageId), messageIds, CHUNKS_TTL_MS);
+}
+
+/**
+ * Parts sent before the last one; empty for single messages
+ */
+export function getEarlierChunks(chatId: number | string, lastMessageId: number): number[] {
+  return chunkStore.get(getChunksKey(chatId, lastMessageId)) ?? [];
+}
+
+export function forgetEarlierChunks(chatId: number | string, lastMessageId: number): void {
+  chunkStore.delete(getChunksKey(chatId, lastMessageId));
+}
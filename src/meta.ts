@@ -1,9 +1,17 @@
-import OpenAI from "openai";
 import { getHeroNames } from "./heroes.js";
 import { fetchItems } from "./items.js";
-import { getAppFetch, getOpenAIFetch } from "./proxy.js";
+import {
+  fetchMatchDetails,
+  fetchProMatches,
+  type MatchDetails,
+  type MatchPlayer,
+  type ProMatch,
+} from "./opendota.js";
+import { runInBackground } from "./opendota-scheduler.js";
+import { complete, isLlmConfigured } from "./llm.js";
+import { getAppFetch } from "./proxy.js";
+import { openStore } from "./storage.js";
 
-const OPENDOTA_API_BASE = "https://api.opendota.com/api";
 const PROTRACKER_BASE = "https://dota2protracker.com";
 const PROTRACKER_API_ENDPOINTS = [
   `${PROTRACKER_BASE}/api/heroes`,
@@ -13,7 +21,6 @@ const PROTRACKER_API_ENDPOINTS = [
 const PRO_MATCH_SAMPLE_SIZE = 20;
 const META_LOOKBACK_DAYS = 7;
 const META_CACHE_TTL_MS = 10 * 60 * 1000;
-const OPENAI_MODEL = process.env.OPENAI_MODEL || "gpt-5.2";
 const TOP_HEROES_PER_ROLE = 4;
 
 const STATIC_META_FALLBACK: Record<Role, string[]> = {
@@ -42,28 +49,6 @@ const ROLE_LABELS: Record<Role, string> = {
   pos5: "⚪ Pos 5 (Hard Support)",
 };
 
-interface ProMatch {
-  match_id: number;
-  start_time?: number;
-}
-
-interface MatchPlayer {
-  hero_id: number;
-  net_worth: number;
-  isRadiant: boolean;
-  win: number;
-  item_0: number;
-  item_1: number;
-  item_2: number;
-  item_3: number;
-  item_4: number;
-  item_5: number;
-}
-
-interface MatchDetails {
-  players: MatchPlayer[];
-}
-
 interface HeroRoleStats {
   heroId: number;
   games: number;
@@ -86,12 +71,15 @@ interface MetaCacheEntry {
   expiresAt: number;
 }
 
+const META_CACHE_KEY = "byRole";
+
 interface MetaSourceInfo {
   provider: "OpenDota" | "Dota2ProTracker API" | "Встроенный fallback";
   note?: string;
 }
 
-let metaCache: MetaCacheEntry | null = null;
+// Stored without TTL: a stale entry is still served when live sources fail
+const metaStore = openStore<MetaCacheEntry>("meta");
 
 async function getFetchForProTracker(): Promise<typeof fetch> {
   const proxyUrl = process.env.PROTRACKER_PROXY_URL;
@@ -219,17 +207,6 @@ function groupTopHeroesByRoleFromList(metaHeroes: MetaHero[]): Map<Role, MetaHer
   return result;
 }
 
-async function fetchProMatches(limit: number): Promise<ProMatch[]> {
-  const fetchFn = await getAppFetch();
-  const response = await fetchFn(`${OPENDOTA_API_BASE}/proMatches`);
-  if (!response.ok) {
-    throw new Error(`OpenDota API error for /proMatches: ${response.status}`);
-  }
-
-  const data: ProMatch[] = await response.json();
-  return data.slice(0, limit);
-}
-
 function filterMatchesByLastWeek(matches: ProMatch[]): ProMatch[] {
   const now = Math.floor(Date.now() / 1000);
   const minStartTime = now - META_LOOKBACK_DAYS * 24 * 60 * 60;
@@ -240,15 +217,6 @@ function filterMatchesByLastWeek(matches: ProMatch[]): ProMatch[] {
   });
 }
 
-async function fetchMatchDetails(matchId: number): Promise<MatchDetails> {
-  const fetchFn = await getAppFetch();
-  const response = await fetchFn(`${OPENDOTA_API_BASE}/matches/${matchId}`);
-  if (!response.ok) {
-    throw new Error(`OpenDota API error for /matches/${matchId}: ${response.status}`);
-  }
-  return response.json();
-}
-
 function getRoleByNetWorthOrder(orderIndex: number): Role {
   if (orderIndex === 0) return "pos1";
   if (orderIndex === 1) return "pos2";
@@ -346,7 +314,7 @@ function pickTopHeroesByRole(
 }
 
 async function generateAiLineups(topHeroesByRole: Map<Role, MetaHero[]>): Promise<string> {
-  if (!process.env.OPENAI_API_KEY) {
+  if (!isLlmConfigured()) {
     return "🤖 <b>AI-пулы лайнапов</b>\n• OPENAI_API_KEY не задан, поэтому AI-рекомендации временно отключены.";
   }
 
@@ -373,9 +341,8 @@ ${roleInput}
 Ограничение: до 1400 символов.`;
 
   try {
-    const client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY, fetch: await getOpenAIFetch() });
-    const completion = await client.chat.completions.create({
-      model: OPENAI_MODEL,
+    const text = await complete({
+      feature: "meta",
       temperature: 0.6,
       messages: [
         { role: "system", content: "Ты тренер по Dota 2 и объясняешь просто, конкретно и по делу." },
@@ -383,11 +350,6 @@ ${roleInput}
       ],
     });
 
-    const text = completion.choices[0]?.message?.content?.trim();
-    if (!text) {
-      return "🤖 <b>AI-пулы лайнапов</b>\n• Не удалось получить ответ от OpenAI.";
-    }
-
     return `🤖 <b>AI-пулы лайнапов</b>\n${text}`;
   } catch (error) {
     console.error("[META] Failed to generate AI lineup suggestions:", error);
@@ -396,6 +358,7 @@ ${roleInput}
 }
 
 export async function getProMetaByRole(): Promise<string> {
+  const metaCache = metaStore.get(META_CACHE_KEY);
   if (metaCache && Date.now() < metaCache.expiresAt) {
     return metaCache.text;
   }
@@ -417,9 +380,18 @@ export async function getProMetaByRole(): Promise<string> {
 
   if (!topHeroesByRole) {
     try {
-      const proMatchesRaw = await fetchProMatches(PRO_MATCH_SAMPLE_SIZE);
+      const proMatchesRaw = (await fetchProMatches()).slice(0, PRO_MATCH_SAMPLE_SIZE);
       const proMatches = filterMatchesByLastWeek(proMatchesRaw);
-      const matchDetails = await Promise.all(proMatches.map((m) => fetchMatchDetails(m.match_id)));
+      // One by one through the shared rate limiter; a missing match only shrinks the sample.
+      // The sample is bulk work, so it yields to other users' commands.
+      const matchDetails: MatchDetails[] = [];
+      for (const { match_id } of proMatches) {
+        try {
+          matchDetails.push(await runInBackground(() => fetchMatchDetails(match_id)));
+        } catch (error) {
+          console.warn(`[META] Skipping pro match ${match_id}:`, error);
+        }
+      }
 
       const roleStats = buildRoleStats(matchDetails);
       const allHeroIds = new Set<number>();
@@ -516,10 +488,10 @@ export async function getProMetaByRole(): Promise<string> {
   lines.push(aiLineups);
 
   const text = lines.filter(Boolean).join("\n").trim();
-  metaCache = {
+  metaStore.set(META_CACHE_KEY, {
     text,
     expiresAt: Date.now() + META_CACHE_TTL_MS,
-  };
+  });
 
   return text;
 }
@@ -0,0 +1,217 @@
+/**
+ * Request scheduler for the OpenDota API.
+ *
+ * Every OpenDota request takes a token from one shared bucket. Interactive
+ * requests (commands, buttons) get the next token before background ones
+ * (polling, history sync, scheduled jobs), so a /stats doesn't wait behind a
+ * 20-match /meta sample. The bucket follows OpenDota's rate-limit headers: it
+ * never hands out more than the server says is left this minute, and keeps the
+ * last part of the daily quota for interactive requests.
+ *
+ * Code that runs in the background wraps itself in runInBackground(); everything
+ * else is interactive by default.
+ */
+import { AsyncLocalStorage } from "node:async_hooks";
+import { config } from "./config.js";
+
+export type RequestPriority = "interactive" | "background";
+
+// OpenDota free tier: 60 requests/minute, but be conservative. A key allows far more.
+const REQUESTS_PER_MINUTE = config.openDotaApiKey ? 600 : 30;
+
+// Short bursts are fine, e.g. the profile + totals of one /player lookup
+const BUCKET_CAPACITY = config.openDotaApiKey ? 20 : 3;
+
+// When fewer daily calls than this are left, only interactive requests go out
+const DAILY_INTERACTIVE_RESERVE = 100;
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * A queued request. Its priority can be raised while it waits (see promote).
+ */
+export interface RequestTicket {
+  priority: RequestPriority;
+}
+
+interface Waiter {
+  ticket: RequestTicket;
+  resolve: () => void;
+}
+
+const priorityContext = new AsyncLocalStorage<RequestPriority>();
+
+let tokens = BUCKET_CAPACITY;
+let lastRefillAt = Date.now();
+
+// Set from the rate-limit headers: no requests at all / no background requests until then
+let pausedUntil = 0;
+let backgroundPausedUntil = 0;
+
+const waiters: Waiter[] = [];
+let pumping = false;
+let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Stats for health logging
+let requestsSent = 0;
+let rateLimited = 0;
+
+/**
+ * Gets stats for health check logging
+ */
+export function getOpenDotaSchedulerStats(): {
+  requests: number;
+  rateLimited: number;
+  queued: number;
+} {
+  return { requests: requestsSent, rateLimited, queued: waiters.length };
+}
+
+/**
+ * Runs fn with its OpenDota requests (including those from timers and promises it starts)
+ * in the background lane
+ */
+export function runInBackground<T>(fn: () => T): T {
+  return priorityContext.run("background", fn);
+}
+
+/**
+ * Priority of a request made from the current async context
+ */
+export function getCurrentPriority(): RequestPriority {
+  return priorityContext.getStore() ?? "interactive";
+}
+
+export function createTicket(): RequestTicket {
+  return { priority: getCurrentPriority() };
+}
+
+/**
+ * Raises a waiting request to the interactive lane (an interactive caller joined it)
+ */
+export function promote(ticket: RequestTicket): void {
+  if (ticket.priority === "interactive") return;
+  ticket.priority = "interactive";
+  void pump();
+}
+
+function refill(): void {
+  const now = Date.now();
+  tokens = Math.min(BUCKET_CAPACITY, tokens + ((now - lastRefillAt) * REQUESTS_PER_MINUTE) / MINUTE_MS);
+  lastRefillAt = now;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Next waiter to serve: the oldest interactive one, else the oldest background one if allowed
+ */
+function takeNextWaiter(): Waiter | undefined {
+  let index = waiters.findIndex((w) => w.ticket.priority === "interactive");
+  if (index === -1 && Date.now() >= backgroundPausedUntil) {
+    index = 0;
+  }
+  return index === -1 ? undefined : waiters.splice(index, 1)[0];
+}
+
+/**
+ * Wakes the pump once background requests are allowed again
+ */
+function scheduleWake(): void {
+  if (wakeTimer) return;
+  wakeTimer = setTimeout(() => {
+    wakeTimer = null;
+    void pump();
+  }, Math.max(0, backgroundPausedUntil - Date.now()));
+}
+
+/**
+ * Hands out tokens to waiters while there are tokens and waiters
+ */
+async function pump(): Promise<void> {
+  if (pumping) return;
+  pumping = true;
+  try {
+    while (waiters.length > 0) {
+      const pauseMs = pausedUntil - Date.now();
+      if (pauseMs > 0) {
+        await sleep(pauseMs);
+        continue;
+      }
+
+      refill();
+      if (tokens < 1) {
+        await sleep(Math.ceil(((1 - tokens) * MINUTE_MS) / REQUESTS_PER_MINUTE));
+        continue;
+      }
+
+      const waiter = takeNextWaiter();
+      if (!waiter) {
+        // Only background requests left and they are on hold
+        scheduleWake();
+        break;
+      }
+      tokens -= 1;
+      requestsSent++;
+      waiter.resolve();
+    }
+  } finally {
+    pumping = false;
+  }
+}
+
+/**
+ * Waits until the request may be sent
+ */
+export function acquireSlot(ticket: RequestTicket): Promise<void> {
+  return new Promise((resolve) => {
+    waiters.push({ ticket, resolve });
+    void pump();
+  });
+}
+
+/**
+ * Start of the next UTC day (OpenDota daily limits reset then)
+ */
+function nextUtcMidnight(now: number): number {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+}
+
+/**
+ * Adjusts the bucket to OpenDota's x-rate-limit-remaining-minute/-day headers
+ */
+export function updateFromHeaders(headers: Headers): void {
+  const now = Date.now();
+
+  const minuteHeader = headers.get("x-rate-limit-remaining-minute");
+  const remainingMinute = minuteHeader === null ? NaN : Number(minuteHeader);
+  if (Number.isFinite(remainingMinute)) {
+    refill();
+    tokens = Math.min(tokens, remainingMinute);
+    if (remainingMinute <= 0) {
+      // The minute window is used up - wait for the next one
+      pausedUntil = Math.max(pausedUntil, now + MINUTE_MS - (now % MINUTE_MS));
+    }
+  }
+
+  const dayHeader = headers.get("x-rate-limit-remaining-day");
+  const remainingDay = dayHeader === null ? NaN : Number(dayHeader);
+  if (Number.isFinite(remainingDay) && remainingDay < DAILY_INTERACTIVE_RESERVE) {
+    if (backgroundPausedUntil <= now) {
+      console.warn(`[OPENDOTA] ${remainingDay} calls left today, pausing background requests until UTC midnight`);
+    }
+    backgroundPausedUntil = nextUtcMidnight(now);
+  }
+}
+
+/**
+ * Empties the bucket after a 429, so nothing else goes out before the retry backoff
+ */
+export function onRateLimited(): void {
+  rateLimited++;
+  tokens = Math.min(tokens, 0);
+  lastRefillAt = Date.now();
+}
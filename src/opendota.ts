@@ -1,10 +1,18 @@
+import { config } from "./config.js";
+import {
+  acquireSlot,
+  createTicket,
+  onRateLimited,
+  promote,
+  updateFromHeaders,
+  type RequestTicket,
+} from "./opendota-scheduler.js";
 import { getAppFetch } from "./proxy.js";
+import { openStore } from "./storage.js";
 
 const OPENDOTA_API_BASE = "https://api.opendota.com/api";
 
-// Rate limiting configuration
-// OpenDota free tier: 60 requests/minute, but be conservative
-const RATE_LIMIT_DELAY_MS = 2000; // ~30 requests per minute to stay well under 60/min limit
+// Retry configuration (the request rate itself is up to opendota-scheduler.ts)
 const MAX_RETRIES = 5;
 const INITIAL_RETRY_DELAY_MS = 5000; // Start with longer backoff
 
@@ -13,57 +21,54 @@ const CACHE_TTL = {
   PROFILE: 60 * 60 * 1000,      // 1 hour - profiles rarely change
   TOTALS: 60 * 60 * 1000,       // 1 hour - aggregated stats
   MATCHES: 5 * 60 * 1000,       // 5 minutes - matches update more frequently
+  MATCH_DETAILS: 7 * 24 * 60 * 60 * 1000,  // 7 days - a parsed match never changes
+  UNPARSED_MATCH_DETAILS: 10 * 60 * 1000,  // 10 minutes - may get parsed any moment
 };
 
-// Simple in-memory cache
-interface CacheEntry<T> {
-  data: T;
-  expiresAt: number;
-}
+// Persistent cache (survives restarts)
+const cache = openStore<unknown>("opendota");
 
-const cache = new Map<string, CacheEntry<unknown>>();
+// Match details are large, so they get their own file
+const matchDetailsCache = openStore<MatchDetails>("match-details");
 
 /**
  * Gets cached data if not expired
  */
 function getFromCache<T>(key: string): T | null {
-  const entry = cache.get(key);
-  if (!entry) return null;
-  
-  if (Date.now() > entry.expiresAt) {
-    cache.delete(key);
-    return null;
-  }
-  
-  return entry.data as T;
+  const data = cache.get(key);
+  return data === undefined ? null : (data as T);
 }
 
 /**
  * Stores data in cache with TTL
  */
 function setCache<T>(key: string, data: T, ttlMs: number): void {
-  cache.set(key, {
-    data,
-    expiresAt: Date.now() + ttlMs,
-  });
+  cache.set(key, data, ttlMs);
 }
 
-// Simple queue-based rate limiter
-let lastRequestTime = 0;
+// Identical GET requests in flight, so concurrent callers share one response
+interface InFlightRequest {
+  ticket: RequestTicket;
+  data: Promise<unknown>;
+}
+const inFlight = new Map<string, InFlightRequest>();
+
+// Stats for health logging
+let coalescedRequests = 0;
 
 /**
- * Delays execution to respect rate limits
+ * Gets stats for health check logging
  */
-async function rateLimitDelay(): Promise<void> {
-  const now = Date.now();
-  const timeSinceLastRequest = now - lastRequestTime;
-  
-  if (timeSinceLastRequest < RATE_LIMIT_DELAY_MS) {
-    const delayNeeded = RATE_LIMIT_DELAY_MS - timeSinceLastRequest;
-    await new Promise(resolve => setTimeout(resolve, delayNeeded));
-  }
-  
-  lastRequestTime = Date.now();
+export function getOpenDotaStats(): { coalesced: number; inFlight: number } {
+  return { coalesced: coalescedRequests, inFlight: inFlight.size };
+}
+
+/**
+ * Adds the API key, if configured (kept out of log messages and dedup keys)
+ */
+function withApiKey(url: string): string {
+  if (!config.openDotaApiKey) return url;
+  return `${url}${url.includes("?") ? "&" : "?"}api_key=${encodeURIComponent(config.openDotaApiKey)}`;
 }
 
 const FETCH_TIMEOUT_MS = 60000; // 60s - OpenDota can be slow
@@ -71,18 +76,23 @@ const FETCH_TIMEOUT_MS = 60000; // 60s - OpenDota can be slow
 /**
  * Fetches from OpenDota API with rate limiting and retry logic
  */
-async function fetchWithRateLimit(url: string, context: string): Promise<Response> {
+async function fetchWithRateLimit(
+  url: string,
+  context: string,
+  ticket: RequestTicket,
+  init: RequestInit = {}
+): Promise<Response> {
   let lastError: Error | null = null;
   
   for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
-    await rateLimitDelay();
+    await acquireSlot(ticket);
     
     const controller = new AbortController();
     const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
     const fetchFn = await getAppFetch();
     let response: Response;
     try {
-      response = await fetchFn(url, { signal: controller.signal });
+      response = await fetchFn(withApiKey(url), { ...init, signal: controller.signal });
     } catch (err) {
       clearTimeout(timeout);
       lastError = err instanceof Error ? err : new Error(String(err));
@@ -95,6 +105,7 @@ async function fetchWithRateLimit(url: string, context: string): Promise<Respons
       throw lastError;
     }
     clearTimeout(timeout);
+    updateFromHeaders(response.headers);
     
     if (response.ok) {
       return response;
@@ -102,6 +113,7 @@ async function fetchWithRateLimit(url: string, context: string): Promise<Respons
     
     if (response.status === 429) {
       // Rate limited - wait with exponential backoff
+      onRateLimited();
       const retryDelay = INITIAL_RETRY_DELAY_MS * Math.pow(2, attempt);
       console.warn(
         `Rate limited for ${context}, attempt ${attempt + 1}/${MAX_RETRIES}, ` +
@@ -122,6 +134,31 @@ async function fetchWithRateLimit(url: string, context: string): Promise<Respons
   throw lastError || new Error(`Failed to fetch ${context} after ${MAX_RETRIES} retries`);
 }
 
+/**
+ * Fetches JSON from OpenDota API. Concurrent GETs of the same URL share one request;
+ * an interactive caller joining a queued background request moves it up the queue.
+ */
+async function fetchJson<T>(url: string, context: string, init: RequestInit = {}): Promise<T> {
+  const ticket = createTicket();
+  if (init.method && init.method !== "GET") {
+    const response = await fetchWithRateLimit(url, context, ticket, init);
+    return response.json() as Promise<T>;
+  }
+
+  const pending = inFlight.get(url);
+  if (pending) {
+    coalescedRequests++;
+    if (ticket.priority === "interactive") promote(pending.ticket);
+    return pending.data as Promise<T>;
+  }
+
+  const data = fetchWithRateLimit(url, context, ticket, init)
+    .then((response) => response.json())
+    .finally(() => inFlight.delete(url));
+  inFlight.set(url, { ticket, data });
+  return data as Promise<T>;
+}
+
 export interface RecentMatch {
   match_id: number;
   player_slot: number;
@@ -132,6 +169,8 @@ export interface RecentMatch {
   kills: number;
   deaths: number;
   assists: number;
+  gold_per_min?: number;
+  xp_per_min?: number;
 }
 
 export interface PlayerProfile {
@@ -167,8 +206,7 @@ export async function fetchPlayerProfile(
   }
 
   const url = `${OPENDOTA_API_BASE}/players/${accountId}`;
-  const response = await fetchWithRateLimit(url, `player profile ${accountId}`);
-  const data = await response.json();
+  const data = await fetchJson<PlayerData>(url, `player profile ${accountId}`);
   
   setCache(cacheKey, data, CACHE_TTL.PROFILE);
   return data;
@@ -201,13 +239,41 @@ export async function fetchRecentMatches(
     url = `${OPENDOTA_API_BASE}/players/${accountId}/recentMatches`;
   }
 
-  const response = await fetchWithRateLimit(url, `recent matches for ${accountId}`);
-  const data = await response.json();
+  const data = await fetchJson<RecentMatch[]>(url, `recent matches for ${accountId}`);
   
   setCache(cacheKey, data, CACHE_TTL.MATCHES);
   return data;
 }
 
+/**
+ * Fields requested from /players/{id}/matches for the local match history
+ */
+const HISTORY_MATCH_FIELDS = [
+  "match_id", "player_slot", "radiant_win", "start_time", "duration",
+  "hero_id", "kills", "deaths", "assists", "gold_per_min", "xp_per_min",
+];
+
+/**
+ * Fetches a player's match list for the local history (uncached - the history store is the cache)
+ * @param accountId - Steam32 account ID
+ * @param days - Number of days to fetch; omit to use /recentMatches (latest 20)
+ */
+export async function fetchPlayerMatchHistory(
+  accountId: number,
+  days?: number
+): Promise<RecentMatch[]> {
+  let url: string;
+
+  if (days !== undefined) {
+    const project = HISTORY_MATCH_FIELDS.map((f) => `project=${f}`).join("&");
+    url = `${OPENDOTA_API_BASE}/players/${accountId}/matches?date=${days}&significant=0&${project}`;
+  } else {
+    url = `${OPENDOTA_API_BASE}/players/${accountId}/recentMatches`;
+  }
+
+  return fetchJson<RecentMatch[]>(url, `match history for ${accountId}`);
+}
+
 /**
  * Fetches player totals (aggregated stats) from OpenDota API
  * @param accountId - Steam32 account ID
@@ -229,8 +295,7 @@ export async function fetchPlayerTotals(
     url += `?date=${date}`;
   }
 
-  const response = await fetchWithRateLimit(url, `totals for ${accountId}`);
-  const data = await response.json();
+  const data = await fetchJson<PlayerTotal[]>(url, `totals for ${accountId}`);
 
   setCache(cacheKey, data, CACHE_TTL.TOTALS);
   return data;
@@ -254,8 +319,7 @@ export async function fetchWinLoss(
     url += `?date=${date}`;
   }
 
-  const response = await fetchWithRateLimit(url, `wl for ${accountId}`);
-  const data = await response.json();
+  const data = await fetchJson<WinLoss>(url, `wl for ${accountId}`);
 
   setCache(cacheKey, data, CACHE_TTL.TOTALS);
   return data;
@@ -280,9 +344,201 @@ export async function fetchTopHeroes(
     url += `?date=${date}`;
   }
 
-  const response = await fetchWithRateLimit(url, `heroes for ${accountId}`);
-  const data = await response.json();
+  const data = await fetchJson<PlayerHeroStats[]>(url, `heroes for ${accountId}`);
 
   setCache(cacheKey, data, CACHE_TTL.TOTALS);
   return data;
 }
+
+export interface ProMatch {
+  match_id: number;
+  start_time?: number;
+}
+
+/**
+ * Fetches the latest professional matches (uncached - /meta has its own cache)
+ */
+export async function fetchProMatches(): Promise<ProMatch[]> {
+  return fetchJson<ProMatch[]>(`${OPENDOTA_API_BASE}/proMatches`, "pro matches");
+}
+
+// Match details: /matches/{id}, used by the analysis, the match report and /meta
+
+export interface PurchaseLog {
+  time: number;
+  key: string;
+}
+
+export interface Objective {
+  time: number;
+  type: string;
+  key?: string;
+}
+
+export interface TeamfightPlayer {
+  deaths: number;
+  damage: number;
+  gold_delta: number;
+}
+
+export interface Teamfight {
+  start: number;
+  end: number;
+  deaths: number;
+  players: TeamfightPlayer[];
+}
+
+export interface MatchPlayer {
+  account_id?: number;
+  player_slot: number;
+  hero_id: number;
+  hero_variant: number;
+  kills: number;
+  deaths: number;
+  assists: number;
+  last_hits: number;
+  denies: number;
+  gold_per_min: number;
+  xp_per_min: number;
+  level: number;
+  net_worth: number;
+  hero_damage: number;
+  tower_damage: number;
+  hero_healing: number;
+  item_0: number;
+  item_1: number;
+  item_2: number;
+  item_3: number;
+  item_4: number;
+  item_5: number;
+  item_neutral: number;
+  personaname?: string;
+  isRadiant: boolean;
+  win: number;
+  kda: number;
+  rank_tier?: number | null;
+  lane?: number | null;
+  lane_role?: number | null;
+  is_roaming?: boolean | null;
+  lane_efficiency_pct?: number | null;
+  obs_placed?: number | null;
+  sen_placed?: number | null;
+  camps_stacked?: number | null;
+  stuns?: number | null;
+  teamfight_participation?: number | null;
+  actions_per_min?: number | null;
+  gold_t?: number[];
+  xp_t?: number[];
+  lh_t?: number[];
+  dn_t?: number[];
+  purchase_log?: PurchaseLog[];
+  killed_by?: Record<string, number>; // "npc_dota_hero_pudge" -> deaths (parsed only)
+  benchmarks?: {
+    gold_per_min?: { raw: number; pct: number };
+    xp_per_min?: { raw: number; pct: number };
+    kills_per_min?: { raw: number; pct: number };
+    last_hits_per_min?: { raw: number; pct: number };
+    hero_damage_per_min?: { raw: number; pct: number };
+    hero_healing_per_min?: { raw: number; pct: number };
+    tower_damage?: { raw: number; pct: number };
+  };
+}
+
+export interface MatchDetails {
+  match_id: number;
+  duration: number;
+  radiant_win: boolean;
+  start_time: number;
+  game_mode: number;
+  first_blood_time?: number;
+  radiant_score: number;
+  dire_score: number;
+  radiant_gold_adv?: number[];
+  radiant_xp_adv?: number[];
+  objectives?: Objective[];
+  teamfights?: Teamfight[];
+  players: MatchPlayer[];
+}
+
+// Fields kept in the cache; the full parsed response is hundreds of KB (chat, logs, cosmetics)
+const MATCH_DETAILS_FIELDS: (keyof MatchDetails)[] = [
+  "match_id", "duration", "radiant_win", "start_time", "game_mode", "first_blood_time",
+  "radiant_score", "dire_score", "radiant_gold_adv", "radiant_xp_adv", "objectives", "teamfights",
+];
+
+const MATCH_PLAYER_FIELDS: (keyof MatchPlayer)[] = [
+  "account_id", "player_slot", "hero_id", "hero_variant", "kills", "deaths", "assists",
+  "last_hits", "denies", "gold_per_min", "xp_per_min", "level", "net_worth",
+  "hero_damage", "tower_damage", "hero_healing",
+  "item_0", "item_1", "item_2", "item_3", "item_4", "item_5", "item_neutral",
+  "personaname", "isRadiant", "win", "kda", "rank_tier",
+  "lane", "lane_role", "is_roaming", "lane_efficiency_pct",
+  "obs_placed", "sen_placed", "camps_stacked", "stuns", "teamfight_participation", "actions_per_min",
+  "gold_t", "xp_t", "lh_t", "dn_t", "purchase_log", "killed_by", "benchmarks",
+];
+
+function pickFields<T extends object>(source: T, fields: (keyof T)[]): T {
+  const result = {} as T;
+  for (const field of fields) {
+    if (source[field] !== undefined) result[field] = source[field];
+  }
+  return result;
+}
+
+/**
+ * Keeps only the fields we use, so the cache stays compact
+ */
+function toStoredMatchDetails(match: MatchDetails): MatchDetails {
+  return {
+    ...pickFields(match, MATCH_DETAILS_FIELDS),
+    players: match.players.map((p) => pickFields(p, MATCH_PLAYER_FIELDS)),
+  };
+}
+
+/**
+ * Parsed matches have per-minute timelines (gold_t, lh_t, ...) and teamfights
+ */
+export function isMatchParsed(match: MatchDetails): boolean {
+  return match.players.some(p => p.gold_t && p.gold_t.length > 0);
+}
+
+/**
+ * Fetches match details from OpenDota API.
+ * Parsed matches are cached for long; basic ones briefly, since a parse may upgrade them.
+ * @param matchId - Match ID
+ * @param options.skipCache - Always ask OpenDota (e.g. when waiting for a parse); the result is still cached
+ */
+export async function fetchMatchDetails(
+  matchId: number,
+  options: { skipCache?: boolean } = {}
+): Promise<MatchDetails> {
+  const cacheKey = String(matchId);
+  if (!options.skipCache) {
+    const cached = matchDetailsCache.get(cacheKey);
+    if (cached) return cached;
+  }
+
+  const url = `${OPENDOTA_API_BASE}/matches/${matchId}`;
+  const data = toStoredMatchDetails(await fetchJson<MatchDetails>(url, `match ${matchId}`));
+
+  const ttl = isMatchParsed(data) ? CACHE_TTL.MATCH_DETAILS : CACHE_TTL.UNPARSED_MATCH_DETAILS;
+  matchDetailsCache.set(cacheKey, data, ttl);
+  return data;
+}
+
+/**
+ * Asks OpenDota to parse the match replay. Returns the parse job ID, or null if no job was queued.
+ */
+export async function requestMatchParse(matchId: number): Promise<number | null> {
+  const url = `${OPENDOTA_API_BASE}/request/${matchId}`;
+  const data = await fetchJson<{ job?: { jobId?: number } }>(url, `parse request for ${matchId}`, { method: "POST" });
+  return data.job?.jobId ?? null;
+}
+
+/**
+ * Whether a parse job is still queued or running (OpenDota returns null once it's finished)
+ */
+export async function isParseJobPending(jobId: number): Promise<boolean> {
+  const job = await fetchJson<unknown>(`${OPENDOTA_API_BASE}/request/${jobId}`, `parse job ${jobId}`);
+  return job !== null;
+}
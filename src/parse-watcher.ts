@@ -0,0 +1,68 @@
+/**
+ * Waits for OpenDota to parse a match replay.
+ *
+ * Requests the parse, polls the job with exponential backoff and confirms with
+ * the match data itself. Concurrent waits on one match share a single request,
+ * so a result card and an /analyze on the same game don't queue two jobs.
+ * The polling runs in the background lane, so it never delays commands.
+ */
+import { fetchMatchDetails, isMatchParsed, isParseJobPending, requestMatchParse } from "./opendota.js";
+import { runInBackground } from "./opendota-scheduler.js";
+
+// Parsing takes a few minutes at best; no point asking right away
+const INITIAL_DELAY_MS = 60 * 1000;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+
+// Give up after this: the replay is probably not available (yet)
+const MAX_WAIT_MS = 60 * 60 * 1000;
+
+// In-flight waits per match
+const pendingParses = new Map<number, Promise<boolean>>();
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function runParse(matchId: number): Promise<boolean> {
+  let jobId: number | null;
+  try {
+    jobId = await requestMatchParse(matchId);
+    console.log(`[PARSE] Requested parse of match ${matchId}${jobId !== null ? ` (job ${jobId})` : ""}`);
+  } catch (error) {
+    console.error(`[PARSE] Failed to request parse of match ${matchId}:`, error);
+    return false;
+  }
+
+  const deadline = Date.now() + MAX_WAIT_MS;
+  let delay = INITIAL_DELAY_MS;
+  while (Date.now() + delay < deadline) {
+    await sleep(delay);
+    delay = Math.min(delay * 2, MAX_DELAY_MS);
+
+    try {
+      // Once the job is gone, the match data tells whether it actually succeeded
+      if (jobId !== null && await isParseJobPending(jobId)) continue;
+      if (isMatchParsed(await fetchMatchDetails(matchId, { skipCache: true }))) {
+        console.log(`[PARSE] Match ${matchId} is parsed`);
+        return true;
+      }
+    } catch (error) {
+      console.warn(`[PARSE] Failed to check parse of match ${matchId}:`, error);
+    }
+  }
+
+  console.warn(`[PARSE] Gave up waiting for match ${matchId} after ${MAX_WAIT_MS / 60000} minutes`);
+  return false;
+}
+
+/**
+ * Requests a parse and resolves true once the match has full data, false if it never arrives
+ */
+export function waitForParse(matchId: number): Promise<boolean> {
+  const pending = pendingParses.get(matchId);
+  if (pending) return pending;
+
+  const wait = runInBackground(() => runParse(matchId)).finally(() => pendingParses.delete(matchId));
+  pendingParses.set(matchId, wait);
+  return wait;
+}
@@ -0,0 +1,241 @@
+/**
+ * Player-focused analysis context for /analyze <match> @player:
+ * lane matchup, item timings, teamfights, deaths, benchmarks and the player's own averages
+ */
+import { getBotAttitude, getPlayerPreferences } from "./config.js";
+import { getHeroName } from "./heroes.js";
+import { getItemNames } from "./items.js";
+import {
+  KEY_ITEM_TIMINGS,
+  TURBO_GAME_MODE,
+  formatBenchmark,
+  formatDuration,
+  formatGameMode,
+  formatSigned,
+  formatTime,
+} from "./match-details.js";
+import { fetchPlayerTotals, isMatchParsed, type MatchDetails, type MatchPlayer } from "./opendota.js";
+import { getToxicityHint } from "./personas.js";
+import { getRankName } from "./ranks.js";
+
+const LANE_MINUTE = 10;
+const KILLED_BY_LIMIT = 3;
+
+const LANE_ROLES: Record<number, string> = {
+  1: "Safelane",
+  2: "Mid",
+  3: "Offlane",
+  4: "Jungle",
+};
+
+// Fields from /players/{id}/totals compared against this match
+const AVERAGE_FIELDS: [field: keyof MatchPlayer & string, label: string][] = [
+  ["kills", "Kills"],
+  ["deaths", "Deaths"],
+  ["assists", "Assists"],
+  ["gold_per_min", "GPM"],
+  ["xp_per_min", "XPM"],
+  ["last_hits", "Last hits"],
+  ["hero_damage", "Hero damage"],
+  ["tower_damage", "Tower damage"],
+];
+
+/**
+ * The tracked player's entry in a match
+ */
+export function findFocusPlayer(match: MatchDetails, steamId: number): MatchPlayer | undefined {
+  return match.players.find((p) => p.account_id === steamId);
+}
+
+/**
+ * Enemy in the same physical lane with the most farm at 10 minutes:
+ * that's the one actually contesting the lane, not the roaming support
+ */
+export function findLaneOpponent(match: MatchDetails, player: MatchPlayer): MatchPlayer | undefined {
+  if (player.lane == null) return undefined;
+  const farmAt10 = (p: MatchPlayer) => p.lh_t?.[LANE_MINUTE] ?? p.last_hits;
+  return match.players
+    .filter((p) => p.isRadiant !== player.isRadiant && p.lane === player.lane)
+    .sort((a, b) => farmAt10(b) - farmAt10(a))[0];
+}
+
+/**
+ * "npc_dota_hero_nevermore" -> "nevermore"
+ */
+function formatUnitName(unit: string): string {
+  return unit.replace(/^npc_dota_hero_/, "").replace(/^npc_dota_/, "").replace(/_/g, " ");
+}
+
+function formatVersus(value: number | undefined, opponentValue: number | undefined): string {
+  if (value === undefined || opponentValue === undefined) return "N/A";
+  return `${value} vs ${opponentValue} (${formatSigned(value - opponentValue)})`;
+}
+
+function formatLaneSection(match: MatchDetails, player: MatchPlayer, heroNames: Map<number, string>): string {
+  if (!isMatchParsed(match)) {
+    return "\nLANE: N/A (match not parsed)";
+  }
+
+  const opponent = findLaneOpponent(match, player);
+  const at = (series: number[] | undefined) => series?.[Math.min(LANE_MINUTE, series.length - 1)];
+  let section = `\nLANE${player.lane_role ? ` (${LANE_ROLES[player.lane_role] ?? `role ${player.lane_role}`})` : ""}`;
+  if (player.is_roaming) section += " — ROAMING";
+
+  if (!opponent) {
+    section += `:\n• ${LANE_MINUTE} min LH/DN: ${at(player.lh_t) ?? "N/A"}/${at(player.dn_t) ?? "N/A"} (no lane opponent found)`;
+  } else {
+    section += ` vs LANE OPPONENT ${opponent.personaname || "Anonymous"} (${heroNames.get(opponent.hero_id) || "Unknown"}):`;
+    section += `\n• ${LANE_MINUTE} min last hits: ${formatVersus(at(player.lh_t), at(opponent.lh_t))}`;
+    section += `\n• ${LANE_MINUTE} min denies: ${formatVersus(at(player.dn_t), at(opponent.dn_t))}`;
+    section += `\n• ${LANE_MINUTE} min gold: ${formatVersus(at(player.gold_t), at(opponent.gold_t))}`;
+    section += `\n• ${LANE_MINUTE} min XP: ${formatVersus(at(player.xp_t), at(opponent.xp_t))}`;
+  }
+  if (player.lane_efficiency_pct != null) {
+    section += `\n• Lane efficiency: ${player.lane_efficiency_pct}%`;
+  }
+  return section;
+}
+
+function formatItemTimingsSection(match: MatchDetails, player: MatchPlayer): string {
+  if (!player.purchase_log || player.purchase_log.length === 0) {
+    return "\nITEM TIMINGS: N/A (match not parsed)";
+  }
+
+  const scale = match.game_mode === TURBO_GAME_MODE ? 0.5 : 1;
+  const seen = new Set<string>();
+  const lines: string[] = [];
+  for (const purchase of player.purchase_log) {
+    const threshold = KEY_ITEM_TIMINGS[purchase.key];
+    if (threshold === undefined || seen.has(purchase.key)) continue;
+    seen.add(purchase.key);
+    const isLate = purchase.time > threshold * scale;
+    lines.push(`• ${purchase.key} ${formatTime(purchase.time)} (norm ≤ ${formatTime(threshold * scale)})${isLate ? " ⚠️ LATE" : " ✅"}`);
+  }
+
+  return `\nITEM TIMINGS:\n${lines.length > 0 ? lines.join("\n") : "• No key items bought"}`;
+}
+
+/**
+ * Teamfights and deaths: participation, per-fight contribution, deaths inside/outside fights, killers
+ */
+function formatFightsAndDeathsSection(match: MatchDetails, player: MatchPlayer): string {
+  const index = match.players.indexOf(player);
+  const fights = match.teamfights ?? [];
+  let section = "";
+  let deathsInFights = 0;
+
+  if (fights.length > 0) {
+    const fightLines: string[] = [];
+    let participated = 0;
+    for (const fight of fights) {
+      const stats = fight.players[index];
+      if (!stats) continue;
+      deathsInFights += stats.deaths;
+      if (stats.damage > 0 || stats.deaths > 0) {
+        participated++;
+        fightLines.push(
+          `• ${formatTime(fight.start)}: ${fight.deaths} deaths total, player damage ${stats.damage}, died ${stats.deaths}, gold ${formatSigned(stats.gold_delta)}`,
+        );
+      }
+    }
+    const participation = player.teamfight_participation != null
+      ? `, teamfight participation ${Math.round(player.teamfight_participation * 100)}%`
+      : "";
+    section += `\nTEAMFIGHTS: took part in ${participated}/${fights.length}${participation}`;
+    if (fightLines.length > 0) section += `\n${fightLines.join("\n")}`;
+  } else {
+    section += "\nTEAMFIGHTS: N/A (match not parsed)";
+  }
+
+  section += `\n\nDEATHS: ${player.deaths} total`;
+  if (fights.length > 0) {
+    section += `, ${deathsInFights} in teamfights, ${Math.max(0, player.deaths - deathsInFights)} outside teamfights (pickoffs, bad positioning)`;
+  }
+  const killers = Object.entries(player.killed_by ?? {})
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, KILLED_BY_LIMIT);
+  if (killers.length > 0) {
+    section += `\n• Killed most by: ${killers.map(([unit, count]) => `${formatUnitName(unit)} ×${count}`).join(", ")}`;
+  }
+  return section;
+}
+
+function formatBenchmarksSection(player: MatchPlayer): string {
+  if (!player.benchmarks) return "\nBENCHMARKS: N/A";
+  const entries = Object.entries(player.benchmarks)
+    .filter(([, value]) => value)
+    .map(([key, value]) => `• ${key}: ${value!.raw} (${formatBenchmark(value!.pct)})`);
+  return `\nBENCHMARKS (percentile among players of this hero):\n${entries.join("\n")}`;
+}
+
+/**
+ * This match versus the player's all-time averages
+ */
+async function formatAveragesSection(steamId: number, player: MatchPlayer): Promise<string> {
+  try {
+    const totals = await fetchPlayerTotals(steamId);
+    const lines: string[] = [];
+    let matches = 0;
+    for (const [field, label] of AVERAGE_FIELDS) {
+      const total = totals.find((t) => t.field === field);
+      const value = player[field];
+      if (!total || total.n === 0 || typeof value !== "number") continue;
+      matches = Math.max(matches, total.n);
+      const average = Math.round(total.sum / total.n);
+      lines.push(`• ${label}: ${value} vs avg ${average} (${formatSigned(value - average)})`);
+    }
+    if (lines.length === 0) return "\nPLAYER AVERAGES: N/A";
+    return `\nPLAYER AVERAGES (all-time, ${matches} matches):\n${lines.join("\n")}`;
+  } catch (error) {
+    console.warn(`[ANALYZE] Failed to fetch totals for ${steamId}:`, error);
+    return "\nPLAYER AVERAGES: N/A";
+  }
+}
+
+/**
+ * Builds the LLM context for a deep review of one player's game
+ */
+export async function buildPlayerFocusContext(match: MatchDetails, player: MatchPlayer): Promise<string> {
+  const heroNames = new Map<number, string>();
+  for (const p of match.players) {
+    if (!heroNames.has(p.hero_id)) {
+      heroNames.set(p.hero_id, await getHeroName(p.hero_id));
+    }
+  }
+
+  const items = (await getItemNames(
+    [player.item_0, player.item_1, player.item_2, player.item_3, player.item_4, player.item_5].filter((i) => i > 0),
+  )).filter((n) => n).join(", ");
+  const won = player.isRadiant === match.radiant_win;
+  const rank = getRankName(player.rank_tier);
+  const attitude = player.account_id ? getBotAttitude(player.account_id) : undefined;
+  const toxicity = player.account_id ? getToxicityHint(getPlayerPreferences(player.account_id).maxToxicity) : undefined;
+
+  let context = `
+MATCH: ${match.match_id} | Duration: ${formatDuration(match.duration)} | Mode: ${formatGameMode(match.game_mode)}
+RESULT FOR FOCUS PLAYER: ${won ? "WIN" : "LOSE"} | Score: Radiant ${match.radiant_score} - ${match.dire_score} Dire
+Data: ${isMatchParsed(match) ? "PARSED (full data)" : "BASIC"}
+
+⭐ [FOCUS PLAYER${attitude ? ` — твоё отношение к нему: "${attitude}"` : ""}${toxicity ? ` — предел жёсткости: ${toxicity}` : ""}] ${player.personaname || "Anonymous"} (${heroNames.get(player.hero_id) || "Unknown"})${rank ? ` [${rank}]` : ""} — ${player.isRadiant ? "Radiant" : "Dire"}
+• KDA: ${player.kills}/${player.deaths}/${player.assists} (${player.kda.toFixed(2)}) | Level ${player.level}
+• GPM: ${player.gold_per_min} | XPM: ${player.xp_per_min} | NW: ${player.net_worth.toLocaleString()}
+• LH/DN: ${player.last_hits}/${player.denies}
+• Hero Damage: ${player.hero_damage.toLocaleString()} | Tower: ${player.tower_damage.toLocaleString()} | Healing: ${player.hero_healing.toLocaleString()}
+• Items: ${items || "None"}
+`;
+
+  context += formatLaneSection(match, player, heroNames);
+  context += "\n" + formatItemTimingsSection(match, player);
+  context += "\n" + formatFightsAndDeathsSection(match, player);
+  context += "\n" + formatBenchmarksSection(player);
+  if (player.account_id) {
+    context += "\n" + await formatAveragesSection(player.account_id, player);
+  }
+
+  const others = match.players
+    .filter((p) => p !== player)
+    .map((p) => `• ${p.isRadiant === player.isRadiant ? "ally" : "enemy"}: ${p.personaname || "Anonymous"} (${heroNames.get(p.hero_id) || "Unknown"}) ${p.kills}/${p.deaths}/${p.assists}, NW ${p.net_worth.toLocaleString()}`);
+  context += `\n\nOTHER PLAYERS (background only):\n${others.join("\n")}\n`;
+
+  return context;
+}
@@ -0,0 +1,72 @@
+/**
+ * Collects PlayerStats for a list of players: profile and rank, matches from the
+ * local history and all-time APM. Shared by scheduled posts and commands.
+ */
+import { fetchPlayerProfile, fetchPlayerTotals } from "./opendota.js";
+import { getPlayerMatches } from "./match-history.js";
+import { calculateStats, type PlayerStats } from "./stats.js";
+import { DEFAULT_TIME_SETTINGS, type DateRange, type TimeSettings } from "./time.js";
+
+/**
+ * Fetches player profile data from OpenDota API
+ * Returns name and rank tier
+ */
+async function getPlayerProfileData(playerId: number): Promise<{ name: string; rank: number | null }> {
+  try {
+    const playerData = await fetchPlayerProfile(playerId);
+    return {
+      name: playerData.profile?.personaname || String(playerId),
+      rank: playerData.rank_tier ?? null,
+    };
+  } catch (error) {
+    console.warn(`Failed to fetch profile for player ${playerId}:`, error);
+    return { name: String(playerId), rank: null };
+  }
+}
+
+/**
+ * Fetches average APM for a player from OpenDota totals
+ * Note: APM is only available for parsed matches, so we fetch all-time average
+ * (filtering by date returns empty data since recent matches are rarely parsed)
+ * Returns undefined if APM data is not available
+ */
+async function getPlayerAvgApm(playerId: number): Promise<number | undefined> {
+  try {
+    // Fetch all-time totals (no date filter) because APM requires parsed matches
+    const totals = await fetchPlayerTotals(playerId);
+    const apmTotal = totals.find((t) => t.field === "actions_per_min");
+    
+    if (apmTotal && apmTotal.n > 0) {
+      return Math.round(apmTotal.sum / apmTotal.n);
+    }
+    return undefined;
+  } catch (error) {
+    console.warn(`Failed to fetch APM for player ${playerId}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Fetches stats for the given players for a given date range
+ */
+export async function fetchAllPlayersStats(
+  playerIds: number[],
+  range: DateRange,
+  timeSettings: TimeSettings = DEFAULT_TIME_SETTINGS
+): Promise<PlayerStats[]> {
+  const statsPromises = playerIds.map(async (playerId) => {
+    console.log(`Fetching data for player ${playerId}...`);
+    
+    // Fetch profile, matches (from local history), and APM in parallel
+    const [profileData, matches, avgApm] = await Promise.all([
+      getPlayerProfileData(playerId),
+      getPlayerMatches(playerId, range.from),
+      getPlayerAvgApm(playerId),
+    ]);
+    
+    console.log(`  Player: ${profileData.name}, ${matches.length} stored matches, APM: ${avgApm ?? "N/A"}, Rank: ${profileData.rank ?? "N/A"}`);
+    return calculateStats(playerId, profileData.name, matches, range, avgApm, profileData.rank, timeSettings);
+  });
+
+  return Promise.all(statsPromises);
+}
@@ -0,0 +1,102 @@
+/**
+ * Daily quotas for AI commands, on top of the LLM gateway's usage accounting (llm.ts).
+ *
+ * - every user gets AI_DAILY_USER_CALLS LLM calls per day
+ * - every chat gets a shared budget of AI_DAILY_CHAT_TOKENS tokens per day
+ * - all chats together get AI_DAILY_TOTAL_TOKENS per day, so new groups can't add budget
+ * - ADMIN_TELEGRAM_IDS are exempt (group admin rights don't count: anyone can create a group)
+ *
+ * Only actual LLM calls count: cached analyses and --raw reports are free.
+ * Days are the bot's logical days (DAY_START_HOUR in BOT_TIMEZONE), like the accounting.
+ */
+import { getLlmUsage } from "./llm.js";
+
+const USER_DAILY_CALLS = parseInt(process.env.AI_DAILY_USER_CALLS ?? "10", 10);
+const CHAT_DAILY_TOKENS = parseInt(process.env.AI_DAILY_CHAT_TOKENS ?? "300000", 10);
+const TOTAL_DAILY_TOKENS = parseInt(process.env.AI_DAILY_TOTAL_TOKENS ?? "1000000", 10);
+
+/**
+ * Who an AI call is made for
+ */
+export interface AiRequester {
+  userId: number;
+  chatId: number;
+  exempt?: boolean; // listed in ADMIN_TELEGRAM_IDS
+}
+
+export interface QuotaStatus {
+  userCalls: number;
+  userLimit: number;
+  chatTokens: number;
+  chatLimit: number;
+  totalTokens: number;
+  totalLimit: number;
+  exempt: boolean;
+}
+
+export function getQuotaStatus(requester: AiRequester): QuotaStatus {
+  return {
+    userCalls: getLlmUsage(`user:${requester.userId}`).requests,
+    userLimit: USER_DAILY_CALLS,
+    chatTokens: totalTokens(getLlmUsage(`chat:${requester.chatId}`)),
+    chatLimit: CHAT_DAILY_TOKENS,
+    totalTokens: totalTokens(getLlmUsage("total")),
+    totalLimit: TOTAL_DAILY_TOKENS,
+    exempt: requester.exempt ?? false,
+  };
+}
+
+function totalTokens(usage: { promptTokens: number; completionTokens: number }): number {
+  return usage.promptTokens + usage.completionTokens;
+}
+
+/**
+ * Checks whether the requester may make another LLM call.
+ * Returns null if allowed, otherwise the reply to send instead (HTML).
+ */
+export function checkAiQuota(requester: AiRequester): string | null {
+  if (requester.exempt) return null;
+
+  const status = getQuotaStatus(requester);
+  if (status.userCalls >= status.userLimit) {
+    console.log(`[QUOTA] User ${requester.userId} hit the daily limit (${status.userCalls}/${status.userLimit})`);
+    return `⏳ Лимит AI-запросов исчерпан (${status.userCalls}/${status.userLimit} за сегодня), приходи завтра.\n\n` +
+      "Разборы из кэша и /analyze --raw работают без лимита.";
+  }
+  if (status.chatTokens >= status.chatLimit) {
+    console.log(`[QUOTA] Chat ${requester.chatId} is out of tokens (${status.chatTokens}/${status.chatLimit})`);
+    return "⏳ Дневной AI-бюджет чата исчерпан, приходи завтра.\n\n" +
+      "Разборы из кэша и /analyze --raw работают без лимита.";
+  }
+  if (status.totalTokens >= status.totalLimit) {
+    console.log(`[QUOTA] Daily AI budget is spent (${status.totalTokens}/${status.totalLimit})`);
+    return "⏳ Общий дневной AI-бюджет бота исчерпан, приходи завтра.\n\n" +
+      "Разборы из кэша и /analyze --raw работают без лимита.";
+  }
+  return null;
+}
+
+function formatTokens(tokens: number): string {
+  return tokens >= 1000 ? `${Math.round(tokens / 1000)}k` : String(tokens);
+}
+
+/**
+ * /quota reply: remaining personal calls and chat budget for today
+ */
+export function formatQuotaStatus(status: QuotaStatus): string {
+  const userLeft = Math.max(0, status.userLimit - status.userCalls);
+  const chatLeft = Math.max(0, status.chatLimit - status.chatTokens);
+  const totalLeft = Math.max(0, status.totalLimit - status.totalTokens);
+  const lines = [
+    "🎟 <b>AI-лимиты на сегодня</b>",
+    "",
+    status.exempt
+      ? `👤 Твои запросы: ${status.userCalls} (админ — без лимита)`
+      : `👤 Твои запросы: осталось <b>${userLeft}</b> из ${status.userLimit}`,
+    `💬 Бюджет чата: осталось <b>${formatTokens(chatLeft)}</b> из ${formatTokens(status.chatLimit)} токенов`,
+    `🌐 Общий бюджет бота: осталось <b>${formatTokens(totalLeft)}</b> из ${formatTokens(status.totalLimit)} токенов`,
+    "",
+    "<i>Разборы из кэша и /analyze --raw не тратят лимит</i>",
+  ];
+  return lines.join("\n");
+}
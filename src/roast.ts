@@ -1,10 +1,13 @@
-import { PLAYER_IDS } from "./config.js";
-import {
-  fetchRecentMatches,
-  fetchPlayerProfile,
-  type RecentMatch,
-} from "./opendota.js";
+import { config, getBotAttitude, getPlayerIds, getPlayerPreferences } from "./config.js";
+import { getChatPlayerIds, getChatTimeSettings } from "./chats.js";
+import { complete, isLlmConfigured } from "./llm.js";
+import { checkAiQuota, type AiRequester } from "./quota.js";
+import { fetchPlayerProfile, type RecentMatch } from "./opendota.js";
+import { getPlayerMatches } from "./match-history.js";
 import { getHeroName } from "./heroes.js";
+import { openStore } from "./storage.js";
+import { escapeHtml } from "./telegram-html.js";
+import { getLogicalDateKey } from "./time.js";
 
 /**
  * Roast category types
@@ -114,24 +117,178 @@ const ROAST_TEMPLATES: Record<RoastCategory, string[]> = {
   ],
 };
 
+// Template fallback for players who asked for less than "hard" in /settings
+const GENTLE_TEMPLATES: Record<RoastCategory, string> = {
+  loser: "{name}, {wr}% винрейт — бывает. Главное, что весело было. Было же?",
+  feeder: "{name}, {deaths} смертей за игру — ты так щедро делишься золотом, что враги уже шлют открытки.",
+  bot: "KDA {kda}. {name}, ты явно играешь на что-то большее, чем цифры.",
+  tilter: "{streak} поражений подряд. {name}, может, чайку и завтра продолжим?",
+  one_trick: "{name} снова на {hero}. Верность — это красиво, даже при {wr}% винрейта.",
+  ghost: "{name} не заходил {days} дней. Мы скучаем, честно.",
+  normie: "{name} играет ровно и без драмы — даже придраться не к чему.",
+};
+
+// ============================================================================
+// AI ROASTS
+// ============================================================================
+
+// "ai" writes a fresh roast from the facts below; "templates" uses ROAST_TEMPLATES only
+const ROAST_MODE = process.env.ROAST_MODE === "templates" ? "templates" : "ai";
+
+// Longer replies are dropped in favour of the template: a roast is a one-liner, not an essay
+const AI_ROAST_MAX_LENGTH = 300;
+
+const ROAST_SYSTEM_PROMPT = `Ты — бот дота-компании, который раз в день прожаривает одного из игроков в общем чате.
+
+ПРАВИЛА:
+• 1-3 предложения, не длиннее ${AI_ROAST_MAX_LENGTH} символов
+• Только факты из данных: цифры, героя и серию не выдумывай и не меняй
+• Самое смешное — про причину с наибольшей тяжестью, остальное можно задеть вскользь
+• Жёсткость не выше указанной в «Тоне». Бьём по игре, а не по человеку: без мата, внешности, семьи, национальности и ориентации
+• У тебя есть внутреннее отношение к игроку (если указано). НЕ озвучивай его — пусть проявляется через тон
+• Русский язык, можно дота-сленг
+• Формат: plain text, без markdown, без кавычек вокруг текста и без хештегов`;
+
+const REASON_LABELS: Record<RoastCategory, string> = {
+  loser: "низкий винрейт",
+  feeder: "много смертей",
+  bot: "низкий KDA",
+  tilter: "серия поражений",
+  one_trick: "спамит одного героя и проигрывает",
+  ghost: "давно не играл",
+  normie: "ничем не выделяется",
+};
+
+/**
+ * How hard the roast may hit: the worst reason's severity, capped by the player's max toxicity
+ */
+function getToneBudget(candidate: RoastCandidate): string {
+  const { maxToxicity } = getPlayerPreferences(candidate.playerId);
+  const maxSeverity = Math.max(0, ...candidate.reasons.map((r) => r.severity));
+  if (maxSeverity <= 3 || maxToxicity === "soft") return "лёгкая дружеская подколка";
+  if (maxSeverity <= 6 || maxToxicity === "medium") return "ощутимо, но по-дружески";
+  return "жёстко по статистике — есть за что";
+}
+
+/**
+ * Facts for the LLM: every reason with its template data, plus the stats behind them
+ */
+function buildRoastPrompt(candidate: RoastCandidate): string {
+  const { stats } = candidate;
+  const reasons = [...candidate.reasons]
+    .sort((a, b) => b.severity - a.severity)
+    .map((r) => {
+      const data = Object.entries(r.data).map(([key, value]) => `${key}=${value}`).join(", ");
+      return `- ${REASON_LABELS[r.category]} (тяжесть ${r.severity}/10)${data ? `: ${data}` : ""}`;
+    })
+    .join("\n");
+
+  const facts = [
+    stats.totalMatches > 0
+      ? `Последние ${stats.totalMatches} игр: ${stats.wins}W/${stats.losses}L (${stats.winRate}% WR), ` +
+        `в среднем ${Math.round(stats.avgDeaths * 10) / 10} смертей, KDA ${Math.round(stats.kda * 100) / 100}`
+      : "Последних игр нет",
+    stats.totalMatches === 0
+      ? ""
+      : stats.losingStreak > 0 ? `Текущая серия поражений: ${stats.losingStreak}` : "Последнюю игру выиграл",
+    stats.mostPlayedHero
+      ? `Любимый герой: ${stats.mostPlayedHero.heroName} (${stats.mostPlayedHero.games} игр, ${stats.mostPlayedHero.winRate}% WR)`
+      : "",
+    `Дней с последней игры: ${stats.daysSinceLastMatch === 999 ? "неизвестно" : stats.daysSinceLastMatch}`,
+  ].filter(Boolean);
+
+  const attitude = getBotAttitude(candidate.playerId);
+
+  return `Игрок: ${candidate.playerName}
+${attitude ? `Твоё отношение к этому игроку: "${attitude}"\n` : ""}Тон: ${getToneBudget(candidate)}
+
+За что жарим:
+${reasons}
+
+Факты:
+${facts.join("\n")}
+
+Напиши прожарку.`;
+}
+
+/**
+ * Asks the LLM for a roast. Returns null if it fails, breaks the length budget
+ * or the requester is out of AI quota.
+ */
+async function writeAiRoast(
+  candidate: RoastCandidate,
+  chatId?: string,
+  requester?: AiRequester,
+): Promise<string | null> {
+  if (requester && checkAiQuota(requester)) {
+    console.log(`[ROAST] AI quota exhausted for user ${requester.userId}, using a template`);
+    return null;
+  }
+  try {
+    const text = await complete({
+      feature: "roast",
+      messages: [
+        { role: "system", content: ROAST_SYSTEM_PROMPT },
+        { role: "user", content: buildRoastPrompt(candidate) },
+      ],
+      maxTokens: 500,
+      temperature: 0.9,
+      userId: requester?.userId,
+      chatId: chatId !== undefined ? Number(chatId) : undefined,
+    });
+    // The message already wraps the roast in quotes
+    const roast = text.replace(/^["«„“]+|["»”]+$/g, "").trim();
+    if (roast.length > AI_ROAST_MAX_LENGTH) {
+      console.warn(`[ROAST] AI roast too long (${roast.length} chars), using a template`);
+      return null;
+    }
+    return roast;
+  } catch (error) {
+    console.warn(`[ROAST] LLM failed for ${candidate.playerName}, using a template:`, error);
+    return null;
+  }
+}
+
 // ============================================================================
 // CACHING
 // ============================================================================
 
-// Daily cache: key = date (YYYY-MM-DD), value = roast result
-const roastCache = new Map<string, RoastResult>();
+const ROAST_CACHE_TTL_MS = 48 * 60 * 60 * 1000; // keep a bit longer than a day
+
+// Daily cache: key = "chatId:date" (YYYY-MM-DD in the chat's timezone), value = roast result
+// Targeted roasts: "chatId:date:playerId"
+const roastCache = openStore<RoastResult>("roast");
 
-// Last victim ID to avoid roasting same person two days in a row
-let lastVictimId: number | null = null;
+// Legacy single last victim (before per-chat history); seeds the main chat's history once
+const roastState = openStore<number>("roast-state");
+const LAST_VICTIM_KEY = "lastVictimId";
 
 /**
- * Gets today's date key in YYYY-MM-DD format (MSK timezone)
+ * A past roast of a chat: the roast of the day or a targeted /roast @player
  */
-function getTodayKey(): string {
-  const now = new Date();
-  // Convert to MSK (UTC+3)
-  const mskTime = new Date(now.getTime() + 3 * 60 * 60 * 1000);
-  return mskTime.toISOString().split("T")[0];
+interface RoastHistoryEntry {
+  playerId: number;
+  at: number; // ms
+  day: string; // logical date key in the chat's timezone
+  targeted?: boolean;
+}
+
+// Per chat: roasts of the last HISTORY_KEEP_DAYS, oldest first
+const roastHistory = openStore<RoastHistoryEntry[]>("roast-history");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HISTORY_KEEP_DAYS = 30;
+
+// Fair rotation: at most this many roasts per player in FAIRNESS_WINDOW_DAYS,
+// unless everyone has had that many already
+const FAIRNESS_WINDOW_DAYS = 7;
+const MAX_ROASTS_PER_WINDOW = 2;
+
+/**
+ * Gets today's logical date key in YYYY-MM-DD format (chat timezone)
+ */
+function getTodayKey(chatId: string): string {
+  return getLogicalDateKey(Date.now(), getChatTimeSettings(chatId));
 }
 
 /**
@@ -357,7 +514,7 @@ async function collectPlayerStats(
   try {
     const [profile, matches] = await Promise.all([
       fetchPlayerProfile(playerId),
-      fetchRecentMatches(playerId), // Gets last 20 matches
+      getPlayerMatches(playerId), // Local history, newest first
     ]);
 
     const playerName = profile.profile?.personaname || String(playerId);
@@ -424,13 +581,13 @@ async function collectPlayerStats(
 /**
  * Collects all candidates for roasting
  */
-async function collectAllCandidates(): Promise<RoastCandidate[]> {
-  console.log(`[ROAST] Collecting stats for ${PLAYER_IDS.length} players...`);
+async function collectAllCandidates(playerIds: number[]): Promise<RoastCandidate[]> {
+  console.log(`[ROAST] Collecting stats for ${playerIds.length} players...`);
 
   const candidates: RoastCandidate[] = [];
 
   // Fetch sequentially to respect rate limits
-  for (const playerId of PLAYER_IDS) {
+  for (const playerId of playerIds) {
     const candidate = await collectPlayerStats(playerId);
     if (candidate) {
       candidates.push(candidate);
@@ -475,8 +632,22 @@ function fillTemplate(
   return result;
 }
 
+function toRoastResult(candidate: RoastCandidate, message: string): RoastResult {
+  return {
+    playerId: candidate.playerId,
+    playerName: candidate.playerName,
+    message,
+    stats: {
+      wins: candidate.stats.wins,
+      losses: candidate.stats.losses,
+      winRate: candidate.stats.winRate,
+      avgDeaths: Math.round(candidate.stats.avgDeaths * 10) / 10,
+    },
+  };
+}
+
 /**
- * Builds the final roast message for a candidate
+ * Builds the template roast for a candidate
  */
 function buildRoast(candidate: RoastCandidate): RoastResult {
   // Find the most severe reason
@@ -487,37 +658,37 @@ function buildRoast(candidate: RoastCandidate): RoastResult {
 
   if (!primaryReason) {
     // Fallback if no reasons (shouldn't happen)
-    return {
-      playerId: candidate.playerId,
-      playerName: candidate.playerName,
-      message: `${candidate.playerName} играет настолько средне, что даже прожарить не за что.`,
-      stats: {
-        wins: candidate.stats.wins,
-        losses: candidate.stats.losses,
-        winRate: candidate.stats.winRate,
-        avgDeaths: Math.round(candidate.stats.avgDeaths * 10) / 10,
-      },
-    };
+    return toRoastResult(
+      candidate,
+      `${candidate.playerName} играет настолько средне, что даже прожарить не за что.`,
+    );
   }
 
-  const template = selectTemplate(primaryReason.category, candidate.playerId);
+  const template = getPlayerPreferences(candidate.playerId).maxToxicity === "hard"
+    ? selectTemplate(primaryReason.category, candidate.playerId)
+    : GENTLE_TEMPLATES[primaryReason.category];
   const roastText = fillTemplate(
     template,
     primaryReason.data,
     candidate.playerName,
   );
 
-  return {
-    playerId: candidate.playerId,
-    playerName: candidate.playerName,
-    message: roastText,
-    stats: {
-      wins: candidate.stats.wins,
-      losses: candidate.stats.losses,
-      winRate: candidate.stats.winRate,
-      avgDeaths: Math.round(candidate.stats.avgDeaths * 10) / 10,
-    },
-  };
+  return toRoastResult(candidate, roastText);
+}
+
+/**
+ * Writes the roast for a candidate: AI when enabled and available, the template otherwise
+ */
+async function writeRoast(
+  candidate: RoastCandidate,
+  chatId?: string,
+  requester?: AiRequester,
+): Promise<RoastResult> {
+  if (ROAST_MODE === "ai" && isLlmConfigured()) {
+    const aiRoast = await writeAiRoast(candidate, chatId, requester);
+    if (aiRoast) return toRoastResult(candidate, aiRoast);
+  }
+  return buildRoast(candidate);
 }
 
 /**
@@ -529,38 +700,109 @@ function hasRealPoints(candidate: RoastCandidate): boolean {
   );
 }
 
+// ============================================================================
+// VICTIM ROTATION
+// ============================================================================
+
 /**
- * Generates a new roast with random victim selection
- * Priority: players with real points (not ghost) > everyone else
+ * Roast history of a chat within the keep window
+ * The main chat starts from the legacy single last victim, so the upgrade doesn't reset it
  */
-async function generateNewRoast(
-  excludePlayerId: number | null,
-): Promise<RoastResult> {
-  const candidates = await collectAllCandidates();
+function getHistory(chatId: string): RoastHistoryEntry[] {
+  const stored = roastHistory.get(chatId);
+  if (stored) {
+    return stored.filter((entry) => Date.now() - entry.at < HISTORY_KEEP_DAYS * DAY_MS);
+  }
 
-  // Filter out excluded player
-  const available = candidates.filter((c) => c.playerId !== excludePlayerId);
+  const legacyVictim = roastState.get(LAST_VICTIM_KEY);
+  if (chatId === config.telegramChatId && legacyVictim !== undefined) {
+    const at = Date.now() - DAY_MS;
+    const seeded = [{ playerId: legacyVictim, at, day: getLogicalDateKey(at, getChatTimeSettings(chatId)) }];
+    roastHistory.set(chatId, seeded);
+    roastState.delete(LAST_VICTIM_KEY);
+    return seeded;
+  }
+  return [];
+}
 
-  if (available.length === 0) {
-    throw new Error("No candidates found for roasting");
+function recordRoast(chatId: string, playerId: number, targeted: boolean): void {
+  const day = getTodayKey(chatId);
+  const history = getHistory(chatId);
+  // Repeating /roast @player on the same day is the same roast, counted once
+  if (targeted && history.some((e) => e.playerId === playerId && e.day === day)) return;
+  roastHistory.set(chatId, [...history, { playerId, at: Date.now(), day, targeted: targeted || undefined }]);
+}
+
+/**
+ * How many times each player was roasted in the fairness window
+ */
+function countRecentRoasts(history: RoastHistoryEntry[]): Map<number, number> {
+  const counts = new Map<number, number>();
+  for (const entry of history) {
+    if (Date.now() - entry.at < FAIRNESS_WINDOW_DAYS * DAY_MS) {
+      counts.set(entry.playerId, (counts.get(entry.playerId) ?? 0) + 1);
+    }
   }
+  return counts;
+}
 
-  // Try to find players with real points (loser, feeder, bot, tilter, one_trick)
-  const withPoints = available.filter(hasRealPoints);
+/**
+ * Picks a random candidate; each one's chance falls with the square of their recent roasts
+ */
+function pickWeighted(pool: RoastCandidate[], counts: Map<number, number>): RoastCandidate {
+  const weights = pool.map((c) => 1 / (1 + (counts.get(c.playerId) ?? 0)) ** 2);
+  let roll = Math.random() * weights.reduce((sum, w) => sum + w, 0);
+  for (let i = 0; i < pool.length; i++) {
+    roll -= weights[i];
+    if (roll < 0) return pool[i];
+  }
+  return pool[pool.length - 1];
+}
 
-  // Use players with points if any, otherwise all
-  const pool = withPoints.length > 0 ? withPoints : available;
-  const poolName = withPoints.length > 0 ? "with points" : "all";
+/**
+ * Chooses the victim of the day:
+ * - not yesterday's victim (unless they're the only one)
+ * - nobody over MAX_ROASTS_PER_WINDOW a week while others have fewer
+ * - players with real points (not ghost/normie) first
+ * - among those, weighted towards the least roasted
+ */
+function chooseVictim(candidates: RoastCandidate[], history: RoastHistoryEntry[]): RoastCandidate {
+  const lastVictimId = [...history].reverse().find((e) => !e.targeted)?.playerId;
+  const notRepeated = candidates.filter((c) => c.playerId !== lastVictimId);
+  const available = notRepeated.length > 0 ? notRepeated : candidates;
 
-  // Random selection from pool
-  const randomIndex = Math.floor(Math.random() * pool.length);
-  const victim = pool[randomIndex];
+  const counts = countRecentRoasts(history);
+  const underCap = available.filter((c) => (counts.get(c.playerId) ?? 0) < MAX_ROASTS_PER_WINDOW);
+  const minCount = Math.min(...available.map((c) => counts.get(c.playerId) ?? 0));
+  const fair = underCap.length > 0 ? underCap : available.filter((c) => (counts.get(c.playerId) ?? 0) === minCount);
 
+  // Try to find players with real points (loser, feeder, bot, tilter, one_trick)
+  const withPoints = fair.filter(hasRealPoints);
+  const pool = withPoints.length > 0 ? withPoints : fair;
+  const poolName = withPoints.length > 0 ? "with points" : "all";
+
+  const victim = pickWeighted(pool, counts);
   console.log(
-    `[ROAST] Selected from ${poolName} (${pool.length}): ${victim.playerName} (score=${victim.roastScore.toFixed(1)})`,
+    `[ROAST] Selected from ${poolName} (${pool.length} of ${candidates.length}): ${victim.playerName} ` +
+      `(score=${victim.roastScore.toFixed(1)}, roasted ${counts.get(victim.playerId) ?? 0}x this week)`,
   );
+  return victim;
+}
 
-  return buildRoast(victim);
+/**
+ * Generates a new roast with fair victim rotation
+ */
+async function generateNewRoast(
+  playerIds: number[],
+  history: RoastHistoryEntry[],
+  chatId?: string,
+): Promise<RoastResult> {
+  // Players who opted out in /settings are never picked
+  const candidates = await collectAllCandidates(playerIds.filter((id) => getPlayerPreferences(id).roasts));
+  if (candidates.length === 0) {
+    throw new Error("No candidates found for roasting");
+  }
+  return writeRoast(chooseVictim(candidates, history), chatId);
 }
 
 // ============================================================================
@@ -568,46 +810,79 @@ async function generateNewRoast(
 // ============================================================================
 
 /**
- * Gets the roast of the day (cached)
- * Returns the same roast for the entire day
+ * Gets the roast of the day for a chat (cached)
+ * Returns the same roast for the entire day; the victim rotates fairly across the chat's roster
  */
-export async function getRoastOfTheDay(): Promise<RoastResult> {
-  const key = getTodayKey();
+export async function getRoastOfTheDay(chatId: string | number): Promise<RoastResult> {
+  const chatKey = String(chatId);
+  const key = `${chatKey}:${getTodayKey(chatKey)}`;
 
-  // Check cache
-  if (roastCache.has(key)) {
+  // Check cache (a victim who has opted out since gets replaced)
+  const cached = roastCache.get(key);
+  if (cached && getPlayerPreferences(cached.playerId).roasts) {
     console.log(`[ROAST] Returning cached roast for ${key}`);
-    return roastCache.get(key)!;
+    return cached;
   }
 
   console.log(`[ROAST] Generating new roast for ${key}`);
 
-  // Generate new roast
-  const result = await generateNewRoast(lastVictimId);
+  const result = await generateNewRoast(getChatPlayerIds(chatKey), getHistory(chatKey), chatKey);
 
   // Update cache and history
-  roastCache.set(key, result);
-  lastVictimId = result.playerId;
+  roastCache.set(key, result, ROAST_CACHE_TTL_MS);
+  recordRoast(chatKey, result.playerId, false);
+
+  return result;
+}
+
+/**
+ * Roasts a specific player (/roast @player). Counts towards the chat's rotation.
+ * Cached for the day like the roast of the day, so repeating the command doesn't reroll it.
+ * The LLM call counts against the requester's AI quota; once it's exhausted the roast uses a template.
+ */
+export async function getTargetedRoast(
+  playerId: number,
+  chatId: string | number,
+  requester?: AiRequester,
+): Promise<RoastResult> {
+  const chatKey = String(chatId);
+  const key = `${chatKey}:${getTodayKey(chatKey)}:${playerId}`;
+
+  const cached = roastCache.get(key);
+  if (cached) {
+    console.log(`[ROAST] Returning cached roast for ${key}`);
+    return cached;
+  }
+
+  const candidate = await collectPlayerStats(playerId);
+  if (!candidate) {
+    throw new Error(`Failed to collect roast stats for ${playerId}`);
+  }
+  const result = await writeRoast(candidate, chatKey, requester);
 
+  roastCache.set(key, result, ROAST_CACHE_TTL_MS);
+  recordRoast(chatKey, playerId, true);
   return result;
 }
 
 /**
  * Generates a roast with optional exclusion (for testing)
- * Bypasses daily cache
+ * Bypasses daily cache and history
  */
 export async function generateRoastWithExclusion(
   excludePlayerId: number | null,
 ): Promise<RoastResult> {
-  return generateNewRoast(excludePlayerId);
+  const history = excludePlayerId === null ? [] : [{ playerId: excludePlayerId, at: Date.now(), day: "" }];
+  return generateNewRoast(getPlayerIds(), history);
 }
 
 /**
  * Formats roast result as HTML message for Telegram
+ * @param targeted - A /roast @player request rather than the roast of the day
  */
-export function formatRoastMessage(roast: RoastResult): string {
+export function formatRoastMessage(roast: RoastResult, targeted: boolean = false): string {
   const lines: string[] = [
-    `🎯 <b>${roast.playerName}</b>, сегодня твой день`,
+    `🎯 <b>${escapeHtml(roast.playerName)}</b>, ${targeted ? "на тебя поступил заказ" : "сегодня твой день"}`,
     "",
   ];
 
@@ -621,7 +896,7 @@ export function formatRoastMessage(roast: RoastResult): string {
   }
 
   // The roast itself
-  lines.push(`<i>"${roast.message}"</i>`);
+  lines.push(`<i>"${escapeHtml(roast.message)}"</i>`);
 
   return lines.join("\n");
 }
@@ -1,4 +1,11 @@
 import type { RecentMatch } from "./opendota.js";
+import {
+  DEFAULT_TIME_SETTINGS,
+  getLogicalDateKey,
+  getTimeOfDay,
+  type DateRange,
+  type TimeSettings,
+} from "./time.js";
 
 export interface HeroMatch {
   heroId: number;
@@ -26,183 +33,62 @@ export interface PlayerStats {
   longWins: number;
   nightMatches: number;
   morningMatches: number;
+  // Multi-day stats for weekly/monthly digests
+  activeDays: number;
+  longestWinStreak: number;
 }
 
-export type StatsPeriod = "today" | "yesterday" | "week" | "month";
+/**
+ * Named stats periods (resolved to a DateRange with getPeriodRange)
+ */
+export type StatsPeriod =
+  | "today"
+  | "yesterday"
+  | "week"
+  | "lastWeek"
+  | "month"
+  | "lastMonth"
+  | "year";
 
 /**
  * Determines if the player won the match
  * Player slots 0-127 are Radiant, 128-255 are Dire
  */
-function isWin(match: RecentMatch): boolean {
+export function isWin(match: RecentMatch): boolean {
   const isRadiant = match.player_slot < 128;
   return isRadiant === match.radiant_win;
 }
 
-/**
- * Day start hour in MSK timezone (6:00 AM)
- * Day is considered to start at 6:00 MSK, not midnight
- */
-const DAY_START_HOUR_MSK = 6;
-const MSK_OFFSET_HOURS = 3; // UTC+3
 const LONG_MATCH_THRESHOLD_SECONDS = 45 * 60;
 
 /**
- * Gets current MSK time components using UTC methods.
- * By adding MSK offset to UTC time and using getUTC* methods,
- * we correctly get MSK time regardless of server timezone.
- */
-function getMskTimeComponents() {
-  const now = new Date();
-  const mskTime = now.getTime() + MSK_OFFSET_HOURS * 60 * 60 * 1000;
-  const mskDate = new Date(mskTime);
-
-  // Use getUTC* methods since we've shifted the time to make UTC act like MSK
-  return {
-    year: mskDate.getUTCFullYear(),
-    month: mskDate.getUTCMonth(),
-    date: mskDate.getUTCDate(),
-    hours: mskDate.getUTCHours(),
-    day: mskDate.getUTCDay(),
-  };
-}
-
-/**
- * Creates a UTC timestamp (in seconds) for a specific MSK time.
- * Uses Date.UTC to avoid local timezone interference.
+ * Current win or loss streak from the latest matches (input sorted newest first)
  */
-function mskToUtcTimestamp(
-  year: number,
-  month: number,
-  date: number,
-  hours: number
-): number {
-  // Create UTC time for the given components, then subtract MSK offset to get actual UTC
-  const utcMillis = Date.UTC(year, month, date, hours, 0, 0, 0);
-  return (utcMillis - MSK_OFFSET_HOURS * 60 * 60 * 1000) / 1000;
-}
-
-/**
- * Gets MSK hour from match start time (UTC seconds)
- */
-function getMskHourFromStartTime(startTimeSeconds: number): number {
-  const mskTimestamp = startTimeSeconds + MSK_OFFSET_HOURS * 60 * 60;
-  return new Date(mskTimestamp * 1000).getUTCHours();
-}
-
-/**
- * Gets the start timestamp for a given period
- * For "today", day starts at 6:00 MSK instead of midnight
- */
-function getPeriodStartTimestamp(period: StatsPeriod): number {
-  const msk = getMskTimeComponents();
-
-  switch (period) {
-    case "today": {
-      // Day starts at 6:00 MSK
-      // If current MSK time is before 6:00, use yesterday's 6:00
-      let { year, month, date } = msk;
-
-      if (msk.hours < DAY_START_HOUR_MSK) {
-        // Before 6:00 MSK - use previous day's 6:00
-        // Handle month/year boundaries by using Date arithmetic
-        const prevDay = new Date(Date.UTC(year, month, date - 1));
-        year = prevDay.getUTCFullYear();
-        month = prevDay.getUTCMonth();
-        date = prevDay.getUTCDate();
-      }
-
-      return mskToUtcTimestamp(year, month, date, DAY_START_HOUR_MSK);
-    }
-    case "yesterday": {
-      // Yesterday: from 6:00 MSK of the day before "today"
-      // If current MSK time is before 6:00, go back 2 days, otherwise 1 day
-      const { year, month, date } = msk;
-      const daysBack = msk.hours < DAY_START_HOUR_MSK ? 2 : 1;
-      const prevDay = new Date(Date.UTC(year, month, date - daysBack));
-
-      return mskToUtcTimestamp(
-        prevDay.getUTCFullYear(),
-        prevDay.getUTCMonth(),
-        prevDay.getUTCDate(),
-        DAY_START_HOUR_MSK
-      );
-    }
-    case "week": {
-      // Get the start of the current week (Monday at 6:00 MSK)
-      const dayOfWeek = msk.day;
-      const daysToMonday = dayOfWeek === 0 ? 6 : dayOfWeek - 1;
-
-      // If it's Monday before 6:00, we're still in previous week
-      let adjustedDays = daysToMonday;
-      if (daysToMonday === 0 && msk.hours < DAY_START_HOUR_MSK) {
-        adjustedDays = 7;
-      }
-
-      // Calculate Monday's date using Date arithmetic to handle month/year boundaries
-      const mondayDate = new Date(
-        Date.UTC(msk.year, msk.month, msk.date - adjustedDays)
-      );
-
-      return mskToUtcTimestamp(
-        mondayDate.getUTCFullYear(),
-        mondayDate.getUTCMonth(),
-        mondayDate.getUTCDate(),
-        DAY_START_HOUR_MSK
-      );
-    }
-    case "month": {
-      // Get the start of the current month (1st at 6:00 MSK)
-      // If it's 1st before 6:00, use previous month
-      let { year, month } = msk;
-
-      if (msk.date === 1 && msk.hours < DAY_START_HOUR_MSK) {
-        // Handle year boundary
-        const prevMonth = new Date(Date.UTC(year, month - 1, 1));
-        year = prevMonth.getUTCFullYear();
-        month = prevMonth.getUTCMonth();
-      }
-
-      return mskToUtcTimestamp(year, month, 1, DAY_START_HOUR_MSK);
-    }
+export function getCurrentStreak(matches: RecentMatch[]): { isWin: boolean; count: number } | null {
+  if (matches.length === 0) return null;
+
+  const streakIsWin = isWin(matches[0]);
+  let count = 0;
+  for (const match of matches) {
+    if (isWin(match) !== streakIsWin) break;
+    count++;
   }
+  return { isWin: streakIsWin, count };
 }
 
 /**
- * Gets the end timestamp for a given period (exclusive)
- * Returns null for periods that don't have an upper bound (today, week, month)
- * Returns today's start for "yesterday" period
- */
-function getPeriodEndTimestamp(period: StatsPeriod): number | null {
-  if (period !== "yesterday") return null;
-  return getPeriodStartTimestamp("today");
-}
-
-/**
- * Filters matches to only include those from the specified period
+ * Filters matches to only include those from the specified range
  */
-function filterMatchesByPeriod(
-  matches: RecentMatch[],
-  period: StatsPeriod
-): RecentMatch[] {
-  const periodStart = getPeriodStartTimestamp(period);
-  const periodEnd = getPeriodEndTimestamp(period);
+function filterMatchesByRange(matches: RecentMatch[], range: DateRange): RecentMatch[] {
+  const { from, to } = range;
 
   return matches.filter((match) => {
-    if (match.start_time < periodStart) return false;
-    if (periodEnd !== null && match.start_time >= periodEnd) return false;
+    if (match.start_time < from) return false;
+    if (to !== null && match.start_time >= to) return false;
     return true;
   });
 }
 
-/**
- * Filters matches to only include those from today (local time)
- * @deprecated Use filterMatchesByPeriod with "today" period instead
- */
-function filterTodayMatches(matches: RecentMatch[]): RecentMatch[] {
-  return filterMatchesByPeriod(matches, "today");
-}
-
 /**
  * Calculates win/loss statistics for a player's matches
  */
@@ -210,11 +96,12 @@ export function calculateStats(
   playerId: number,
   playerName: string,
   matches: RecentMatch[],
-  period: StatsPeriod = "today",
+  range: DateRange,
   avgApm?: number,
-  rank?: number | null
+  rank?: number | null,
+  timeSettings: TimeSettings = DEFAULT_TIME_SETTINGS
 ): PlayerStats {
-  const filteredMatches = filterMatchesByPeriod(matches, period);
+  const filteredMatches = filterMatchesByRange(matches, range);
 
   const wins = filteredMatches.filter(isWin).length;
   const losses = filteredMatches.length - wins;
@@ -242,21 +129,32 @@ export function calculateStats(
   let longWins = 0;
   let nightMatches = 0;
   let morningMatches = 0;
+  const activeDates = new Set<string>();
 
   for (const match of filteredMatches) {
+    activeDates.add(getLogicalDateKey(match.start_time * 1000, timeSettings));
+
     if (match.duration >= LONG_MATCH_THRESHOLD_SECONDS) {
       longMatches++;
       if (isWin(match)) longWins++;
     }
 
-    const mskHour = getMskHourFromStartTime(match.start_time);
-    if (mskHour >= 0 && mskHour < 6) {
+    const timeOfDay = getTimeOfDay(match.start_time, timeSettings);
+    if (timeOfDay === "night") {
       nightMatches++;
-    } else if (mskHour >= 6 && mskHour < 12) {
+    } else if (timeOfDay === "morning") {
       morningMatches++;
     }
   }
 
+  // Longest win streak in chronological order
+  let longestWinStreak = 0;
+  let currentStreak = 0;
+  for (const match of [...filteredMatches].sort((a, b) => a.start_time - b.start_time)) {
+    currentStreak = isWin(match) ? currentStreak + 1 : 0;
+    longestWinStreak = Math.max(longestWinStreak, currentStreak);
+  }
+
   // Calculate average KDA
   let avgKda: number | undefined;
   if (filteredMatches.length > 0) {
@@ -288,5 +186,7 @@ export function calculateStats(
     longWins,
     nightMatches,
     morningMatches,
+    activeDays: activeDates.size,
+    longestWinStreak,
   };
 }
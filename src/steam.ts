@@ -119,3 +119,55 @@ export async function getPlayerSummaries(
 export function isPlayingDota(player: SteamPlayer): boolean {
   return player.gameid === DOTA_2_GAME_ID;
 }
+
+interface ResolveVanityUrlResponse {
+  response: {
+    success: number; // 1 = found, 42 = no match
+    steamid?: string;
+  };
+}
+
+/**
+ * Resolves a Steam community vanity name (steamcommunity.com/id/<name>) to Steam32 ID
+ * Returns null if the name doesn't exist
+ */
+export async function resolveVanityUrl(vanityName: string, apiKey: string): Promise<number | null> {
+  if (!apiKey) {
+    throw new Error("Steam API key is not configured");
+  }
+
+  const url = `${STEAM_API_BASE}/ISteamUser/ResolveVanityURL/v0001/?key=${apiKey}&vanityurl=${encodeURIComponent(vanityName)}`;
+  const response = await getDirectFetch()(url);
+  if (!response.ok) {
+    throw new Error(`Steam API error: ${response.status} ${response.statusText}`);
+  }
+
+  const data: ResolveVanityUrlResponse = await response.json();
+  if (data.response.success !== 1 || !data.response.steamid) return null;
+  return steam64ToSteam32(data.response.steamid);
+}
+
+/**
+ * Parses a Steam account reference into a Steam32 ID.
+ * Supports: Steam32/Steam64 IDs, OpenDota/Dotabuff/Stratz player URLs,
+ * steamcommunity.com/profiles/<steam64> and steamcommunity.com/id/<vanity>
+ */
+export async function parseSteamAccountRef(input: string, apiKey: string): Promise<number | null> {
+  const trimmed = input.trim();
+
+  const playerUrl = trimmed.match(/(?:opendota\.com|dotabuff\.com|stratz\.com)\/players\/(\d+)/i);
+  if (playerUrl) return parseInt(playerUrl[1], 10);
+
+  const profileUrl = trimmed.match(/steamcommunity\.com\/profiles\/(\d+)/i);
+  if (profileUrl) return steam64ToSteam32(profileUrl[1]);
+
+  const vanityUrl = trimmed.match(/steamcommunity\.com\/id\/([^/?#\s]+)/i);
+  if (vanityUrl) return resolveVanityUrl(vanityUrl[1], apiKey);
+
+  if (/^\d+$/.test(trimmed)) {
+    const id = BigInt(trimmed);
+    return id >= STEAM_ID_OFFSET ? steam64ToSteam32(trimmed) : Number(id);
+  }
+
+  return null;
+}
@@ -0,0 +1,224 @@
+/**
+ * Embedded persistent key-value store.
+ *
+ * Each namespace lives in its own JSON file under DATA_DIR (a mounted volume in
+ * Docker), so caches and bot memory survive container re-creation.
+ *
+ * Semantics:
+ * - get/set are synchronous and served from memory; writes are flushed to disk
+ *   with a short debounce (and on shutdown via flushAllStores)
+ * - every entry can have an optional TTL; expired entries are dropped lazily
+ * - every namespace declares a schema version; older files are upgraded entry by
+ *   entry through `migrations`, or discarded if no migration path exists
+ */
+import fs from "node:fs";
+import path from "node:path";
+
+const DATA_DIR = process.env.DATA_DIR || path.resolve("data");
+const FLUSH_DELAY_MS = 1000;
+
+interface StoredEntry {
+  value: unknown;
+  expiresAt: number | null;
+}
+
+interface StoreFile {
+  version: number;
+  entries: Record<string, StoredEntry>;
+}
+
+export interface StoreOptions {
+  /** Schema version of stored values. Bump when the value shape changes. */
+  version?: number;
+  /**
+   * Per-entry upgrade steps keyed by target version.
+   * migrations[2] converts a version-1 value into a version-2 value.
+   * Return undefined to drop the entry.
+   */
+  migrations?: Record<number, (value: unknown) => unknown>;
+}
+
+export interface Store<T> {
+  get(key: string): T | undefined;
+  has(key: string): boolean;
+  set(key: string, value: T, ttlMs?: number): void;
+  delete(key: string): void;
+  entries(): [string, T][];
+  clear(): void;
+  flush(): void;
+}
+
+const openStores = new Map<string, Store<unknown>>();
+
+/**
+ * Path of the JSON file backing a namespace
+ */
+function getStorePath(namespace: string): string {
+  return path.join(DATA_DIR, `${namespace}.json`);
+}
+
+/**
+ * Applies migrations to bring a loaded file up to the current version.
+ * Returns null if the file cannot be upgraded.
+ */
+function migrateFile(
+  namespace: string,
+  file: StoreFile,
+  version: number,
+  migrations: Record<number, (value: unknown) => unknown>,
+): Record<string, StoredEntry> | null {
+  if (file.version === version) return file.entries;
+
+  if (file.version > version) {
+    console.warn(`[STORAGE] ${namespace}: file version ${file.version} is newer than ${version}, discarding`);
+    return null;
+  }
+
+  const entries: Record<string, StoredEntry> = {};
+  for (const [key, entry] of Object.entries(file.entries)) {
+    let value: unknown = entry.value;
+    for (let v = file.version + 1; v <= version && value !== undefined; v++) {
+      const step = migrations[v];
+      if (!step) {
+        console.warn(`[STORAGE] ${namespace}: no migration to version ${v}, discarding`);
+        return null;
+      }
+      value = step(value);
+    }
+    if (value !== undefined) {
+      entries[key] = { value, expiresAt: entry.expiresAt };
+    }
+  }
+
+  console.log(`[STORAGE] ${namespace}: migrated ${Object.keys(entries).length} entries from v${file.version} to v${version}`);
+  return entries;
+}
+
+/**
+ * Reads a namespace file from disk. Missing or corrupt files yield an empty store.
+ */
+function loadEntries(namespace: string, options: StoreOptions): Map<string, StoredEntry> {
+  const filePath = getStorePath(namespace);
+  const version = options.version ?? 1;
+
+  if (!fs.existsSync(filePath)) return new Map();
+
+  try {
+    const file = JSON.parse(fs.readFileSync(filePath, "utf8")) as StoreFile;
+    const entries = migrateFile(namespace, file, version, options.migrations ?? {});
+    if (!entries) return new Map();
+
+    const now = Date.now();
+    const result = new Map<string, StoredEntry>();
+    for (const [key, entry] of Object.entries(entries)) {
+      if (entry.expiresAt !== null && entry.expiresAt <= now) continue;
+      result.set(key, entry);
+    }
+    console.log(`[STORAGE] ${namespace}: loaded ${result.size} entries`);
+    return result;
+  } catch (error) {
+    console.error(`[STORAGE] ${namespace}: failed to read ${filePath}, starting empty:`, error);
+    return new Map();
+  }
+}
+
+/**
+ * Opens (or returns the already opened) store for a namespace
+ */
+export function openStore<T>(namespace: string, options: StoreOptions = {}): Store<T> {
+  const existing = openStores.get(namespace);
+  if (existing) return existing as Store<T>;
+
+  const version = options.version ?? 1;
+  let entries: Map<string, StoredEntry> | null = null;
+  let flushTimer: NodeJS.Timeout | null = null;
+
+  // Load lazily so importing a module doesn't touch the disk
+  const getEntries = (): Map<string, StoredEntry> => {
+    if (!entries) entries = loadEntries(namespace, options);
+    return entries;
+  };
+
+  const isExpired = (entry: StoredEntry): boolean =>
+    entry.expiresAt !== null && Date.now() > entry.expiresAt;
+
+  const flush = (): void => {
+    if (flushTimer) {
+      clearTimeout(flushTimer);
+      flushTimer = null;
+    }
+    if (!entries) return;
+
+    const file: StoreFile = { version, entries: {} };
+    for (const [key, entry] of entries) {
+      if (!isExpired(entry)) file.entries[key] = entry;
+    }
+
+    try {
+      const filePath = getStorePath(namespace);
+      fs.mkdirSync(DATA_DIR, { recursive: true });
+      // Write to a temp file first so a crash mid-write never corrupts the store
+      const tmpPath = `${filePath}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(file));
+      fs.renameSync(tmpPath, filePath);
+    } catch (error) {
+      console.error(`[STORAGE] ${namespace}: failed to write:`, error);
+    }
+  };
+
+  const scheduleFlush = (): void => {
+    if (flushTimer) return;
+    flushTimer = setTimeout(flush, FLUSH_DELAY_MS);
+    flushTimer.unref();
+  };
+
+  const store: Store<T> = {
+    get(key) {
+      const entry = getEntries().get(key);
+      if (!entry) return undefined;
+      if (isExpired(entry)) {
+        getEntries().delete(key);
+        scheduleFlush();
+        return undefined;
+      }
+      return entry.value as T;
+    },
+    has(key) {
+      return store.get(key) !== undefined;
+    },
+    set(key, value, ttlMs) {
+      getEntries().set(key, {
+        value,
+        expiresAt: ttlMs !== undefined ? Date.now() + ttlMs : null,
+      });
+      scheduleFlush();
+    },
+    delete(key) {
+      if (getEntries().delete(key)) scheduleFlush();
+    },
+    entries() {
+      const result: [string, T][] = [];
+      for (const [key, entry] of getEntries()) {
+        if (!isExpired(entry)) result.push([key, entry.value as T]);
+      }
+      return result;
+    },
+    clear() {
+      getEntries().clear();
+      scheduleFlush();
+    },
+    flush,
+  };
+
+  openStores.set(namespace, store as Store<unknown>);
+  return store;
+}
+
+/**
+ * Writes all pending changes to disk (call on shutdown)
+ */
+export function flushAllStores(): void {
+  for (const store of openStores.values()) {
+    store.flush();
+  }
+}
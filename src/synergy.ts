@@ -0,0 +1,179 @@
+/**
+ * Party synergy: cross-references tracked players' matches to find games where
+ * several of them were on the same team, and computes duo/trio win rates.
+ */
+import { getChatPlayerIds } from "./chats.js";
+import { findPlayerBySteamId, getPlayerDisplayName } from "./config.js";
+import { getPlayerMatches, getStoredMatches } from "./match-history.js";
+import type { RecentMatch } from "./opendota.js";
+import { isWin } from "./stats.js";
+import { escapeHtml } from "./telegram-html.js";
+import type { DateRange } from "./time.js";
+
+/**
+ * Record of a group of players (duo or trio) queued on the same team
+ */
+export interface GroupRecord {
+  playerIds: number[];  // sorted ascending
+  matches: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+}
+
+export interface SynergyStats {
+  partyMatches: number;   // matches with 2+ tracked players on one team
+  duos: GroupRecord[];    // sorted by win rate, then games
+  trios: GroupRecord[];
+}
+
+// Groups with fewer games are listed but don't compete for best/worst
+export const SYNERGY_MIN_MATCHES = 3;
+
+const SYNERGY_MAX_DUOS = 10;
+const SYNERGY_MAX_TRIOS = 5;
+
+/**
+ * All k-sized combinations of a sorted list
+ */
+function combinations(ids: number[], size: number): number[][] {
+  if (size === 0) return [[]];
+  const result: number[][] = [];
+  ids.forEach((id, index) => {
+    for (const rest of combinations(ids.slice(index + 1), size - 1)) {
+      result.push([id, ...rest]);
+    }
+  });
+  return result;
+}
+
+function sortGroups(groups: Iterable<GroupRecord>): GroupRecord[] {
+  return [...groups].sort((a, b) => b.winRate - a.winRate || b.matches - a.matches);
+}
+
+/**
+ * Computes duo and trio records from each player's matches.
+ * Players are in the same party when they share match_id and side (player_slot < 128 = Radiant).
+ */
+export function calculateSynergy(matchesByPlayer: Map<number, RecentMatch[]>): SynergyStats {
+  // "matchId:side" -> players on that side and whether the side won
+  const teams = new Map<string, { playerIds: number[]; isWin: boolean }>();
+  for (const [playerId, matches] of matchesByPlayer) {
+    for (const match of matches) {
+      const key = `${match.match_id}:${match.player_slot < 128 ? "radiant" : "dire"}`;
+      const team = teams.get(key) ?? { playerIds: [], isWin: isWin(match) };
+      team.playerIds.push(playerId);
+      teams.set(key, team);
+    }
+  }
+
+  const duos = new Map<string, GroupRecord>();
+  const trios = new Map<string, GroupRecord>();
+  let partyMatches = 0;
+
+  for (const team of teams.values()) {
+    if (team.playerIds.length < 2) continue;
+    partyMatches++;
+
+    const sortedIds = [...team.playerIds].sort((a, b) => a - b);
+    for (const [size, groups] of [[2, duos], [3, trios]] as const) {
+      for (const playerIds of combinations(sortedIds, size)) {
+        const key = playerIds.join(",");
+        const record = groups.get(key) ?? { playerIds, matches: 0, wins: 0, losses: 0, winRate: 0 };
+        record.matches++;
+        if (team.isWin) record.wins++;
+        else record.losses++;
+        record.winRate = Math.round((record.wins / record.matches) * 100);
+        groups.set(key, record);
+      }
+    }
+  }
+
+  return { partyMatches, duos: sortGroups(duos.values()), trios: sortGroups(trios.values()) };
+}
+
+/**
+ * Synergy of the given players over a range, from the local match history
+ */
+export function getPartySynergy(playerIds: number[], range: DateRange): SynergyStats {
+  const matchesByPlayer = new Map(
+    playerIds.map((id) => [id, getStoredMatches(id, range.from, range.to ?? undefined)])
+  );
+  return calculateSynergy(matchesByPlayer);
+}
+
+/**
+ * Best and worst duo among those with enough games (undefined if there is no meaningful pair)
+ */
+export function getBestAndWorstDuos(synergy: SynergyStats): { best?: GroupRecord; worst?: GroupRecord } {
+  const eligible = synergy.duos.filter((d) => d.matches >= SYNERGY_MIN_MATCHES);
+  if (eligible.length === 0) return {};
+
+  const best = eligible[0];
+  const worst = eligible.length > 1 ? eligible[eligible.length - 1] : undefined;
+  return { best, worst: worst && worst.winRate < best.winRate ? worst : undefined };
+}
+
+function formatGroupNames(group: GroupRecord): string {
+  return group.playerIds
+    .map((id) => {
+      const player = findPlayerBySteamId(id);
+      return escapeHtml(player ? getPlayerDisplayName(player) : String(id));
+    })
+    .join(" + ");
+}
+
+function formatGroupLine(group: GroupRecord): string {
+  const emoji = group.winRate >= 60 ? "🟢" : group.winRate >= 45 ? "🟡" : "🔴";
+  return `${emoji} ${formatGroupNames(group)}: ${group.winRate}% WR (${group.wins}W/${group.losses}L)`;
+}
+
+/**
+ * Formats the /synergy message
+ */
+export function formatSynergyMessage(synergy: SynergyStats, range: DateRange): string {
+  const lines = [`🤝 <b>Синергия — ${range.title}</b>`];
+
+  if (synergy.partyMatches === 0) {
+    lines.push("", "Совместных игр за период нет.");
+    return lines.join("\n");
+  }
+
+  lines.push("", `Игр в пати: ${synergy.partyMatches}`);
+
+  const { best, worst } = getBestAndWorstDuos(synergy);
+  if (best) lines.push(`🔺 Лучший дуэт: ${formatGroupNames(best)} (${best.winRate}% WR, ${best.matches} игр)`);
+  if (worst) lines.push(`🔻 Худший дуэт: ${formatGroupNames(worst)} (${worst.winRate}% WR, ${worst.matches} игр)`);
+
+  // Most frequent pairs first: that's who actually queues together
+  const frequentDuos = [...synergy.duos].sort((a, b) => b.matches - a.matches || b.winRate - a.winRate);
+  lines.push("", "👥 <b>Дуэты</b>");
+  lines.push(...frequentDuos.slice(0, SYNERGY_MAX_DUOS).map(formatGroupLine));
+  if (synergy.duos.length > SYNERGY_MAX_DUOS) {
+    lines.push(`...и ещё ${synergy.duos.length - SYNERGY_MAX_DUOS}`);
+  }
+
+  const trios = synergy.trios.filter((t) => t.matches >= SYNERGY_MIN_MATCHES).slice(0, SYNERGY_MAX_TRIOS);
+  if (trios.length > 0) {
+    lines.push("", "👨‍👩‍👦 <b>Трио</b>");
+    lines.push(...trios.map(formatGroupLine));
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Builds the /synergy message for a chat's roster over a range
+ */
+export async function getChatSynergyMessage(range: DateRange, chatId: string): Promise<string> {
+  const playerIds = getChatPlayerIds(chatId);
+  // Brings the local match history the synergy is computed from up to date (one player at a time)
+  for (const playerId of playerIds) {
+    try {
+      await getPlayerMatches(playerId);
+    } catch (error) {
+      console.warn(`[SYNERGY] Failed to sync matches of ${playerId}:`, error);
+    }
+  }
+  return formatSynergyMessage(getPartySynergy(playerIds, range), range);
+}
@@ -9,3 +9,99 @@ export function escapeHtml(text: string): string {
     .replace(/</g, "&lt;")
     .replace(/>/g, "&gt;");
 }
+
+// Telegram rejects messages longer than this (counted in UTF-16 code units)
+export const TELEGRAM_MESSAGE_LIMIT = 4096;
+
+// Room left in every chunk for the closing and reopening tags added around a split
+const TAG_RESERVE = 256;
+
+const TAG_PATTERN = /<(\/?)([a-z-]+)[^>]*>/gi;
+
+/**
+ * Tags still open at the end of an HTML fragment, outermost first
+ */
+function getOpenTags(html: string): string[] {
+  const open: { name: string; tag: string }[] = [];
+  for (const match of html.matchAll(TAG_PATTERN)) {
+    const name = match[2].toLowerCase();
+    if (match[1]) {
+      const index = open.map((t) => t.name).lastIndexOf(name);
+      if (index !== -1) open.splice(index, 1);
+    } else {
+      open.push({ name, tag: match[0] });
+    }
+  }
+  return open.map((t) => t.tag);
+}
+
+function closeTags(openTags: string[]): string {
+  return [...openTags]
+    .reverse()
+    .map((tag) => `</${tag.match(/^<([a-z-]+)/i)![1]}>`)
+    .join("");
+}
+
+/**
+ * Cuts an over-long line, preferring whitespace and never inside a tag or an entity
+ */
+function splitLongLine(line: string, limit: number): string[] {
+  const parts: string[] = [];
+  let rest = line;
+  while (rest.length > limit) {
+    let cut = limit;
+    const space = rest.lastIndexOf(" ", cut);
+    if (space > limit / 2) cut = space + 1;
+    const tagStart = rest.lastIndexOf("<", cut - 1);
+    if (tagStart > rest.lastIndexOf(">", cut - 1)) cut = tagStart;
+    const entityStart = rest.lastIndexOf("&", cut - 1);
+    if (entityStart > rest.lastIndexOf(";", cut - 1)) cut = entityStart;
+    if (cut <= 0) cut = limit;
+    parts.push(rest.slice(0, cut));
+    rest = rest.slice(cut);
+  }
+  parts.push(rest);
+  return parts;
+}
+
+/**
+ * Packs pieces into chunks of at most `limit` characters, joined by `separator`
+ */
+function packPieces(pieces: string[], separator: string, limit: number): string[] {
+  const chunks: string[] = [];
+  let current = "";
+  for (const piece of pieces) {
+    const candidate = current ? current + separator + piece : piece;
+    if (candidate.length <= limit) {
+      current = candidate;
+      continue;
+    }
+    if (current) chunks.push(current);
+    current = piece;
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * Splits an HTML message into Telegram-sized chunks.
+ * Splits between sections (blank lines) first, then between lines, then inside a line;
+ * tags left open at a split are closed at the end of the chunk and reopened in the next one.
+ */
+export function splitHtmlMessage(html: string, limit: number = TELEGRAM_MESSAGE_LIMIT): string[] {
+  if (html.length <= limit) return [html];
+
+  const budget = limit - TAG_RESERVE;
+  const blocks = html.split("\n\n").flatMap((block) => {
+    if (block.length <= budget) return [block];
+    const lines = block.split("\n").flatMap((line) => splitLongLine(line, budget));
+    return packPieces(lines, "\n", budget);
+  });
+
+  let carried: string[] = [];
+  return packPieces(blocks, "\n\n", budget).map((chunk) => {
+    const text = carried.join("") + chunk;
+    carried = getOpenTags(text);
+    return text + closeTags(carried);
+  });
+}
@@ -0,0 +1,15 @@
+/**
+ * Points the persistent store at a fresh temporary directory, removed on exit.
+ * Test scripts import this first (before anything that opens a store),
+ * so a test run never writes to the real data/ directory.
+ */
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "pesiki-bot-test-"));
+process.env.DATA_DIR = dataDir;
+
+process.on("exit", () => {
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
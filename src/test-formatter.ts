@@ -3,8 +3,22 @@
  * Run with: npx tsx src/test-formatter.ts
  */
 
-import { formatStatsMessage, stripHtml } from "./formatter.js";
+import "./test-data-dir.js";
+import { findPlayerBySteamId, updatePlayer } from "./config.js";
+import { formatDigestMessage, formatStatsMessage, formatStatsPage, stripHtml } from "./formatter.js";
+import { setHeroesCache } from "./heroes.js";
+import type { RecentMatch } from "./opendota.js";
 import type { PlayerStats } from "./stats.js";
+import { calculateSynergy } from "./synergy.js";
+
+// Heroes used by the mock data, so the test doesn't call OpenDota
+setHeroesCache(
+  ["Anti-Mage", "Axe", "Bane", "Bloodseeker", "Crystal Maiden", "Drow Ranger"].map((name, index) => ({
+    id: index + 1,
+    name: `npc_dota_hero_${name.toLowerCase().replace(/[ -]/g, "_")}`,
+    localized_name: name,
+  })),
+);
 
 // Mock data to test formatting with heroes, APM, and KDA
 // Hero IDs: 1=Anti-Mage, 2=Axe, 3=Bane, 4=Bloodseeker, 5=Crystal Maiden, 6=Drow Ranger
@@ -35,6 +49,8 @@ const mockStats: PlayerStats[] = [
     longWins: 1,
     nightMatches: 1,
     morningMatches: 0,
+    activeDays: 3,
+    longestWinStreak: 4,
   },
   {
     playerId: 167818283,
@@ -62,6 +78,8 @@ const mockStats: PlayerStats[] = [
     longWins: 0,
     nightMatches: 4,
     morningMatches: 1,
+    activeDays: 2,
+    longestWinStreak: 2,
   },
   {
     playerId: 94014640,
@@ -88,6 +106,8 @@ const mockStats: PlayerStats[] = [
     longWins: 1,
     nightMatches: 1,
     morningMatches: 1,
+    activeDays: 1,
+    longestWinStreak: 1,
   },
   {
     playerId: 1869377945,
@@ -106,6 +126,8 @@ const mockStats: PlayerStats[] = [
     longWins: 0,
     nightMatches: 0,
     morningMatches: 0,
+    activeDays: 0,
+    longestWinStreak: 0,
   },
   {
     playerId: 126449680,
@@ -130,6 +152,8 @@ const mockStats: PlayerStats[] = [
     longWins: 0,
     nightMatches: 0,
     morningMatches: 3,
+    activeDays: 2,
+    longestWinStreak: 1,
   },
   {
     playerId: 92126977,
@@ -153,6 +177,8 @@ const mockStats: PlayerStats[] = [
     longWins: 0,
     nightMatches: 2,
     morningMatches: 0,
+    activeDays: 1,
+    longestWinStreak: 0,
   },
   {
     playerId: 40087920,
@@ -171,6 +197,8 @@ const mockStats: PlayerStats[] = [
     longWins: 0,
     nightMatches: 0,
     morningMatches: 0,
+    activeDays: 0,
+    longestWinStreak: 0,
   },
   {
     playerId: 12345678,
@@ -197,6 +225,121 @@ const mockStats: PlayerStats[] = [
     longWins: 2,
     nightMatches: 1,
     morningMatches: 0,
+    activeDays: 2,
+    longestWinStreak: 3,
+  },
+];
+
+// Extra players for the nominations check. With MAX_NOMINATIONS_PER_PLAYER = 2 the six active
+// players above can hold 12 nominations at most, so each of these wins the ones they'd miss
+const specialistStats: PlayerStats[] = [
+  {
+    playerId: 11111111,
+    playerName: "Marathoner",
+    wins: 3,
+    losses: 2,
+    totalMatches: 5,
+    winRate: 60,
+    heroes: [
+      { heroId: 1, isWin: true },
+      { heroId: 2, isWin: true },
+      { heroId: 3, isWin: true },
+      { heroId: 4, isWin: false },
+      { heroId: 5, isWin: false },
+    ],
+    avgApm: 120,
+    avgKda: 2.5, // Longest games → Марафонец and Любитель лейта
+    totalKills: 10,
+    totalDeaths: 15,
+    totalAssists: 20,
+    totalDurationSeconds: 18000,
+    avgDurationSeconds: 3600,
+    longMatches: 0,
+    longWins: 0,
+    nightMatches: 0,
+    morningMatches: 0,
+    activeDays: 2,
+    longestWinStreak: 3,
+  },
+  {
+    playerId: 22222222,
+    playerName: "Slayer",
+    wins: 2,
+    losses: 1,
+    totalMatches: 3,
+    winRate: 67,
+    heroes: [
+      { heroId: 6, isWin: true },
+      { heroId: 4, isWin: true },
+      { heroId: 2, isWin: false },
+    ],
+    avgApm: 170,
+    avgKda: 3, // Kills a lot but dies too → Дуэлянт and Киллер
+    totalKills: 45,
+    totalDeaths: 9,
+    totalAssists: 10,
+    totalDurationSeconds: 6300,
+    avgDurationSeconds: 2100,
+    longMatches: 0,
+    longWins: 0,
+    nightMatches: 0,
+    morningMatches: 0,
+    activeDays: 1,
+    longestWinStreak: 2,
+  },
+  {
+    playerId: 33333333,
+    playerName: "AfkPlayer",
+    wins: 2,
+    losses: 1,
+    totalMatches: 3,
+    winRate: 67,
+    heroes: [
+      { heroId: 4, isWin: true },
+      { heroId: 4, isWin: true },
+      { heroId: 4, isWin: false },
+    ],
+    avgApm: 60,
+    avgKda: 1, // One hero, barely any K+A → Бот and Мейнер
+    totalKills: 1,
+    totalDeaths: 9,
+    totalAssists: 2,
+    totalDurationSeconds: 6000,
+    avgDurationSeconds: 2000,
+    longMatches: 0,
+    longWins: 0,
+    nightMatches: 0,
+    morningMatches: 0,
+    activeDays: 1,
+    longestWinStreak: 2,
+  },
+  {
+    playerId: 44444444,
+    playerName: "NightOwl",
+    wins: 3,
+    losses: 2,
+    totalMatches: 5,
+    winRate: 60,
+    heroes: [
+      { heroId: 3, isWin: true },
+      { heroId: 3, isWin: false },
+      { heroId: 5, isWin: true },
+      { heroId: 5, isWin: true },
+      { heroId: 6, isWin: false },
+    ],
+    avgApm: 130,
+    avgKda: 2.2, // Every game at night → Ночной страж
+    totalKills: 12,
+    totalDeaths: 15,
+    totalAssists: 20,
+    totalDurationSeconds: 9000,
+    avgDurationSeconds: 1800,
+    longMatches: 0,
+    longWins: 0,
+    nightMatches: 5,
+    morningMatches: 0,
+    activeDays: 2,
+    longestWinStreak: 2,
   },
 ];
 
@@ -216,6 +359,51 @@ async function runTests() {
   console.log(plainMessage);
   console.log("---\n");
 
+  const nominationsMessage = await formatStatsMessage([...mockStats, ...specialistStats]);
+
+  // Previous period: same players, fewer games and different win rates
+  const previousStats: PlayerStats[] = mockStats.map((s) => ({
+    ...s,
+    totalMatches: Math.max(s.totalMatches - 1, 0),
+    winRate: s.playerName === "ProGamer" ? 50 : s.playerName === "MidPlayer" ? 80 : s.winRate,
+  }));
+
+  // ProGamer and MidPlayer stack on Radiant (2W/1L); ProGamer and Support4Life lose 3 times
+  const partyMatch = (match_id: number, player_slot: number, radiant_win: boolean): RecentMatch => ({
+    match_id, player_slot, radiant_win, start_time: 0, duration: 2400, hero_id: 1, kills: 5, deaths: 5, assists: 5,
+  });
+  const synergy = calculateSynergy(new Map([
+    [93921511, [partyMatch(1, 0, true), partyMatch(2, 0, true), partyMatch(3, 0, false),
+      partyMatch(4, 1, false), partyMatch(5, 1, false), partyMatch(6, 1, false)]],
+    [167818283, [partyMatch(1, 1, true), partyMatch(2, 1, true), partyMatch(3, 1, false), partyMatch(7, 0, true)]],
+    [94014640, [partyMatch(4, 2, false), partyMatch(5, 2, false), partyMatch(6, 2, false), partyMatch(1, 128, true)]],
+  ]));
+
+  const digest = await formatDigestMessage("weekly", mockStats, previousStats, {
+    from: 0,
+    to: 7 * 24 * 60 * 60,
+    title: "12.10.2026 - 18.10.2026 (Week)",
+  }, synergy);
+
+  console.log("Weekly digest:");
+  console.log("---");
+  console.log(stripHtml(digest));
+  console.log("---\n");
+
+  // Interactive views: 6 active players are 2 detailed pages, or one compact page
+  const range = { from: 0, to: 24 * 60 * 60, title: "Today" };
+  const firstPage = await formatStatsPage(mockStats, range, { compact: false, page: 0 });
+  const lastPage = await formatStatsPage(mockStats, range, { compact: false, page: 5 });
+  const compact = await formatStatsPage(mockStats, range, { compact: true, page: 0 });
+
+  // OfflaneKing opts out of negative nominations (/settings nominations off) in the test roster;
+  // restored right after so the checks below see the defaults
+  const offlaneKingId = 92126977;
+  const savedPreferences = findPlayerBySteamId(offlaneKingId)?.preferences;
+  updatePlayer(offlaneKingId, { preferences: { ...savedPreferences, shameNominations: false } });
+  const optedOut = await formatStatsMessage(mockStats);
+  updatePlayer(offlaneKingId, { preferences: savedPreferences });
+
   // Verify expected content
   const checks = [
     { name: "Has date header", pass: message.includes("Dota Stats for") },
@@ -242,26 +430,38 @@ async function runTests() {
     { name: "Has KDA for players", pass: message.includes("KDA:") },
     { name: "Has team KDA in summary", pass: /KDA: [\d.]+/.test(message) },
     { name: "Has inactive players line", pass: message.includes("Не играли:") },
+    // Interactive view checks
+    { name: "Detailed view is paged", pass: firstPage.pages === 2 && firstPage.message.includes("(стр. 1/2)") },
+    { name: "Page out of range is clamped", pass: lastPage.page === 1 && lastPage.message.includes("(стр. 2/2)") },
+    {
+      name: "Pages split the players",
+      pass: firstPage.message.includes("players/93921511") && !lastPage.message.includes("players/93921511"),
+    },
+    { name: "Pages keep the team summary", pass: lastPage.message.includes("27 matches") },
+    {
+      name: "Compact view is one page without hero lists",
+      pass: compact.pages === 1 && compact.message.includes("ProGamer") && !compact.message.includes("Anti-Mage"),
+    },
     // Nominations checks
     { name: "Has nominations section", pass: message.includes("🏆") && message.includes("Номинации") },
     { name: "Has Лузер nomination", pass: message.includes("💀 Лузер:") },
     { name: "Has Фидер nomination", pass: message.includes("⚰️ Фидер:") },
     { name: "Has Тащер nomination", pass: message.includes("💪 Тащер:") },
     { name: "Has Саппорт nomination", pass: message.includes("🤝 Саппорт:") },
-    { name: "Has Бот nomination", pass: message.includes("🤖 Бот:") },
+    { name: "Has Бот nomination", pass: nominationsMessage.includes("🤖 Бот:") },
     { name: "Has Задрот nomination", pass: message.includes("🎮 Задрот:") },
     { name: "Has Везунчик nomination", pass: message.includes("🍀 Везунчик:") },
     { name: "Has Клоун nomination", pass: message.includes("🤡 Клоун:") },
-    { name: "Has Марафонец nomination", pass: message.includes("🕒 Марафонец:") },
+    { name: "Has Марафонец nomination", pass: nominationsMessage.includes("🕒 Марафонец:") },
     { name: "Has Спринтер nomination", pass: message.includes("⚡ Спринтер:") },
-    { name: "Has Любитель лейта nomination", pass: message.includes("🐢 Любитель лейта:") },
+    { name: "Has Любитель лейта nomination", pass: nominationsMessage.includes("🐢 Любитель лейта:") },
     { name: "Has Аккуратист nomination", pass: message.includes("🛡️ Аккуратист:") },
-    { name: "Has Дуэлянт nomination", pass: message.includes("🧹 Дуэлянт:") },
-    { name: "Has Киллер nomination", pass: message.includes("🎯 Киллер:") },
+    { name: "Has Дуэлянт nomination", pass: nominationsMessage.includes("🧹 Дуэлянт:") },
+    { name: "Has Киллер nomination", pass: nominationsMessage.includes("🎯 Киллер:") },
     { name: "Has Экспериментатор nomination", pass: message.includes("🧪 Экспериментатор:") },
-    { name: "Has Мейнер nomination", pass: message.includes("🧠 Мейнер:") },
+    { name: "Has Мейнер nomination", pass: nominationsMessage.includes("🧠 Мейнер:") },
     { name: "Has Камбэкер nomination", pass: message.includes("🔄 Камбэкер:") },
-    { name: "Has Ночной страж nomination", pass: message.includes("🌙 Ночной страж:") },
+    { name: "Has Ночной страж nomination", pass: nominationsMessage.includes("🌙 Ночной страж:") },
     { name: "Has Утренний страж nomination", pass: message.includes("🌅 Утренний страж:") },
     {
       name: "No player has more than two nominations",
@@ -281,6 +481,25 @@ async function runTests() {
         return [...counts.values()].every((count) => count <= 2);
       })(),
     },
+    {
+      name: "Opted-out player gets no negative nominations",
+      pass: !optedOut.includes("Лузер: OfflaneKing") && !optedOut.includes("Фидер: OfflaneKing"),
+    },
+    { name: "Negative nomination goes to the next worst", pass: optedOut.includes("💀 Лузер: Support4Life") },
+    // Digest checks
+    { name: "Digest has weekly header", pass: digest.includes("Итоги недели") },
+    { name: "Digest has period title", pass: digest.includes("12.10.2026 - 18.10.2026") },
+    { name: "Digest has Серия nomination", pass: digest.includes("🔥 Серия: ProGamer (4 побед подряд)") },
+    { name: "Digest has Без выходных nomination", pass: digest.includes("📆 Без выходных: ProGamer") },
+    { name: "Digest has Прогресс nomination", pass: digest.includes("📈 Прогресс: ProGamer (+33% WR)") },
+    { name: "Digest has Регресс nomination", pass: digest.includes("📉 Регресс: MidPlayer") },
+    { name: "Digest has comparison section", pass: digest.includes("По сравнению с прошлой неделей") },
+    { name: "Digest compares match count", pass: /Матчей: 27 \(\+\d+\)/.test(digest) },
+    // Synergy checks
+    { name: "Synergy counts party matches per team side", pass: synergy.partyMatches === 6 },
+    { name: "Synergy ignores opponents in the same match", pass: synergy.duos.length === 2 },
+    { name: "Has Лучший дуэт nomination", pass: digest.includes("👯 Лучший дуэт: ProGamer + MidPlayer (67% WR, 3 игр)") },
+    { name: "Has Худший дуэт nomination", pass: digest.includes("💔 Худший дуэт: ProGamer + Support4Life (0% WR, 3 игр)") },
   ];
 
   console.log("Verification checks:");
@@ -0,0 +1,118 @@
+/**
+ * Test script for the LLM gateway (stub provider, retries, usage accounting) and AI quotas
+ * Run with: npx tsx src/test-llm.ts
+ */
+
+import "./test-data-dir.js";
+import {
+  complete,
+  estimateCost,
+  getLlmUsage,
+  setLlmProvider,
+  stubProvider,
+  type LlmProvider,
+  type LlmRequest,
+} from "./llm.js";
+import { checkAiQuota, getQuotaStatus } from "./quota.js";
+
+// IDs no real Telegram account or chat has
+const TEST_USER_ID = -Date.now();
+const TEST_CHAT_ID = -Date.now();
+
+async function runTests() {
+  console.log("=== Testing LLM gateway ===\n");
+
+  setLlmProvider(stubProvider);
+  const request: LlmRequest = {
+    feature: "analyze",
+    messages: [
+      { role: "system", content: "Ты аналитик" },
+      { role: "user", content: "Матч #123" },
+    ],
+    userId: TEST_USER_ID,
+  };
+
+  const usageBefore = getLlmUsage(`user:${TEST_USER_ID}`);
+  const totalBefore = getLlmUsage("total");
+  const first = await complete(request);
+  const second = await complete(request);
+  const other = await complete({ ...request, messages: [{ role: "user", content: "Матч #456" }] });
+  const usageAfter = getLlmUsage(`user:${TEST_USER_ID}`);
+  const totalAfter = getLlmUsage("total");
+
+  console.log(`Stub reply: ${first}`);
+
+  // Fails once with a 503, then answers
+  let flakyCalls = 0;
+  const flaky: LlmProvider = {
+    name: "flaky",
+    async complete(req, model, timeoutMs) {
+      flakyCalls++;
+      if (flakyCalls === 1) throw Object.assign(new Error("Service Unavailable"), { status: 503 });
+      return stubProvider.complete(req, model, timeoutMs);
+    },
+  };
+  setLlmProvider(flaky);
+  const retried = await complete(request);
+
+  // A bad request is not retried
+  let badCalls = 0;
+  setLlmProvider({
+    name: "bad",
+    async complete() {
+      badCalls++;
+      throw Object.assign(new Error("Bad Request"), { status: 400 });
+    },
+  });
+  const badError = await complete(request).then(() => null, (error: Error) => error);
+
+  // Quota: a fresh user is allowed until the daily call limit
+  setLlmProvider(stubProvider);
+  const requester = { userId: TEST_USER_ID - 1, chatId: TEST_CHAT_ID };
+  const allowedBefore = checkAiQuota(requester) === null;
+  const { userLimit } = getQuotaStatus(requester);
+  for (let i = 0; i < userLimit; i++) {
+    await complete({ ...request, userId: requester.userId, chatId: requester.chatId });
+  }
+  const deniedAfter = checkAiQuota(requester);
+  const exemptAfter = checkAiQuota({ ...requester, exempt: true });
+  const chatStatus = getQuotaStatus(requester);
+
+  const checks = [
+    { name: "Stub reply is deterministic", pass: first === second },
+    { name: "Stub reply depends on the prompt", pass: first !== other && other.includes("Матч #456") },
+    { name: "Usage is counted per user", pass: usageAfter.requests - usageBefore.requests === 3 },
+    { name: "Usage is counted for the whole bot", pass: totalAfter.requests - totalBefore.requests === 3 },
+    { name: "Usage counts tokens", pass: usageAfter.promptTokens > usageBefore.promptTokens },
+    { name: "Transient errors are retried", pass: flakyCalls === 2 && retried.startsWith("[stub analyze") },
+    { name: "Bad requests fail without retry", pass: badCalls === 1 && badError?.message === "Bad Request" },
+    {
+      name: "Cost uses the base model price for dated names",
+      pass: estimateCost("gpt-4o-mini-2024-07-18", { promptTokens: 1_000_000, completionTokens: 0 }) === 0.15,
+    },
+    { name: "Unknown models cost nothing", pass: estimateCost("local-llama", { promptTokens: 1000, completionTokens: 1000 }) === 0 },
+    { name: "Quota allows a fresh user", pass: allowedBefore },
+    { name: "Quota stops a user at the daily limit", pass: deniedAfter?.includes("приходи завтра") === true },
+    { name: "Admins are exempt from the quota", pass: exemptAfter === null },
+    { name: "Chat budget counts tokens of its calls", pass: chatStatus.chatTokens > 0 },
+  ];
+
+  console.log("Verification checks:");
+  let allPassed = true;
+  for (const check of checks) {
+    const status = check.pass ? "✅" : "❌";
+    console.log(`  ${status} ${check.name}`);
+    if (!check.pass) allPassed = false;
+  }
+
+  console.log("");
+  if (allPassed) {
+    console.log("✅ All checks passed!");
+    process.exit(0);
+  } else {
+    console.log("❌ Some checks failed!");
+    process.exit(1);
+  }
+}
+
+runTests();
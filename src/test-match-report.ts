@@ -0,0 +1,189 @@
+/**
+ * Test script for the rule-based match report (no network, no OpenAI)
+ * Run with: npx tsx src/test-match-report.ts
+ */
+
+import "./test-data-dir.js";
+import { addPlayer } from "./config.js";
+import type { MatchDetails, MatchPlayer } from "./opendota.js";
+import { formatMatchReport, getGoldSwing, getLateItems, getMvpAndLvp } from "./match-report.js";
+import { stripHtml } from "./formatter.js";
+
+const OUR_PLAYERS = new Set([111, 222]);
+const MINUTE = 60;
+
+function mockPlayer(slot: number, overrides: Partial<MatchPlayer> = {}): MatchPlayer {
+  const isRadiant = slot < 5;
+  return {
+    account_id: 1000 + slot,
+    player_slot: isRadiant ? slot : 128 + slot - 5,
+    hero_id: slot + 1,
+    hero_variant: 0,
+    kills: 5,
+    deaths: 5,
+    assists: 5,
+    last_hits: 150,
+    denies: 10,
+    gold_per_min: 450,
+    xp_per_min: 500,
+    level: 20,
+    net_worth: 15000,
+    hero_damage: 15000,
+    tower_damage: 1000,
+    hero_healing: 0,
+    item_0: 0,
+    item_1: 0,
+    item_2: 0,
+    item_3: 0,
+    item_4: 0,
+    item_5: 0,
+    item_neutral: 0,
+    personaname: `Player${slot}`,
+    isRadiant,
+    win: 0,
+    kda: 2,
+    benchmarks: {
+      gold_per_min: { raw: 450, pct: 0.5 },
+      hero_damage_per_min: { raw: 400, pct: 0.5 },
+    },
+    ...overrides,
+  };
+}
+
+// Dire wins a 40-minute match after Radiant led early; our players are on Dire
+const parsedMatch: MatchDetails = {
+  match_id: 7777,
+  duration: 40 * MINUTE,
+  radiant_win: false,
+  start_time: 0,
+  game_mode: 22,
+  radiant_score: 25,
+  dire_score: 40,
+  // Radiant +4000 at 12 min, then Dire swings it to +12000 by the end
+  radiant_gold_adv: [0, 500, 1000, 1500, 2000, 2500, 3000, 3200, 3400, 3600, 3800, 3900, 4000,
+    3000, 1000, -2000, -3000, -4000, -5000, -6000, -6500, -7000, -7500, -8000, -8500, -9000,
+    -9200, -9400, -9600, -9800, -10000, -10200, -10400, -10600, -10800, -11000, -11200, -11400,
+    -11600, -11800, -12000],
+  teamfights: [
+    {
+      start: 14 * MINUTE + 20,
+      end: 15 * MINUTE,
+      deaths: 6,
+      players: Array.from({ length: 10 }, (_, i) => ({ deaths: 0, damage: 0, gold_delta: i < 5 ? 0 : 800 })),
+    },
+    {
+      start: 5 * MINUTE,
+      end: 5 * MINUTE + 20,
+      deaths: 1,
+      players: Array.from({ length: 10 }, () => ({ deaths: 0, damage: 0, gold_delta: 0 })),
+    },
+  ],
+  players: [
+    ...[0, 1, 2, 3].map((slot) => mockPlayer(slot)),
+    // Worst player on the losing team
+    mockPlayer(4, { kills: 1, deaths: 12, assists: 2, personaname: "Feeder", benchmarks: {
+      gold_per_min: { raw: 250, pct: 0.05 },
+    } }),
+    // Our carry: great game, late BKB, on-time Blink
+    mockPlayer(5, {
+      account_id: 111,
+      personaname: "OurCarry",
+      kills: 15,
+      deaths: 2,
+      assists: 10,
+      benchmarks: {
+        gold_per_min: { raw: 700, pct: 0.92 },
+        hero_damage_per_min: { raw: 900, pct: 0.88 },
+      },
+      lh_t: [0, 5, 10, 15, 20, 25, 30, 35, 40, 45, 52],
+      dn_t: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 8],
+      gold_t: [0, 600],
+      purchase_log: [
+        { time: 12 * MINUTE, key: "blink" },
+        { time: 27 * MINUTE + 10, key: "black_king_bar" },
+        { time: 30 * MINUTE, key: "tango" },
+      ],
+    }),
+    mockPlayer(6, { account_id: 222, personaname: "OurSupport" }),
+    ...[7, 8, 9].map((slot) => mockPlayer(slot)),
+  ],
+};
+
+// Same match, unparsed and without our players
+const basicMatch: MatchDetails = {
+  ...parsedMatch,
+  radiant_gold_adv: undefined,
+  teamfights: undefined,
+  players: parsedMatch.players.map((p) => ({ ...p, account_id: undefined, lh_t: undefined, gold_t: undefined, purchase_log: undefined })),
+};
+
+const heroNames = new Map(parsedMatch.players.map((p) => [p.hero_id, `Hero${p.hero_id}`]));
+
+function runTests() {
+  console.log("=== Testing Match Report ===\n");
+
+  const report = formatMatchReport(parsedMatch, heroNames, OUR_PLAYERS);
+  const plain = stripHtml(report);
+  const basicReport = stripHtml(formatMatchReport(basicMatch, heroNames, OUR_PLAYERS));
+
+  console.log(plain);
+  console.log("---");
+  console.log(basicReport);
+  console.log("---\n");
+
+  const carry = parsedMatch.players[5];
+  const swing = getGoldSwing(parsedMatch.radiant_gold_adv!, -1);
+  const turboLate = getLateItems(carry, 23);
+  const { mvp, lvp } = getMvpAndLvp(parsedMatch);
+
+  // Feeder joins the roster with negative nominations off (/settings nominations off)
+  addPlayer({ steamId: 1004, dotaName: "Feeder", preferences: { shameNominations: false } });
+  const optedOutLvp = getMvpAndLvp(parsedMatch).lvp;
+  const optedOutReport = stripHtml(formatMatchReport(parsedMatch, heroNames, OUR_PLAYERS));
+
+  const checks = [
+    { name: "Has header with match link", pass: report.includes("opendota.com/matches/7777") },
+    { name: "Shows our result", pass: plain.includes("ПОБЕДА") },
+    { name: "Has KDA table", pass: plain.includes("Radiant (LOSE):") && plain.includes("Dire (WIN):") },
+    { name: "Marks our players in KDA table", pass: plain.includes("⭐ OurCarry (Hero6) 15/2/10") },
+    { name: "Economy is from our side", pass: plain.includes("10 мин: -3800 • 20 мин: +6500 • Конец: +12000") },
+    { name: "Finds our max lead", pass: swing?.maxLead.value === 12000 && swing.maxLead.minute === 40 },
+    { name: "Finds enemy max lead", pass: swing?.maxDeficit.value === -4000 && swing.maxDeficit.minute === 12 },
+    { name: "Finds sharpest swing", pass: swing?.swing?.from === 12 && swing.swing.to === 17 && swing.swing.delta === 8000 },
+    { name: "Lists big teamfights only", pass: plain.includes("14:20 — 6 смертей, выиграли Dire") && !plain.includes("5:00 —") },
+    { name: "Shows benchmark percentiles", pass: plain.includes("GPM 92% 🔥") },
+    { name: "Shows 10 min CS", pass: plain.includes("CS на 10 мин: 52/8") },
+    { name: "Flags late BKB", pass: plain.includes("black_king_bar 27:10 (норма до 22:00)") },
+    { name: "Does not flag on-time Blink", pass: !plain.includes("blink 12:00") },
+    { name: "Turbo halves thresholds", pass: turboLate.some((l) => l.item === "blink" && l.threshold === 7.5 * MINUTE) },
+    { name: "MVP is the best player on the winning team", pass: mvp.personaname === "OurCarry" },
+    { name: "LVP is the worst player on the losing team", pass: lvp?.personaname === "Feeder" },
+    { name: "Report has MVP and LVP lines", pass: plain.includes("MVP: OurCarry") && plain.includes("LVP: Feeder") },
+    {
+      name: "Opted-out player is never the LVP",
+      pass: optedOutLvp !== undefined && optedOutLvp.personaname !== "Feeder" && !optedOutReport.includes("LVP: Feeder"),
+    },
+    { name: "Basic match is marked as unparsed", pass: basicReport.includes("Базовый") },
+    { name: "Basic match has no economy section", pass: !basicReport.includes("Экономика") },
+    { name: "Without our players shows Radiant/Dire result", pass: basicReport.includes("Dire победил") },
+  ];
+
+  console.log("Verification checks:");
+  let allPassed = true;
+  for (const check of checks) {
+    const status = check.pass ? "✅" : "❌";
+    console.log(`  ${status} ${check.name}`);
+    if (!check.pass) allPassed = false;
+  }
+
+  console.log("");
+  if (allPassed) {
+    console.log("✅ All checks passed!");
+    process.exit(0);
+  } else {
+    console.log("❌ Some checks failed!");
+    process.exit(1);
+  }
+}
+
+runTests();
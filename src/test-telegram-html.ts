@@ -0,0 +1,74 @@
+/**
+ * Test script for Telegram HTML helpers (message splitting)
+ * Run with: npx tsx src/test-telegram-html.ts
+ */
+
+import { TELEGRAM_MESSAGE_LIMIT, escapeHtml, splitHtmlMessage } from "./telegram-html.js";
+
+/**
+ * Every opened tag is closed within the chunk, in order
+ */
+function isBalanced(html: string): boolean {
+  const stack: string[] = [];
+  for (const match of html.matchAll(/<(\/?)([a-z-]+)[^>]*>/gi)) {
+    if (!match[1]) {
+      stack.push(match[2]);
+    } else if (stack.pop() !== match[2]) {
+      return false;
+    }
+  }
+  return stack.length === 0;
+}
+
+function runTests() {
+  console.log("=== Testing Telegram HTML ===\n");
+
+  // 14 player cards of ~400 characters, like a monthly stats message
+  const card = (i: number) =>
+    `⭐ <b><a href="https://www.opendota.com/players/${i}">Player${i}</a></b>\n` +
+    `<b>55%</b> • 11W / 9L\n${"Hero (2W/1L), ".repeat(20)}\nKDA: 3.1 • APM: 150`;
+  const stats = ["<b>Dota Stats for October</b>", ...Array.from({ length: 14 }, (_, i) => card(i))].join("\n\n");
+  const statsChunks = splitHtmlMessage(stats);
+
+  // A verbose analysis in <i>, with one paragraph that has no line breaks at all
+  const analysis = `🔬 <b>Анализ матча</b>\n\n<i>${escapeHtml("Мид <5 минут & >30% ").repeat(400)}</i>`;
+  const analysisChunks = splitHtmlMessage(analysis);
+
+  const short = "<b>short</b>";
+
+  console.log(`Stats: ${stats.length} chars -> ${statsChunks.map((c) => c.length).join(", ")}`);
+  console.log(`Analysis: ${analysis.length} chars -> ${analysisChunks.map((c) => c.length).join(", ")}`);
+  console.log("");
+
+  const allChunks = [...statsChunks, ...analysisChunks];
+  const checks = [
+    { name: "Short message is not split", pass: splitHtmlMessage(short).length === 1 && splitHtmlMessage(short)[0] === short },
+    { name: "Long stats are split", pass: statsChunks.length > 1 },
+    { name: "Long analysis is split", pass: analysisChunks.length > 1 },
+    { name: "Chunks fit the Telegram limit", pass: allChunks.every((c) => c.length <= TELEGRAM_MESSAGE_LIMIT) },
+    { name: "Chunks have balanced tags", pass: allChunks.every(isBalanced) },
+    { name: "Stats split between player cards", pass: statsChunks.every((c) => c.endsWith("APM: 150")) },
+    { name: "Stats content is kept", pass: statsChunks.join("\n\n") === stats },
+    { name: "Italic is reopened in the next chunk", pass: analysisChunks.slice(1).every((c) => c.startsWith("<i>")) },
+    { name: "Entities are not cut", pass: allChunks.every((c) => !/&[a-z]*$/.test(c.replace(/(<\/[a-z]+>)+$/, ""))) },
+  ];
+
+  console.log("Verification checks:");
+  let allPassed = true;
+  for (const check of checks) {
+    const status = check.pass ? "✅" : "❌";
+    console.log(`  ${status} ${check.name}`);
+    if (!check.pass) allPassed = false;
+  }
+
+  console.log("");
+  if (allPassed) {
+    console.log("✅ All checks passed!");
+    process.exit(0);
+  } else {
+    console.log("❌ Some checks failed!");
+    process.exit(1);
+  }
+}
+
+runTests();
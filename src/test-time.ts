@@ -0,0 +1,280 @@
+/**
+ * Test script for timezone and day-boundary handling
+ * Run with: npx tsx src/test-time.ts
+ */
+
+import {
+  calculateAge,
+  getLocalClockTime,
+  getLogicalDateKey,
+  getPeriodRange,
+  getPeriodTitle,
+  getTimeOfDay,
+  isBirthdayToday,
+  isValidTimeZone,
+  parsePeriod,
+  type TimeSettings,
+} from "./time.js";
+
+const MOSCOW: TimeSettings = { timeZone: "Europe/Moscow", dayStartHour: 6 };
+const BERLIN: TimeSettings = { timeZone: "Europe/Berlin", dayStartHour: 6 };
+const NEW_YORK: TimeSettings = { timeZone: "America/New_York", dayStartHour: 6 };
+const NEW_YORK_MIDNIGHT: TimeSettings = { timeZone: "America/New_York", dayStartHour: 0 };
+
+const HOUR = 60 * 60;
+
+/**
+ * UTC ISO string -> ms
+ */
+function at(iso: string): number {
+  return Date.parse(iso);
+}
+
+/**
+ * UTC ISO string -> unix seconds
+ */
+function sec(iso: string): number {
+  return Date.parse(iso) / 1000;
+}
+
+function runTests() {
+  console.log("=== Testing Time Utilities ===\n");
+
+  // 04:00 MSK on Jan 1 is still Dec 31 (before day start)
+  const newYearNight = at("2026-01-01T01:00:00Z");
+  // 05:00 MSK on Monday is still Sunday
+  const mondayBeforeDayStart = at("2026-10-19T02:00:00Z");
+
+  const berlinSpring = getPeriodRange("yesterday", BERLIN, at("2026-03-29T12:00:00Z"));
+  const berlinAutumn = getPeriodRange("yesterday", BERLIN, at("2026-10-25T12:00:00Z"));
+  const nyToday = getPeriodRange("today", NEW_YORK_MIDNIGHT, at("2026-03-08T12:00:00Z"));
+  const nyYesterday = getPeriodRange("yesterday", NEW_YORK_MIDNIGHT, at("2026-03-09T12:00:00Z"));
+
+  // Monday 19.10.2026, 15:00 MSK
+  const now = at("2026-10-19T12:00:00Z");
+
+  const checks = [
+    // Year and month edges
+    {
+      name: "Today before day start on Jan 1 belongs to Dec 31",
+      pass: getPeriodRange("today", MOSCOW, newYearNight).from === sec("2025-12-31T03:00:00Z"),
+    },
+    {
+      name: "Yesterday before day start on Jan 1 is Dec 30",
+      pass: (() => {
+        const range = getPeriodRange("yesterday", MOSCOW, newYearNight);
+        return range.from === sec("2025-12-30T03:00:00Z") && range.to === sec("2025-12-31T03:00:00Z");
+      })(),
+    },
+    {
+      name: "Month before day start on Jan 1 is December of previous year",
+      pass: getPeriodRange("month", MOSCOW, newYearNight).from === sec("2025-12-01T03:00:00Z"),
+    },
+    {
+      name: "Month title before day start on Jan 1",
+      pass: getPeriodTitle("month", MOSCOW, newYearNight) === "December 2025 (1-31)",
+    },
+    {
+      name: "Today title before day start on Jan 1",
+      pass: getPeriodTitle("today", MOSCOW, newYearNight) === "31.12.2025",
+    },
+    {
+      name: "Week across year boundary starts on Monday Dec 29",
+      pass: getPeriodRange("week", MOSCOW, newYearNight).from === sec("2025-12-29T03:00:00Z"),
+    },
+    {
+      name: "Month starts on the 1st at day start",
+      pass: getPeriodRange("month", MOSCOW, at("2026-03-15T12:00:00Z")).from === sec("2026-03-01T03:00:00Z"),
+    },
+    // Week edges
+    {
+      name: "Monday before day start still counts as previous week",
+      pass: getPeriodRange("week", MOSCOW, mondayBeforeDayStart).from === sec("2026-10-12T03:00:00Z"),
+    },
+    {
+      name: "Monday after day start starts a new week",
+      pass: getPeriodRange("week", MOSCOW, at("2026-10-19T04:00:00Z")).from === sec("2026-10-19T03:00:00Z"),
+    },
+    {
+      name: "Week title before day start on Monday",
+      pass: getPeriodTitle("week", MOSCOW, mondayBeforeDayStart) === "12.10.2026 - 18.10.2026 (Week)",
+    },
+    // DST zones
+    {
+      name: "Berlin: day with spring-forward transition is 23 hours",
+      pass: berlinSpring.from === sec("2026-03-28T05:00:00Z") && berlinSpring.to === sec("2026-03-29T04:00:00Z"),
+    },
+    {
+      name: "Berlin: day with fall-back transition is 25 hours",
+      pass:
+        berlinAutumn.from === sec("2026-10-24T04:00:00Z") &&
+        berlinAutumn.to === sec("2026-10-25T05:00:00Z") &&
+        berlinAutumn.to - berlinAutumn.from === 25 * HOUR,
+    },
+    {
+      name: "New York: midnight day start on spring-forward day",
+      pass: nyToday.from === sec("2026-03-08T05:00:00Z"),
+    },
+    {
+      name: "New York: spring-forward day is 23 hours",
+      pass: nyYesterday.from === sec("2026-03-08T05:00:00Z") && nyYesterday.to === sec("2026-03-09T04:00:00Z"),
+    },
+    {
+      name: "New York: day start after fall-back uses standard time",
+      pass: getPeriodRange("today", NEW_YORK, at("2026-11-01T15:00:00Z")).from === sec("2026-11-01T11:00:00Z"),
+    },
+    // Historical periods
+    {
+      name: "Last week is the previous Monday-Sunday",
+      pass: (() => {
+        const range = getPeriodRange("lastWeek", MOSCOW, now);
+        return (
+          range.from === sec("2026-10-12T03:00:00Z") &&
+          range.to === sec("2026-10-19T03:00:00Z") &&
+          range.title === "12.10.2026 - 18.10.2026 (Week)"
+        );
+      })(),
+    },
+    {
+      name: "Last month across year boundary is December",
+      pass: (() => {
+        const range = getPeriodRange("lastMonth", MOSCOW, at("2026-01-15T12:00:00Z"));
+        return (
+          range.from === sec("2025-12-01T03:00:00Z") &&
+          range.to === sec("2026-01-01T03:00:00Z") &&
+          range.title === "December 2025"
+        );
+      })(),
+    },
+    {
+      name: "Year starts on Jan 1 at day start",
+      pass: getPeriodRange("year", MOSCOW, now).from === sec("2026-01-01T03:00:00Z"),
+    },
+    // Period parsing
+    {
+      name: "Parses a single date",
+      pass: (() => {
+        const range = parsePeriod("2026-09-14", MOSCOW, now);
+        return (
+          range?.from === sec("2026-09-14T03:00:00Z") &&
+          range.to === sec("2026-09-15T03:00:00Z") &&
+          range.title === "14.09.2026"
+        );
+      })(),
+    },
+    {
+      name: "Parses an inclusive date range",
+      pass: (() => {
+        const range = parsePeriod("2026-09-01..2026-09-15", MOSCOW, now);
+        return (
+          range?.from === sec("2026-09-01T03:00:00Z") &&
+          range.to === sec("2026-09-16T03:00:00Z") &&
+          range.title === "01.09.2026 - 15.09.2026"
+        );
+      })(),
+    },
+    {
+      name: "Parses last N days including today",
+      pass: (() => {
+        const range = parsePeriod("last 14d", MOSCOW, now);
+        return range?.from === sec("2026-10-06T03:00:00Z") && range.to === null;
+      })(),
+    },
+    {
+      name: "Parses named periods case-insensitively",
+      pass:
+        parsePeriod("Last  Week", MOSCOW, now)?.from === sec("2026-10-12T03:00:00Z") &&
+        parsePeriod("yesterday", MOSCOW, now)?.to === sec("2026-10-19T03:00:00Z"),
+    },
+    {
+      name: "Rejects invalid periods",
+      pass:
+        parsePeriod("2026-02-30", MOSCOW, now) === undefined &&
+        parsePeriod("2026-09-15..2026-09-01", MOSCOW, now) === undefined &&
+        parsePeriod("last 0d", MOSCOW, now) === undefined &&
+        parsePeriod("fortnight", MOSCOW, now) === undefined,
+    },
+    // Night/morning buckets
+    {
+      name: "03:30 local is night",
+      pass: getTimeOfDay(sec("2026-10-19T00:30:00Z"), MOSCOW) === "night",
+    },
+    {
+      name: "08:00 local is morning",
+      pass: getTimeOfDay(sec("2026-10-19T05:00:00Z"), MOSCOW) === "morning",
+    },
+    {
+      name: "15:00 local is neither night nor morning",
+      pass: getTimeOfDay(sec("2026-10-19T12:00:00Z"), MOSCOW) === "other",
+    },
+    {
+      name: "Night ends at the configured day start",
+      pass: getTimeOfDay(sec("2026-10-19T01:30:00Z"), { ...MOSCOW, dayStartHour: 4 }) === "morning",
+    },
+    {
+      name: "Buckets follow the timezone",
+      pass: getTimeOfDay(sec("2026-10-19T05:00:00Z"), NEW_YORK) === "night",
+    },
+    // Birthdays
+    {
+      name: "Birthday matches local date, not UTC",
+      pass:
+        isBirthdayToday("1993-11-10", "Europe/Moscow", at("2026-11-09T22:00:00Z")) &&
+        !isBirthdayToday("1993-11-10", "America/New_York", at("2026-11-09T22:00:00Z")),
+    },
+    {
+      name: "Feb 29 birthday is celebrated on Feb 28 in non-leap years",
+      pass: isBirthdayToday("2000-02-29", "Europe/Moscow", at("2027-02-28T12:00:00Z")),
+    },
+    {
+      name: "Feb 29 birthday is not on Feb 28 in leap years",
+      pass:
+        !isBirthdayToday("2000-02-29", "Europe/Moscow", at("2028-02-28T12:00:00Z")) &&
+        isBirthdayToday("2000-02-29", "Europe/Moscow", at("2028-02-29T12:00:00Z")),
+    },
+    {
+      name: "Age increments on the celebrated Feb 28",
+      pass:
+        calculateAge("2000-02-29", "Europe/Moscow", at("2027-02-28T12:00:00Z")) === 27 &&
+        calculateAge("2000-02-29", "Europe/Moscow", at("2027-02-27T12:00:00Z")) === 26,
+    },
+    {
+      name: "Age uses local date",
+      pass:
+        calculateAge("1993-11-10", "Europe/Moscow", at("2026-11-09T22:00:00Z")) === 33 &&
+        calculateAge("1993-11-10", "America/New_York", at("2026-11-09T22:00:00Z")) === 32,
+    },
+    // Misc
+    {
+      name: "Scheduler clock time is local",
+      pass: getLocalClockTime(at("2026-10-19T03:00:00Z"), "Europe/Moscow") === "06:00",
+    },
+    {
+      name: "Daily key before day start is previous date",
+      pass: getLogicalDateKey(newYearNight, MOSCOW) === "2025-12-31",
+    },
+    {
+      name: "Validates IANA timezones",
+      pass: isValidTimeZone("Asia/Yekaterinburg") && !isValidTimeZone("Mars/Olympus"),
+    },
+  ];
+
+  console.log("Verification checks:");
+  let allPassed = true;
+  for (const check of checks) {
+    const status = check.pass ? "✅" : "❌";
+    console.log(`  ${status} ${check.name}`);
+    if (!check.pass) allPassed = false;
+  }
+
+  console.log("");
+  if (allPassed) {
+    console.log("✅ All checks passed!");
+    process.exit(0);
+  } else {
+    console.log("❌ Some checks failed!");
+    process.exit(1);
+  }
+}
+
+runTests();
@@ -0,0 +1,448 @@
+/**
+ * Timezone and day-boundary utilities.
+ *
+ * All period boundaries, titles, night/morning buckets and birthday matching go
+ * through here. A "logical day" starts at dayStartHour local time (a 03:00 game
+ * still counts for the previous evening), and local time comes from an IANA
+ * timezone, so DST zones work without hardcoded offsets.
+ */
+import type { StatsPeriod } from "./stats.js";
+
+export interface TimeSettings {
+  timeZone: string;      // IANA timezone, e.g. "Europe/Moscow"
+  dayStartHour: number;  // local hour when a new day starts (0-23)
+}
+
+/**
+ * Calendar date (month is 0-based, day is 0=Sunday like Date#getDay)
+ */
+export interface CalendarDate {
+  year: number;
+  month: number;
+  date: number;
+  day: number;
+}
+
+export interface ZonedParts extends CalendarDate {
+  hours: number;
+  minutes: number;
+}
+
+const WEEKDAYS: Record<string, number> = {
+  Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6,
+};
+
+const MONTH_NAMES = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+
+// Intl formatters are expensive to create, keep one per timezone
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+      weekday: "short",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Checks that a string is a valid IANA timezone
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const FALLBACK_TIME_ZONE = "Europe/Moscow";
+const FALLBACK_DAY_START_HOUR = 6;
+
+/**
+ * BOT_TIMEZONE from the environment; an unknown timezone falls back to Europe/Moscow
+ */
+function readTimeZone(): string {
+  const raw = process.env.BOT_TIMEZONE;
+  if (!raw) return FALLBACK_TIME_ZONE;
+  if (!isValidTimeZone(raw)) {
+    console.warn(`[TIME] Invalid BOT_TIMEZONE "${raw}", using ${FALLBACK_TIME_ZONE}`);
+    return FALLBACK_TIME_ZONE;
+  }
+  return raw;
+}
+
+/**
+ * DAY_START_HOUR from the environment; anything but a whole hour 0-23 falls back to 6
+ */
+function readDayStartHour(): number {
+  const raw = process.env.DAY_START_HOUR;
+  if (raw === undefined || raw.trim() === "") return FALLBACK_DAY_START_HOUR;
+  const hour = Number(raw);
+  if (!Number.isInteger(hour) || hour < 0 || hour > 23) {
+    console.warn(`[TIME] Invalid DAY_START_HOUR "${raw}", using ${FALLBACK_DAY_START_HOUR}`);
+    return FALLBACK_DAY_START_HOUR;
+  }
+  return hour;
+}
+
+export const DEFAULT_TIME_SETTINGS: TimeSettings = {
+  timeZone: readTimeZone(),
+  dayStartHour: readDayStartHour(),
+};
+
+/**
+ * Local wall-clock components of a timestamp (ms) in a timezone
+ */
+export function getZonedParts(timestampMs: number, timeZone: string): ZonedParts {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(new Date(timestampMs))) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month) - 1,
+    date: Number(parts.day),
+    hours: Number(parts.hour),
+    minutes: Number(parts.minute),
+    day: WEEKDAYS[parts.weekday],
+  };
+}
+
+/**
+ * Offset of a timezone from UTC at a given moment, in ms (positive east of UTC)
+ */
+function getTimeZoneOffsetMs(timestampMs: number, timeZone: string): number {
+  const wholeSeconds = Math.floor(timestampMs / 1000) * 1000;
+  const p = getZonedParts(wholeSeconds, timeZone);
+  const seconds = new Date(wholeSeconds).getUTCSeconds();
+  return Date.UTC(p.year, p.month, p.date, p.hours, p.minutes, seconds) - wholeSeconds;
+}
+
+/**
+ * Converts a local wall-clock time in a timezone to a UTC timestamp (ms).
+ * Month/date overflow is normalized (e.g. date 0 = last day of previous month).
+ */
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  date: number,
+  hours: number,
+  timeZone: string,
+): number {
+  const wallClock = Date.UTC(year, month, date, hours);
+  const guess = wallClock - getTimeZoneOffsetMs(wallClock, timeZone);
+  // Re-check the offset at the guess: it differs when a DST switch lies in between
+  return wallClock - getTimeZoneOffsetMs(guess, timeZone);
+}
+
+/**
+ * Shifts a calendar date by a number of days (handles month/year boundaries)
+ */
+export function shiftDate(d: Pick<CalendarDate, "year" | "month" | "date">, days: number): CalendarDate {
+  const shifted = new Date(Date.UTC(d.year, d.month, d.date + days));
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth(),
+    date: shifted.getUTCDate(),
+    day: shifted.getUTCDay(),
+  };
+}
+
+/**
+ * Calendar date of the logical day containing a timestamp
+ * (before dayStartHour still belongs to the previous date)
+ */
+export function getLogicalDate(timestampMs: number, settings: TimeSettings): CalendarDate {
+  const p = getZonedParts(timestampMs, settings.timeZone);
+  return shiftDate(p, p.hours < settings.dayStartHour ? -1 : 0);
+}
+
+/**
+ * Start of a logical day as a unix timestamp (seconds)
+ */
+export function getDayStartTimestamp(d: Pick<CalendarDate, "year" | "month" | "date">, settings: TimeSettings): number {
+  return zonedTimeToUtc(d.year, d.month, d.date, settings.dayStartHour, settings.timeZone) / 1000;
+}
+
+/**
+ * A stats period resolved to concrete boundaries
+ */
+export interface DateRange {
+  from: number;        // unix seconds, inclusive
+  to: number | null;   // unix seconds, exclusive; null = until now
+  title: string;       // header shown in the stats message
+}
+
+/**
+ * Monday of the week containing a date
+ */
+function getMonday(d: CalendarDate): CalendarDate {
+  return shiftDate(d, -((d.day + 6) % 7));
+}
+
+/**
+ * Gets boundaries and title of a named period relative to now
+ */
+export function getPeriodRange(
+  period: StatsPeriod,
+  settings: TimeSettings,
+  nowMs: number = Date.now(),
+): DateRange {
+  const today = getLogicalDate(nowMs, settings);
+  const start = (d: Pick<CalendarDate, "year" | "month" | "date">) => getDayStartTimestamp(d, settings);
+
+  switch (period) {
+    case "today":
+      return { from: start(today), to: null, title: formatCalendarDate(today) };
+    case "yesterday": {
+      const yesterday = shiftDate(today, -1);
+      return { from: start(yesterday), to: start(today), title: formatCalendarDate(yesterday) };
+    }
+    case "week": {
+      // Week starts on Monday
+      const monday = getMonday(today);
+      return {
+        from: start(monday),
+        to: null,
+        title: `${formatCalendarDate(monday)} - ${formatCalendarDate(today)} (Week)`,
+      };
+    }
+    case "lastWeek": {
+      const thisMonday = getMonday(today);
+      const lastMonday = shiftDate(thisMonday, -7);
+      return {
+        from: start(lastMonday),
+        to: start(thisMonday),
+        title: `${formatCalendarDate(lastMonday)} - ${formatCalendarDate(shiftDate(thisMonday, -1))} (Week)`,
+      };
+    }
+    case "month":
+      // Format: "January 2026 (1-24)"
+      return {
+        from: start({ ...today, date: 1 }),
+        to: null,
+        title: `${MONTH_NAMES[today.month]} ${today.year} (1-${today.date})`,
+      };
+    case "lastMonth": {
+      const firstOfLastMonth = shiftDate({ ...today, date: 1 }, -1);
+      return {
+        from: start({ ...firstOfLastMonth, date: 1 }),
+        to: start({ ...today, date: 1 }),
+        title: `${MONTH_NAMES[firstOfLastMonth.month]} ${firstOfLastMonth.year}`,
+      };
+    }
+    case "year":
+      return {
+        from: start({ year: today.year, month: 0, date: 1 }),
+        to: null,
+        title: `${today.year} (${formatCalendarDate({ year: today.year, month: 0, date: 1 })} - ${formatCalendarDate(today)})`,
+      };
+  }
+}
+
+/**
+ * Range covering whole logical days from `first` to `last` inclusive
+ */
+export function getDateRange(
+  first: Pick<CalendarDate, "year" | "month" | "date">,
+  last: Pick<CalendarDate, "year" | "month" | "date">,
+  settings: TimeSettings,
+): DateRange {
+  const isSingleDay = formatCalendarDate(first) === formatCalendarDate(last);
+  return {
+    from: getDayStartTimestamp(first, settings),
+    to: getDayStartTimestamp(shiftDate(last, 1), settings),
+    title: isSingleDay
+      ? formatCalendarDate(first)
+      : `${formatCalendarDate(first)} - ${formatCalendarDate(last)}`,
+  };
+}
+
+/**
+ * Last N logical days including today
+ */
+export function getLastDaysRange(days: number, settings: TimeSettings, nowMs: number = Date.now()): DateRange {
+  const today = getLogicalDate(nowMs, settings);
+  const first = shiftDate(today, -(days - 1));
+  return {
+    from: getDayStartTimestamp(first, settings),
+    to: null,
+    title: `${formatCalendarDate(first)} - ${formatCalendarDate(today)} (${days} days)`,
+  };
+}
+
+/**
+ * Length of a range in days (open ranges are measured up to now)
+ */
+export function getRangeDays(range: DateRange, nowMs: number = Date.now()): number {
+  const to = range.to ?? nowMs / 1000;
+  return (to - range.from) / (24 * 60 * 60);
+}
+
+const PERIOD_ALIASES: Record<string, StatsPeriod> = {
+  today: "today",
+  yesterday: "yesterday",
+  week: "week",
+  month: "month",
+  year: "year",
+  "last week": "lastWeek",
+  "last month": "lastMonth",
+};
+
+// Longest "last Nd" we accept: the match history only goes back about a year
+const MAX_LAST_DAYS = 366;
+
+/**
+ * Parses "YYYY-MM-DD" into a calendar date (undefined for malformed or impossible dates)
+ */
+function parseCalendarDate(input: string): CalendarDate | undefined {
+  const match = input.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return undefined;
+
+  const [year, month, date] = [Number(match[1]), Number(match[2]) - 1, Number(match[3])];
+  const normalized = shiftDate({ year, month, date }, 0);
+  // Date.UTC normalizes overflow (2026-02-30 -> 2026-03-02), so compare back
+  if (normalized.month !== month || normalized.date !== date) return undefined;
+  return normalized;
+}
+
+/**
+ * Parses a period argument of a stats command:
+ * today | yesterday | week | month | year | last week | last month | last 14d |
+ * 2026-09-14 | 2026-09-01..2026-09-15
+ * Returns undefined if the input is not a valid period.
+ */
+export function parsePeriod(
+  input: string,
+  settings: TimeSettings,
+  nowMs: number = Date.now(),
+): DateRange | undefined {
+  const normalized = input.trim().toLowerCase().replace(/\s+/g, " ");
+
+  const alias = PERIOD_ALIASES[normalized];
+  if (alias) return getPeriodRange(alias, settings, nowMs);
+
+  const lastDays = normalized.match(/^last (\d+) ?d(?:ays?)?$/);
+  if (lastDays) {
+    const days = Number(lastDays[1]);
+    if (days < 1 || days > MAX_LAST_DAYS) return undefined;
+    return getLastDaysRange(days, settings, nowMs);
+  }
+
+  const [firstArg, lastArg, ...extra] = normalized.split("..");
+  if (extra.length > 0) return undefined;
+
+  const first = parseCalendarDate(firstArg.trim());
+  const last = lastArg === undefined ? first : parseCalendarDate(lastArg.trim());
+  if (!first || !last) return undefined;
+
+  const range = getDateRange(first, last, settings);
+  return range.to !== null && range.to > range.from ? range : undefined;
+}
+
+/**
+ * Formats a calendar date as DD.MM.YYYY
+ */
+export function formatCalendarDate(d: Pick<CalendarDate, "year" | "month" | "date">): string {
+  const day = String(d.date).padStart(2, "0");
+  const month = String(d.month + 1).padStart(2, "0");
+  return `${day}.${month}.${d.year}`;
+}
+
+/**
+ * Gets the period title for the stats message
+ */
+export function getPeriodTitle(
+  period: StatsPeriod,
+  settings: TimeSettings,
+  nowMs: number = Date.now(),
+): string {
+  return getPeriodRange(period, settings, nowMs).title;
+}
+
+/**
+ * Local hour (0-23) of a match start time (unix seconds)
+ */
+export function getLocalHour(startTimeSeconds: number, timeZone: string): number {
+  return getZonedParts(startTimeSeconds * 1000, timeZone).hours;
+}
+
+/**
+ * Time-of-day bucket of a match: night is midnight..dayStartHour, morning is dayStartHour..noon
+ */
+export function getTimeOfDay(
+  startTimeSeconds: number,
+  settings: TimeSettings,
+): "night" | "morning" | "other" {
+  const hour = getLocalHour(startTimeSeconds, settings.timeZone);
+  if (hour < settings.dayStartHour) return "night";
+  if (hour < 12) return "morning";
+  return "other";
+}
+
+/**
+ * Local "HH:MM" clock time, used by the scheduler
+ */
+export function getLocalClockTime(timestampMs: number, timeZone: string): string {
+  const p = getZonedParts(timestampMs, timeZone);
+  return `${String(p.hours).padStart(2, "0")}:${String(p.minutes).padStart(2, "0")}`;
+}
+
+/**
+ * Logical date key "YYYY-MM-DD" (for daily caches)
+ */
+export function getLogicalDateKey(timestampMs: number, settings: TimeSettings): string {
+  const d = getLogicalDate(timestampMs, settings);
+  return `${d.year}-${String(d.month + 1).padStart(2, "0")}-${String(d.date).padStart(2, "0")}`;
+}
+
+/**
+ * Day of month a birthday is celebrated in a given year (Feb 29 moves to Feb 28 in non-leap years)
+ */
+function getBirthdayDate(month: number, date: number, year: number): number {
+  if (month !== 2 || date !== 29) return date;
+  const isLeapYear = new Date(Date.UTC(year, 1, 29)).getUTCMonth() === 1;
+  return isLeapYear ? 29 : 28;
+}
+
+/**
+ * Checks if a "YYYY-MM-DD" birthday falls on today's local calendar date
+ */
+export function isBirthdayToday(birthday: string, timeZone: string, nowMs: number = Date.now()): boolean {
+  const today = getZonedParts(nowMs, timeZone);
+  const [, month, date] = birthday.split("-").map(Number);
+
+  return today.month === month - 1 && today.date === getBirthdayDate(month, date, today.year);
+}
+
+/**
+ * Age in full years on today's local date for a "YYYY-MM-DD" birthday
+ */
+export function calculateAge(birthday: string, timeZone: string, nowMs: number = Date.now()): number {
+  const today = getZonedParts(nowMs, timeZone);
+  const [year, month, date] = birthday.split("-").map(Number);
+
+  const birthdayDate = getBirthdayDate(month, date, today.year);
+  let age = today.year - year;
+  if (today.month + 1 < month || (today.month + 1 === month && today.date < birthdayDate)) {
+    age--;
+  }
+  return age;
+}